@@ -40,9 +40,27 @@ const context = await esbuild.context({
   outfile: "main.js",
 });
 
+// Standalone Node script that lets stdio-only MCP clients reach the plugin's MCP server
+const bridgeContext = await esbuild.context({
+  banner: {
+    js: "#!/usr/bin/env node\n" + banner,
+  },
+  entryPoints: ["src/bridge/stdio.ts"],
+  bundle: true,
+  platform: "node",
+  external: [...builtins],
+  format: "cjs",
+  target: "node16",
+  logLevel: "info",
+  sourcemap: false,
+  treeShaking: true,
+  outfile: "mcp-bridge.js",
+});
+
 if (prod) {
   await context.rebuild();
+  await bridgeContext.rebuild();
   process.exit(0);
 } else {
-  await context.watch();
+  await Promise.all([context.watch(), bridgeContext.watch()]);
 }
@@ -0,0 +1,375 @@
+/**
+ * stdio bridge for the Vault AI MCP server.
+ *
+ * MCP clients that can only launch stdio servers run this script with Node. It reads
+ * newline-delimited JSON-RPC messages from stdin, forwards them to the plugin's
+ * Streamable HTTP endpoint on 127.0.0.1, and writes replies and notifications to stdout.
+ *
+ * Usage: node mcp-bridge.js [--port 3456] [--host 127.0.0.1] [--token <token>]
+ * The port and access token can also be set with the VAULT_AI_MCP_PORT and
+ * VAULT_AI_MCP_TOKEN environment variables. Prefer the variable for the token so it
+ * does not show up in process listings.
+ *
+ * Runs outside Obsidian, so it must not import anything from the plugin.
+ */
+import * as http from 'http';
+import * as readline from 'readline';
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+interface BridgeOptions {
+  host: string;
+  port: number;
+  token?: string;
+}
+
+interface HttpReply {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const DEFAULT_PORT = 3456;
+// JSON-RPC implementation-defined server error range
+const SERVER_UNAVAILABLE = -32000;
+
+function parseOptions(argv: string[]): BridgeOptions {
+  const options: BridgeOptions = {
+    host: '127.0.0.1',
+    port: parseInt(process.env.VAULT_AI_MCP_PORT || '', 10) || DEFAULT_PORT,
+    token: process.env.VAULT_AI_MCP_TOKEN || undefined,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = argv[i + 1];
+    if (arg === '--port' && next) {
+      const port = parseInt(next, 10);
+      if (isNaN(port) || port <= 0 || port >= 65536) {
+        fail(`Invalid port: ${next}`);
+      }
+      options.port = port;
+      i++;
+    } else if (arg === '--host' && next) {
+      options.host = next;
+      i++;
+    } else if (arg === '--token' && next) {
+      options.token = next;
+      i++;
+    } else if (arg === '--help' || arg === '-h') {
+      process.stderr.write('Usage: node mcp-bridge.js [--port 3456] [--host 127.0.0.1] [--token <token>]\n');
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+function fail(message: string): never {
+  process.stderr.write(`[Vault AI bridge] ${message}\n`);
+  process.exit(1);
+}
+
+function log(message: string): void {
+  // stdout is reserved for protocol messages
+  process.stderr.write(`[Vault AI bridge] ${message}\n`);
+}
+
+class StdioBridge {
+  private options: BridgeOptions;
+  private sessionId: string | null = null;
+  // Replayed when Obsidian restarts and the server no longer knows our session
+  private initializeRequest: JsonRpcMessage | null = null;
+  private notificationStream: http.ClientRequest | null = null;
+  // Settles once the latest initialize has its session id; other messages wait for it
+  private sessionReady: Promise<void> = Promise.resolve();
+  // Shared by requests that find the session expired at the same time
+  private reinitializing: Promise<void> | null = null;
+  // Messages still being forwarded, so closing stdin can wait for them
+  private inFlight = new Set<Promise<void>>();
+
+  constructor(options: BridgeOptions) {
+    this.options = options;
+  }
+
+  start(): void {
+    const rl = readline.createInterface({ input: process.stdin });
+
+    rl.on('line', (line) => {
+      const trimmed = line.trim();
+      if (!trimmed) return;
+
+      let message: JsonRpcMessage | JsonRpcMessage[];
+      try {
+        message = JSON.parse(trimmed);
+      } catch {
+        this.write({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+        return;
+      }
+
+      this.dispatch(message);
+    });
+
+    // Client closed stdin: finish in-flight messages, then exit
+    rl.on('close', () => {
+      Promise.all(this.inFlight).then(() => this.shutdown());
+    });
+
+    log(`Forwarding stdio to ${this.endpoint()}`);
+  }
+
+  /**
+   * Forward a message without waiting for earlier ones, so a long tools/call
+   * does not hold up ping or notifications/cancelled. Only initialize is
+   * ordered: messages after it wait for its session id.
+   */
+  private dispatch(message: JsonRpcMessage | JsonRpcMessage[]): void {
+    const isInitialize = (Array.isArray(message) ? message : [message]).some((m) => m.method === 'initialize');
+    const forwarded = isInitialize
+      ? this.forward(message)
+      : this.sessionReady.then(() => this.forward(message));
+    const task = forwarded.catch((error) => log(`Unexpected error: ${error}`));
+
+    if (isInitialize) {
+      this.sessionReady = task;
+    }
+    this.inFlight.add(task);
+    task.then(() => this.inFlight.delete(task));
+  }
+
+  private endpoint(): string {
+    return `http://${this.options.host}:${this.options.port}/mcp`;
+  }
+
+  private async forward(message: JsonRpcMessage | JsonRpcMessage[]): Promise<void> {
+    const messages = Array.isArray(message) ? message : [message];
+    const initialize = messages.find((m) => m.method === 'initialize');
+    if (initialize) {
+      this.initializeRequest = initialize;
+      this.sessionId = null;
+    }
+
+    // SSE replies (tool calls with progress) are relayed event by event
+    const relay = (data: string) => this.writeRaw(data);
+
+    let reply: HttpReply;
+    try {
+      const session = this.sessionId;
+      reply = await this.post(message, relay);
+
+      // Server restarted and lost our session: initialize again and retry once
+      if (reply.status === 404 && session && this.initializeRequest && !initialize) {
+        // Another request may have started a new session meanwhile
+        if (this.sessionId === session) {
+          await this.reinitialize();
+        } else {
+          await this.reinitializing;
+        }
+        reply = await this.post(message, relay);
+      }
+    } catch (error) {
+      this.replyUnavailable(messages, error as NodeJS.ErrnoException);
+      return;
+    }
+
+    const sessionHeader = reply.headers['mcp-session-id'];
+    if (typeof sessionHeader === 'string' && sessionHeader !== this.sessionId) {
+      this.sessionId = sessionHeader;
+      this.openNotificationStream();
+    }
+
+    if (reply.status === 401) {
+      log('The MCP server rejected the access token. Set VAULT_AI_MCP_TOKEN to the token shown in the Vault AI settings.');
+    }
+
+    if (reply.status === 202 || !reply.body) {
+      return;
+    }
+
+    this.writeRaw(reply.body);
+  }
+
+  private reinitialize(): Promise<void> {
+    if (!this.reinitializing) {
+      log('Session expired, reinitializing');
+      this.reinitializing = (async () => {
+        this.sessionId = null;
+        const reply = await this.post(this.initializeRequest!);
+        const sessionHeader = reply.headers['mcp-session-id'];
+        if (typeof sessionHeader === 'string') {
+          this.sessionId = sessionHeader;
+          await this.post({ jsonrpc: '2.0', method: 'notifications/initialized' });
+          this.openNotificationStream();
+        }
+      })().finally(() => {
+        this.reinitializing = null;
+      });
+    }
+    return this.reinitializing;
+  }
+
+  /**
+   * Requests get a JSON-RPC error explaining why the server is unreachable;
+   * notifications are dropped.
+   */
+  private replyUnavailable(messages: JsonRpcMessage[], error: NodeJS.ErrnoException): void {
+    const reason = error.code === 'ECONNREFUSED'
+      ? `Could not connect to the Vault AI MCP server at ${this.endpoint()}. Make sure Obsidian is running with the Vault AI plugin enabled and its MCP server turned on.`
+      : `Vault AI MCP server request failed: ${error.message}`;
+
+    log(reason);
+
+    for (const message of messages) {
+      if (message.id !== undefined && message.id !== null && message.method) {
+        this.write({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: { code: SERVER_UNAVAILABLE, message: reason },
+        });
+      }
+    }
+  }
+
+  /**
+   * Keep a GET stream open so server-initiated notifications reach the client
+   */
+  private openNotificationStream(): void {
+    this.notificationStream?.destroy();
+    this.notificationStream = null;
+
+    const sessionId = this.sessionId;
+    if (!sessionId) return;
+
+    const req = http.request(this.endpoint(), {
+      method: 'GET',
+      headers: {
+        ...this.authHeaders(),
+        Accept: 'text/event-stream',
+        'Mcp-Session-Id': sessionId,
+      },
+    }, (res) => {
+      if (res.statusCode !== 200) {
+        res.resume();
+        return;
+      }
+
+      res.setEncoding('utf8');
+      res.on('data', createSSEReader((data) => this.writeRaw(data)));
+    });
+
+    // Losing the notification stream is not fatal; requests still work
+    req.on('error', () => {});
+    req.end();
+    this.notificationStream = req;
+  }
+
+  /**
+   * POST a message. SSE replies are passed to onEvent as they arrive and
+   * resolve with an empty body; JSON replies resolve with the full body.
+   */
+  private post(body: unknown, onEvent?: (data: string) => void): Promise<HttpReply> {
+    const payload = JSON.stringify(body);
+    const headers: Record<string, string | number> = {
+      ...this.authHeaders(),
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      'Content-Length': Buffer.byteLength(payload),
+    };
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+
+    return new Promise((resolve, reject) => {
+      const req = http.request(this.endpoint(), { method: 'POST', headers }, (res) => {
+        res.setEncoding('utf8');
+        let data = '';
+        const isStream = (res.headers['content-type'] || '').includes('text/event-stream');
+        const readEvents = createSSEReader((event) => onEvent?.(event));
+        res.on('data', (chunk: string) => {
+          if (isStream) {
+            readEvents(chunk);
+          } else {
+            data += chunk;
+          }
+        });
+        res.on('end', () => {
+          resolve({ status: res.statusCode || 0, headers: res.headers, body: data });
+        });
+        res.on('error', reject);
+      });
+
+      req.on('error', reject);
+      req.end(payload);
+    });
+  }
+
+  private shutdown(): void {
+    this.notificationStream?.destroy();
+    this.notificationStream = null;
+
+    const sessionId = this.sessionId;
+    if (!sessionId) {
+      process.exit(0);
+    }
+
+    // Let the server drop the session, but never hang on exit
+    const req = http.request(this.endpoint(), {
+      method: 'DELETE',
+      headers: { ...this.authHeaders(), 'Mcp-Session-Id': sessionId },
+    }, (res) => {
+      res.resume();
+      process.exit(0);
+    });
+    req.on('error', () => process.exit(0));
+    req.setTimeout(1000, () => process.exit(0));
+    req.end();
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.options.token ? { Authorization: `Bearer ${this.options.token}` } : {};
+  }
+
+  private write(message: JsonRpcMessage): void {
+    this.writeRaw(JSON.stringify(message));
+  }
+
+  private writeRaw(json: string): void {
+    // stdio transport requires one message per line; one write per message keeps
+    // replies to concurrent requests from interleaving
+    process.stdout.write(json.replace(/\r?\n/g, '') + '\n');
+  }
+}
+
+/**
+ * Returns a chunk handler that buffers SSE text and calls onData
+ * with the data payload of each complete event
+ */
+function createSSEReader(onData: (data: string) => void): (chunk: string) => void {
+  let buffer = '';
+
+  return (chunk: string) => {
+    buffer += chunk.replace(/\r\n/g, '\n');
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const event of events) {
+      const dataLines = event
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart());
+
+      if (dataLines.length > 0) {
+        onData(dataLines.join('\n'));
+      }
+    }
+  };
+}
+
+new StdioBridge(parseOptions(process.argv.slice(2))).start();
@@ -1,12 +1,67 @@
+import { debounce } from 'obsidian';
 import type VaultAIPlugin from '../main';
-import { Conversation, ChatHistory, ChatMessage, ContextScope } from '../types';
+import { Conversation, ChatHistory, ChatMessage, ContextScope, LLMMessage, MessageBranches } from '../types';
 import { LMStudioClient } from '../llm/LMStudioClient';
+import { ContextBudget } from '../llm/ContextBudget';
+import { ConversationNoteStore } from './ConversationNoteStore';
+import { ConversationFilter, ConversationMatch, searchConversations } from './conversationSearch';
+
+// Key of the chat history in data.json, next to the settings
+export const CHAT_HISTORY_KEY = 'chat-history';
+
+// Share of the history budget kept as recent messages when older ones are condensed
+const RECENT_SHARE = 0.5;
+// Share of the history budget the running summary may take
+const SUMMARY_SHARE = 0.4;
+
+const SUMMARY_SYSTEM_PROMPT = `You keep a running summary of a conversation between a user and an assistant that works with the user's Obsidian vault.
+Update the summary with the new messages. Keep what later messages may depend on: the user's goals and preferences, questions asked and answers given, decisions, and the notes, paths and changes mentioned. Drop small talk and details that no longer matter.
+Reply with only the summary, as short paragraphs or bullet points.`;
+
+/**
+ * Earlier turns of a conversation for the next prompt
+ */
+export interface PromptHistory {
+  // Running summary of the turns before messages
+  summary?: string;
+  messages: LLMMessage[];
+  // Whether older turns were folded into the summary for this prompt
+  condensed: boolean;
+}
+
+/**
+ * The running summary as an addition to a system prompt
+ */
+export function formatHistorySummary(summary?: string): string {
+  return summary ? `\n\nSummary of the earlier conversation:\n${summary}` : '';
+}
 
-const CHAT_HISTORY_KEY = 'chat-history';
+/**
+ * Summary and recent turns as an addition to a system prompt, for requests that
+ * cannot carry chat messages
+ */
+export function formatPromptHistory(history: PromptHistory | null): string {
+  if (!history || (!history.summary && history.messages.length === 0)) {
+    return '';
+  }
+
+  const turns = history.messages.map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`);
+  return formatHistorySummary(history.summary)
+    + (turns.length > 0 ? `\n\nMost recent messages:\n${turns.join('\n\n')}` : '');
+}
 
 export class ChatHistoryManager {
   private plugin: VaultAIPlugin;
   private history: ChatHistory;
+  // Set while conversations are kept as notes in the vault
+  private store: ConversationNoteStore | null = null;
+  // Resolves once the chat notes are read
+  private ready: Promise<void> = Promise.resolve();
+  private writing: Promise<void> = Promise.resolve();
+  private savedActiveConversationId: string | null = null;
+  private changeListeners = new Set<() => void>();
+  // A streamed answer saves many times; write its note once things settle
+  private scheduleNoteWrite = debounce(() => this.writeNotes(), 1000, true);
 
   constructor(plugin: VaultAIPlugin) {
     this.plugin = plugin;
@@ -21,12 +76,72 @@ export class ChatHistoryManager {
     if (data && data[CHAT_HISTORY_KEY]) {
       this.history = data[CHAT_HISTORY_KEY];
     }
+    this.savedActiveConversationId = this.history.activeConversationId;
+  }
+
+  /**
+   * With vault storage, read the chat notes and follow edits to them.
+   * Call once the workspace layout is ready.
+   */
+  start(): void {
+    if (this.plugin.settings.chatHistoryStorage === 'vault') {
+      this.ready = this.openStore();
+    }
+  }
+
+  /**
+   * Move the conversations over after the storage settings changed. Switching
+   * back to data.json leaves the notes in place.
+   */
+  async applyStorageSettings(): Promise<void> {
+    await this.ready;
+    const { chatHistoryStorage, chatHistoryFolder } = this.plugin.settings;
+
+    if (chatHistoryStorage === 'vault') {
+      if (this.store) {
+        await this.store.moveTo(chatHistoryFolder);
+      } else {
+        this.ready = this.openStore();
+        await this.ready;
+      }
+    } else if (this.store) {
+      await this.flush();
+      this.store.stop();
+      this.store = null;
+      await this.writeData();
+    }
+  }
+
+  /**
+   * Call listener when conversations change outside the chat views, e.g. a chat
+   * note was edited. Returns an unsubscribe function.
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
   }
 
   async save(): Promise<void> {
-    const data = (await this.plugin.loadData()) || {};
-    data[CHAT_HISTORY_KEY] = this.history;
-    await this.plugin.saveData(data);
+    if (this.plugin.settings.chatHistoryStorage !== 'vault') {
+      await this.writeData();
+      return;
+    }
+
+    // Notes hold the conversations; data.json only which one is open
+    this.scheduleNoteWrite();
+    if (this.store && this.history.activeConversationId !== this.savedActiveConversationId) {
+      await this.writeData();
+    }
+  }
+
+  /**
+   * Write chat notes that are waiting for the debounce
+   */
+  async flush(): Promise<void> {
+    this.scheduleNoteWrite.cancel();
+    await this.writeNotes();
   }
 
   getHistory(): ChatHistory {
@@ -46,6 +161,35 @@ export class ChatHistoryManager {
     return this.getConversation(this.history.activeConversationId);
   }
 
+  /**
+   * Conversations whose title or messages match a filter, newest first
+   */
+  search(filter: ConversationFilter): ConversationMatch[] {
+    return searchConversations(this.history.conversations, filter);
+  }
+
+  /**
+   * Names of the folders conversations are in, sorted
+   */
+  getFolders(): string[] {
+    const folders = new Set<string>();
+    for (const conversation of this.history.conversations) {
+      if (conversation.folder) folders.add(conversation.folder);
+    }
+    return Array.from(folders).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Models that answered in past conversations, sorted
+   */
+  getModels(): string[] {
+    const models = new Set<string>();
+    for (const conversation of this.history.conversations) {
+      if (conversation.model) models.add(conversation.model);
+    }
+    return Array.from(models).sort((a, b) => a.localeCompare(b));
+  }
+
   async createConversation(scope: ContextScope): Promise<Conversation> {
     const conversation: Conversation = {
       id: this.generateId(),
@@ -74,6 +218,9 @@ export class ChatHistoryManager {
 
     conversation.messages.push(message);
     conversation.updatedAt = Date.now();
+    if (message.role === 'assistant' && this.plugin.settings.selectedModel) {
+      conversation.model = this.plugin.settings.selectedModel;
+    }
 
     // Auto-generate title from first user message if still "New Chat"
     if (conversation.title === 'New Chat' && message.role === 'user') {
@@ -101,6 +248,93 @@ export class ChatHistoryManager {
     await this.save();
   }
 
+  async setPinned(id: string, pinned: boolean): Promise<void> {
+    const conversation = this.getConversation(id);
+    if (!conversation) return;
+
+    conversation.pinned = pinned || undefined;
+    await this.save();
+  }
+
+  /**
+   * Put a conversation in a folder of the history list; an empty name takes it out
+   */
+  async moveToFolder(id: string, folder: string): Promise<void> {
+    const conversation = this.getConversation(id);
+    if (!conversation) return;
+
+    conversation.folder = folder.trim() || undefined;
+    await this.save();
+  }
+
+  /**
+   * How many versions there are of the conversation from message index on, and
+   * which one is shown
+   */
+  getBranchInfo(conversationId: string, index: number): { count: number; current: number } {
+    const conversation = this.getConversation(conversationId);
+    const holder = conversation && getBranchHolder(conversation, index);
+    return {
+      count: (holder?.branches?.length || 0) + 1,
+      current: holder?.branchIndex || 0,
+    };
+  }
+
+  /**
+   * Keep the messages from index on as an alternative version and take them out
+   * of the conversation, so a new version can be added in their place (edit and
+   * resend, regenerate). Returns the position of the version that was kept.
+   */
+  async branchAt(conversationId: string, index: number): Promise<number> {
+    const conversation = this.getConversation(conversationId);
+    const holder = conversation && getBranchHolder(conversation, index);
+    if (!conversation || !holder) return 0;
+
+    const kept = holder.branchIndex || 0;
+    const versions = getVersions(holder, conversation.messages.slice(index));
+    conversation.messages = conversation.messages.slice(0, index);
+    // The new version goes last
+    holder.branches = versions;
+    holder.branchIndex = versions.length;
+
+    this.resetAfterBranching(conversation, index);
+    await this.save();
+    return kept;
+  }
+
+  /**
+   * Show another version of the conversation from message index on
+   */
+  async switchBranch(conversationId: string, index: number, branch: number): Promise<void> {
+    const conversation = this.getConversation(conversationId);
+    const holder = conversation && getBranchHolder(conversation, index);
+    if (!conversation || !holder) return;
+
+    const versions = getVersions(holder, conversation.messages.slice(index));
+    if (branch < 0 || branch >= versions.length) return;
+
+    const [shown] = versions.splice(branch, 1);
+    conversation.messages = conversation.messages.slice(0, index).concat(shown);
+    holder.branches = versions.length > 0 ? versions : undefined;
+    holder.branchIndex = versions.length > 0 ? branch : undefined;
+
+    this.resetAfterBranching(conversation, index);
+    await this.save();
+  }
+
+  /**
+   * LM Studio's stored response chain and a summary reaching past index belong
+   * to the version that was shown before
+   */
+  private resetAfterBranching(conversation: Conversation, index: number): void {
+    conversation.lmStudioResponseId = undefined;
+    conversation.lmStudioResponseModel = undefined;
+    if (conversation.summary && conversation.summary.messageCount > index) {
+      conversation.summary = undefined;
+    }
+    conversation.updatedAt = Date.now();
+  }
+
   /**
    * Asynchronously generate an AI-powered title for a conversation based on the first message.
    * This runs in the background and updates the conversation title when complete.
@@ -146,11 +380,12 @@ export class ChatHistoryManager {
     }
   }
 
-  async updateLMStudioResponseId(conversationId: string, responseId: string): Promise<void> {
+  async updateLMStudioResponseId(conversationId: string, responseId: string, model?: string): Promise<void> {
     const conversation = this.getConversation(conversationId);
     if (!conversation) return;
 
     conversation.lmStudioResponseId = responseId;
+    conversation.lmStudioResponseModel = responseId ? model : undefined;
     conversation.updatedAt = Date.now();
     await this.save();
   }
@@ -160,19 +395,178 @@ export class ChatHistoryManager {
     return conversation?.lmStudioResponseId;
   }
 
-  async deleteConversation(id: string): Promise<void> {
-    const index = this.history.conversations.findIndex((c) => c.id === id);
-    if (index === -1) return;
+  /**
+   * Earlier turns for the next prompt, without the message being answered (the
+   * last one). With summarization on, once the turns not yet summarized outgrow
+   * the history budget the oldest of them are folded into the conversation's
+   * running summary, which costs a model call. If that fails the turns are
+   * returned as they are and the prompt budget drops the oldest.
+   */
+  async getPromptHistory(conversationId: string): Promise<PromptHistory> {
+    const conversation = this.getConversation(conversationId);
+    if (!conversation) {
+      return { messages: [], condensed: false };
+    }
 
-    this.history.conversations.splice(index, 1);
+    const summary = conversation.summary;
+    const start = summary?.messageCount || 0;
+    const turns = conversation.messages.slice(start, -1);
+    const toPromptMessages = (messages: ChatMessage[]): LLMMessage[] =>
+      messages.map((m) => ({ role: m.role, content: m.content }));
 
-    // If we deleted the active conversation, clear the active ID
-    if (this.history.activeConversationId === id) {
-      // Set to the most recent conversation, or null if none left
-      const remaining = this.getConversations();
-      this.history.activeConversationId = remaining.length > 0 ? remaining[0].id : null;
+    const budget = ContextBudget.forPlugin(this.plugin);
+    const limit = budget.getHistoryLimit();
+    const sizes = toPromptMessages(turns).map((m) => budget.estimateMessage(m));
+    const total = sizes.reduce((sum, size) => sum + size, 0) + budget.estimate(summary?.text || '');
+
+    if (!this.plugin.settings.summarizeHistory || total <= limit) {
+      return { summary: summary?.text, messages: toPromptMessages(turns), condensed: false };
+    }
+
+    // Keep the newest turns verbatim and fold the rest into the summary
+    let keepFrom = turns.length;
+    let kept = 0;
+    while (keepFrom > 0 && kept + sizes[keepFrom - 1] <= limit * RECENT_SHARE) {
+      keepFrom--;
+      kept += sizes[keepFrom];
+    }
+
+    try {
+      const maxTokens = Math.floor(limit * SUMMARY_SHARE);
+      // When the summary alone is over budget there is nothing to fold in; shorten it instead
+      const text = keepFrom > 0
+        ? await this.condense(summary?.text, turns.slice(0, keepFrom), maxTokens)
+        : await this.shorten(summary?.text || '', maxTokens);
+      conversation.summary = { text, messageCount: start + keepFrom, updatedAt: Date.now() };
+      await this.save();
+      console.log(keepFrom > 0
+        ? `[Vault AI] Summarized ${keepFrom} message(s) of conversation ${conversationId}`
+        : `[Vault AI] Shortened the summary of conversation ${conversationId}`);
+      // Only folding in turns changes what an LM Studio response chain would need to hold
+      return { summary: text, messages: toPromptMessages(turns.slice(keepFrom)), condensed: keepFrom > 0 };
+    } catch (error) {
+      console.error('[Vault AI] Failed to summarize conversation history:', error);
+      return { summary: summary?.text, messages: toPromptMessages(turns), condensed: false };
+    }
+  }
+
+  /**
+   * Earlier turns for an LM Studio request. LM Studio continues a stored response
+   * chain that holds every turn, so with summarization on a new chain is started
+   * when older turns get condensed or the chain was made by another model. A new
+   * chain is also started when there is none, e.g. after switching versions of
+   * the conversation. The returned history then has to go into the new chain's
+   * system prompt (see formatPromptHistory); it is null while the stored chain
+   * is continued.
+   */
+  async getLMStudioHistory(conversationId: string): Promise<{ previousResponseId?: string; history: PromptHistory | null }> {
+    const previousResponseId = this.getLMStudioResponseId(conversationId);
+    if (!this.plugin.settings.summarizeHistory && previousResponseId) {
+      return { previousResponseId, history: null };
+    }
+
+    const conversation = this.getConversation(conversationId);
+    const history = await this.getPromptHistory(conversationId);
+    const sameModel = conversation?.lmStudioResponseModel === this.plugin.settings.selectedModel;
+    if (previousResponseId && sameModel && !history.condensed) {
+      return { previousResponseId, history: null };
     }
+    return { previousResponseId: undefined, history };
+  }
 
+  /**
+   * Fold messages into a summary, in as many model calls as it takes to fit them
+   */
+  private async condense(previous: string | undefined, messages: ChatMessage[], maxTokens: number): Promise<string> {
+    const client = this.plugin.llmClient;
+    if (!client) {
+      throw new Error('No LLM client');
+    }
+
+    let summary = previous || '';
+    let index = 0;
+    while (index < messages.length) {
+      const budget = ContextBudget.forPlugin(this.plugin, maxTokens);
+      budget.reserve('system', SUMMARY_SYSTEM_PROMPT);
+      budget.reserve('history', summary);
+
+      // At least one message per call, cut down if it is too long on its own
+      const turns: string[] = [];
+      do {
+        const message = messages[index];
+        const turn = `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`;
+        if (turns.length > 0 && budget.estimate(turn) > budget.remaining()) break;
+        turns.push(budget.fit('input', turn, 'message'));
+        index++;
+      } while (index < messages.length);
+
+      const prompt = `${summary ? `Summary so far:\n${summary}\n\n` : ''}New messages:\n\n${turns.join('\n\n')}
+
+Write the updated summary in at most ${Math.floor(maxTokens * 0.75)} words.`;
+
+      summary = (await client.chat([
+        { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+        { role: 'user', content: prompt },
+      ])).trim();
+      if (!summary) {
+        throw new Error('The model returned an empty summary');
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Rewrite a summary that outgrew its share of the history budget
+   */
+  private async shorten(summary: string, maxTokens: number): Promise<string> {
+    const client = this.plugin.llmClient;
+    if (!client) {
+      throw new Error('No LLM client');
+    }
+
+    const budget = ContextBudget.forPlugin(this.plugin, maxTokens);
+    budget.reserve('system', SUMMARY_SYSTEM_PROMPT);
+    const prompt = `Summary so far:\n${budget.fit('history', summary, 'summary')}
+
+Shorten the summary to at most ${Math.floor(maxTokens * 0.75)} words.`;
+
+    const text = (await client.chat([
+      { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+      { role: 'user', content: prompt },
+    ])).trim();
+    if (!text) {
+      throw new Error('The model returned an empty summary');
+    }
+    return text;
+  }
+
+  /**
+   * Add conversations read from an export. Ones whose id is already in the
+   * history are skipped, so importing a file again only adds what is new.
+   */
+  async importConversations(conversations: Conversation[]): Promise<{ added: number; skipped: number }> {
+    const ids = new Set(this.history.conversations.map((c) => c.id));
+    let added = 0;
+    for (const conversation of conversations) {
+      if (ids.has(conversation.id)) continue;
+
+      ids.add(conversation.id);
+      this.history.conversations.push(conversation);
+      added++;
+    }
+
+    if (added > 0) {
+      await this.save();
+      this.notifyChange();
+    }
+    return { added, skipped: conversations.length - added };
+  }
+
+  async deleteConversation(id: string): Promise<void> {
+    const index = this.history.conversations.findIndex((c) => c.id === id);
+    if (index === -1) return;
+
+    this.removeConversation(index);
     await this.save();
   }
 
@@ -184,6 +578,102 @@ export class ChatHistoryManager {
     await this.save();
   }
 
+  private removeConversation(index: number): void {
+    const [removed] = this.history.conversations.splice(index, 1);
+
+    // If we deleted the active conversation, clear the active ID
+    if (this.history.activeConversationId === removed.id) {
+      // Set to the most recent conversation, or null if none left
+      const remaining = this.getConversations();
+      this.history.activeConversationId = remaining.length > 0 ? remaining[0].id : null;
+    }
+  }
+
+  private async writeData(): Promise<void> {
+    const history: ChatHistory = this.store
+      ? { conversations: [], activeConversationId: this.history.activeConversationId }
+      : this.history;
+    const data = (await this.plugin.loadData()) || {};
+    data[CHAT_HISTORY_KEY] = history;
+    await this.plugin.saveData(data);
+    this.savedActiveConversationId = history.activeConversationId;
+  }
+
+  // One write at a time, each with the latest conversations
+  private writeNotes(): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      if (this.store) {
+        await this.store.write(this.history.conversations);
+      }
+    });
+    return this.writing;
+  }
+
+  /**
+   * Read the chat notes and follow edits to them. Conversations still in
+   * data.json get notes, unless a note has a newer copy.
+   */
+  private async openStore(): Promise<void> {
+    const store = new ConversationNoteStore(this.plugin, this.plugin.settings.chatHistoryFolder, {
+      onChanged: (conversation) => this.applyNoteChange(conversation),
+      onRenamed: (id, title) => {
+        const conversation = this.getConversation(id);
+        if (conversation) {
+          conversation.title = title;
+          this.notifyChange();
+        }
+      },
+      onDeleted: (id) => {
+        const index = this.history.conversations.findIndex((c) => c.id === id);
+        if (index !== -1) {
+          this.removeConversation(index);
+          this.notifyChange();
+        }
+      },
+    });
+
+    try {
+      const fromNotes = await store.load();
+      const byId = new Map(fromNotes.map((c) => [c.id, c]));
+      for (const conversation of this.history.conversations) {
+        const note = byId.get(conversation.id);
+        if (!note || note.updatedAt < conversation.updatedAt) {
+          byId.set(conversation.id, conversation);
+        }
+      }
+      this.history.conversations = Array.from(byId.values());
+
+      this.store = store;
+      store.start();
+      await this.writeNotes();
+      await this.writeData();
+      console.log(`[Vault AI] Loaded ${fromNotes.length} conversation(s) from ${store.getFolder()}`);
+    } catch (error) {
+      console.error('[Vault AI] Failed to load chat notes:', error);
+    }
+    this.notifyChange();
+  }
+
+  private applyNoteChange(conversation: Conversation): void {
+    const index = this.history.conversations.findIndex((c) => c.id === conversation.id);
+    if (index === -1) {
+      this.history.conversations.push(conversation);
+    } else {
+      // LM Studio's stored response chain still holds the messages as they were
+      const previous = this.history.conversations[index];
+      if (!sameMessages(previous.messages, conversation.messages)) {
+        conversation.lmStudioResponseId = undefined;
+        conversation.lmStudioResponseModel = undefined;
+      }
+      this.history.conversations[index] = conversation;
+    }
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach((listener) => listener());
+  }
+
   private generateId(): string {
     return `conv-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
   }
@@ -198,3 +688,24 @@ export class ChatHistoryManager {
     return cleaned.substring(0, maxLength).trim() + '...';
   }
 }
+
+function sameMessages(a: ChatMessage[], b: ChatMessage[]): boolean {
+  return a.length === b.length && a.every((message, i) => message.role === b[i].role && message.content === b[i].content);
+}
+
+// Branches of the versions from message index on are kept on the message before, or on the conversation
+function getBranchHolder(conversation: Conversation, index: number): MessageBranches | undefined {
+  return index === 0 ? conversation : conversation.messages[index - 1];
+}
+
+/**
+ * Every version from a branch point on, in order, with the one shown put back
+ * at its place. An empty version (nothing shown yet) is left out.
+ */
+function getVersions(holder: MessageBranches, shown: ChatMessage[]): ChatMessage[][] {
+  const versions = [...(holder.branches || [])];
+  if (shown.length > 0) {
+    versions.splice(Math.min(holder.branchIndex || 0, versions.length), 0, shown);
+  }
+  return versions;
+}
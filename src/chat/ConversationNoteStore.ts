@@ -0,0 +1,270 @@
+import { EventRef, Events, TAbstractFile, TFile, normalizePath } from 'obsidian';
+import type VaultAIPlugin from '../main';
+import { Conversation } from '../types';
+import { ensureFolder } from '../tools/helpers';
+import { conversationToMarkdown, getConversationFileName, parseConversationNote } from './conversationMarkdown';
+
+// Recent contents remembered per note; the metadata cache can report a write after the next one was made
+const REMEMBERED_CONTENTS = 3;
+
+/**
+ * What the store reports when chat notes are edited, renamed or deleted outside
+ * the plugin
+ */
+export interface ConversationNoteHandlers {
+  onChanged(conversation: Conversation): void;
+  onRenamed(id: string, title: string): void;
+  onDeleted(id: string): void;
+}
+
+/**
+ * Keeps each conversation as a markdown note in a vault folder (see
+ * conversationMarkdown.ts) and follows edits made to those notes.
+ */
+export class ConversationNoteStore {
+  private plugin: VaultAIPlugin;
+  private folder: string;
+  private handlers: ConversationNoteHandlers;
+  // Conversation id → note path
+  private paths = new Map<string, string>();
+  // Note path → contents last written or read, newest last; a change to one of them is our own write
+  private contents = new Map<string, string[]>();
+  private eventRefs: { events: Events; ref: EventRef }[] = [];
+
+  constructor(plugin: VaultAIPlugin, folder: string, handlers: ConversationNoteHandlers) {
+    this.plugin = plugin;
+    this.folder = normalizePath(folder);
+    this.handlers = handlers;
+  }
+
+  getFolder(): string {
+    return this.folder;
+  }
+
+  /**
+   * Read every chat note in the folder. Call once the workspace layout is ready.
+   */
+  async load(): Promise<Conversation[]> {
+    const conversations: Conversation[] = [];
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+      if (!this.isInFolder(file.path)) continue;
+
+      const content = await this.plugin.app.vault.cachedRead(file);
+      const conversation = this.read(file, content);
+      if (conversation) {
+        conversations.push(conversation);
+      }
+    }
+    return conversations;
+  }
+
+  /**
+   * Follow edits, renames and deletions of chat notes
+   */
+  start(): void {
+    const { metadataCache, vault } = this.plugin.app;
+    this.listen(metadataCache, metadataCache.on('changed', (file, content) => this.onNoteChanged(file, content)));
+    this.listen(metadataCache, metadataCache.on('deleted', (file) => this.onNoteDeleted(file.path)));
+    this.listen(vault, vault.on('rename', (file, oldPath) => this.onNoteRenamed(file, oldPath)));
+  }
+
+  stop(): void {
+    for (const { events, ref } of this.eventRefs) {
+      events.offref(ref);
+    }
+    this.eventRefs = [];
+  }
+
+  /**
+   * Bring the notes in line with the conversations: write the ones that changed,
+   * rename notes whose title changed and move notes of deleted conversations to
+   * the trash.
+   */
+  async write(conversations: Conversation[]): Promise<void> {
+    const ids = new Set(conversations.map((c) => c.id));
+    for (const [id, path] of Array.from(this.paths)) {
+      if (ids.has(id)) continue;
+
+      this.forget(id);
+      const file = this.plugin.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        await this.plugin.app.vault.trash(file, true);
+      }
+    }
+
+    for (const conversation of conversations) {
+      // Empty conversations get a note once they have a message
+      if (conversation.messages.length === 0 && !this.paths.has(conversation.id)) continue;
+      try {
+        await this.writeConversation(conversation);
+      } catch (error) {
+        console.error(`[Vault AI] Failed to save conversation "${conversation.title}" as a note:`, error);
+      }
+    }
+  }
+
+  /**
+   * Move every chat note into another folder
+   */
+  async moveTo(folder: string): Promise<void> {
+    const target = normalizePath(folder);
+    if (target === this.folder) return;
+
+    await ensureFolder(this.plugin.app, target);
+    this.folder = target;
+    for (const [id, path] of Array.from(this.paths)) {
+      const file = this.plugin.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) {
+        this.forget(id);
+        continue;
+      }
+      await this.renameNote(id, file, this.getAvailablePath(file.basename));
+    }
+  }
+
+  private async writeConversation(conversation: Conversation): Promise<void> {
+    const vault = this.plugin.app.vault;
+    const content = conversationToMarkdown(conversation);
+    const name = getConversationFileName(conversation.title);
+    const path = this.paths.get(conversation.id);
+    const file = path ? vault.getAbstractFileByPath(path) : null;
+
+    if (!(file instanceof TFile)) {
+      await ensureFolder(this.plugin.app, this.folder);
+      const newPath = this.getAvailablePath(name);
+      this.paths.set(conversation.id, newPath);
+      this.remember(newPath, content);
+      await vault.create(newPath, content);
+      return;
+    }
+
+    if (!this.hasName(file, name)) {
+      await this.renameNote(conversation.id, file, this.getAvailablePath(name));
+    }
+    if (this.getLastContent(file.path) !== content) {
+      this.remember(file.path, content);
+      await vault.modify(file, content);
+    }
+  }
+
+  // Maps are updated first so the rename event is recognized as our own
+  private async renameNote(id: string, file: TFile, newPath: string): Promise<void> {
+    this.moveContents(file.path, newPath);
+    this.paths.set(id, newPath);
+    await this.plugin.app.vault.rename(file, newPath);
+  }
+
+  private read(file: TFile, content: string): Conversation | null {
+    const conversation = parseConversationNote(content, file.basename, file.stat);
+    if (!conversation) {
+      return null;
+    }
+
+    // A copied note carries the id of the conversation it was copied from
+    const existing = this.paths.get(conversation.id);
+    if (existing && existing !== file.path && this.plugin.app.vault.getAbstractFileByPath(existing)) {
+      console.warn(`[Vault AI] Ignoring chat note ${file.path}: it has the same id as ${existing}`);
+      return null;
+    }
+
+    this.paths.set(conversation.id, file.path);
+    this.remember(file.path, content);
+    return conversation;
+  }
+
+  private onNoteChanged(file: TFile, content: string): void {
+    if (!this.isInFolder(file.path) || this.contents.get(file.path)?.includes(content)) return;
+
+    const conversation = this.read(file, content);
+    if (conversation) {
+      this.handlers.onChanged(conversation);
+    }
+  }
+
+  private onNoteDeleted(path: string): void {
+    const id = this.getIdForPath(path);
+    if (id) {
+      this.forget(id);
+      this.handlers.onDeleted(id);
+    }
+  }
+
+  private async onNoteRenamed(file: TAbstractFile, oldPath: string): Promise<void> {
+    if (!(file instanceof TFile)) return;
+
+    const id = this.getIdForPath(oldPath);
+    if (!id) {
+      // A note moved into the folder
+      if (this.isInFolder(file.path) && file.extension === 'md') {
+        this.onNoteChanged(file, await this.plugin.app.vault.cachedRead(file));
+      }
+      return;
+    }
+
+    if (!this.isInFolder(file.path)) {
+      this.onNoteDeleted(oldPath);
+      return;
+    }
+
+    this.moveContents(oldPath, file.path);
+    this.paths.set(id, file.path);
+    this.handlers.onRenamed(id, file.basename);
+  }
+
+  private listen(events: Events, ref: EventRef): void {
+    this.eventRefs.push({ events, ref });
+    this.plugin.registerEvent(ref);
+  }
+
+  private remember(path: string, content: string): void {
+    const contents = this.contents.get(path) || [];
+    contents.push(content);
+    this.contents.set(path, contents.slice(-REMEMBERED_CONTENTS));
+  }
+
+  private getLastContent(path: string): string | undefined {
+    const contents = this.contents.get(path);
+    return contents?.[contents.length - 1];
+  }
+
+  private moveContents(oldPath: string, newPath: string): void {
+    const contents = this.contents.get(oldPath);
+    this.contents.delete(oldPath);
+    if (contents) {
+      this.contents.set(newPath, contents);
+    }
+  }
+
+  private forget(id: string): void {
+    const path = this.paths.get(id);
+    if (path) {
+      this.contents.delete(path);
+    }
+    this.paths.delete(id);
+  }
+
+  private getIdForPath(path: string): string | undefined {
+    for (const [id, notePath] of this.paths) {
+      if (notePath === path) return id;
+    }
+    return undefined;
+  }
+
+  private isInFolder(path: string): boolean {
+    return path.endsWith('.md') && (this.folder === '/' || path.startsWith(`${this.folder}/`));
+  }
+
+  // "Title.md", or "Title 2.md" when the title is taken; keeps the number once given
+  private hasName(file: TFile, name: string): boolean {
+    return file.basename === name || (file.basename.startsWith(`${name} `) && /^\d+$/.test(file.basename.slice(name.length + 1)));
+  }
+
+  private getAvailablePath(name: string): string {
+    const prefix = this.folder === '/' ? '' : `${this.folder}/`;
+    let path = `${prefix}${name}.md`;
+    for (let n = 2; this.plugin.app.vault.getAbstractFileByPath(path); n++) {
+      path = `${prefix}${name} ${n}.md`;
+    }
+    return path;
+  }
+}
@@ -0,0 +1,228 @@
+import { stringifyYaml } from 'obsidian';
+import { CONTEXT_SCOPE_LABELS, ChatMessage, Conversation, ToolCallInfo } from '../types';
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown note',
+  json: 'JSON (can be imported again)',
+  html: 'HTML page',
+};
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+};
+
+// Marks a JSON export so it can be recognized when imported
+export const EXPORT_JSON_FORMAT = 'vault-ai-conversations';
+export const EXPORT_JSON_VERSION = 1;
+
+/**
+ * The JSON export: conversations exactly as they are stored
+ */
+export interface ConversationExport {
+  format: typeof EXPORT_JSON_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversations: Conversation[];
+}
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: 'You',
+  assistant: 'Assistant',
+  system: 'System',
+};
+
+/**
+ * A copy of a conversation with only some of its messages. Other versions and
+ * the running summary refer to the full conversation, so they are left out.
+ */
+export function selectMessages(conversation: Conversation, indices: number[]): Conversation {
+  const selected = new Set(indices);
+  const { branches, branchIndex, summary, ...rest } = conversation;
+  return {
+    ...rest,
+    messages: conversation.messages
+      .filter((_, index) => selected.has(index))
+      .map(({ branches, branchIndex, ...message }) => message),
+  };
+}
+
+export function exportToJson(conversations: Conversation[]): string {
+  const data: ConversationExport = {
+    format: EXPORT_JSON_FORMAT,
+    version: EXPORT_JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * A readable note: one section per message, with thinking and tool calls as
+ * folded callouts
+ */
+export function exportToMarkdown(conversation: Conversation): string {
+  const lines: string[] = [
+    '---',
+    stringifyYaml(getProperties(conversation)).trimEnd(),
+    '---',
+    '',
+    `# ${conversation.title}`,
+  ];
+
+  for (const message of conversation.messages) {
+    lines.push('', `## ${ROLE_LABELS[message.role]} · ${formatDate(message.timestamp)}`, '');
+
+    if (message.reasoning) {
+      lines.push(callout('abstract', 'Thinking', message.reasoning), '');
+    }
+    for (const call of getToolCalls(message)) {
+      lines.push(callout('example', `Tool call: ${call.tool} (${call.status})`, formatToolCall(call)), '');
+    }
+
+    lines.push(message.content);
+
+    if (message.sources && message.sources.length > 0) {
+      const links = message.sources.map((source) => `[[${source.replace(/\.md$/, '')}]]`);
+      lines.push('', `**Sources:** ${links.join(', ')}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * A standalone page. renderMarkdown turns message text into HTML.
+ */
+export async function exportToHtml(
+  conversation: Conversation,
+  renderMarkdown: (markdown: string) => Promise<string>
+): Promise<string> {
+  const sections: string[] = [];
+
+  for (const message of conversation.messages) {
+    const parts = [
+      `<header><span class="role">${ROLE_LABELS[message.role]}</span><time>${escapeHtml(formatDate(message.timestamp))}</time></header>`,
+    ];
+
+    if (message.reasoning) {
+      parts.push(`<details><summary>Thinking</summary><div class="reasoning">${await renderMarkdown(message.reasoning)}</div></details>`);
+    }
+    for (const call of getToolCalls(message)) {
+      parts.push(`<details class="tool-call"><summary>Tool call: ${escapeHtml(call.tool)} (${call.status})</summary>`
+        + `<pre>${escapeHtml(JSON.stringify(call.arguments, null, 2))}</pre>`
+        + (call.result || call.error ? `<pre>${escapeHtml(call.error || call.result || '')}</pre>` : '')
+        + '</details>');
+    }
+
+    parts.push(`<div class="content">${await renderMarkdown(message.content)}</div>`);
+
+    if (message.sources && message.sources.length > 0) {
+      const items = message.sources.map((source) => `<li>${escapeHtml(source)}</li>`).join('');
+      parts.push(`<div class="sources"><strong>Sources</strong><ul>${items}</ul></div>`);
+    }
+
+    sections.push(`<section class="message ${message.role}">\n${parts.join('\n')}\n</section>`);
+  }
+
+  const properties = getProperties(conversation);
+  const meta = [properties.scope, properties.model, formatDate(conversation.createdAt)].filter(Boolean).map((text) => escapeHtml(String(text)));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">${meta.join(' · ')}</p>
+${sections.join('\n')}
+</main>
+</body>
+</html>
+`;
+}
+
+function getProperties(conversation: Conversation): Record<string, string> {
+  const properties: Record<string, string> = {
+    title: conversation.title,
+    scope: CONTEXT_SCOPE_LABELS[conversation.contextScope] || conversation.contextScope,
+  };
+  if (conversation.model) {
+    properties.model = conversation.model;
+  }
+  properties.created = new Date(conversation.createdAt).toISOString();
+  properties.updated = new Date(conversation.updatedAt).toISOString();
+  return properties;
+}
+
+// Tool calls of LM Studio answers and of the in-process agent, in one shape
+function getToolCalls(message: ChatMessage): ToolCallInfo[] {
+  const calls = [...(message.toolCalls || [])];
+  for (const step of message.agentSteps || []) {
+    if (!step.toolCall) continue;
+    calls.push({
+      tool: step.toolCall.tool,
+      arguments: step.toolCall.params,
+      status: !step.toolResult ? 'pending' : step.toolResult.success ? 'success' : 'failure',
+      result: step.toolResult?.result,
+    });
+  }
+  return calls;
+}
+
+function formatToolCall(call: ToolCallInfo): string {
+  const parts = ['**Arguments**', '```json', JSON.stringify(call.arguments, null, 2), '```'];
+  if (call.error) {
+    parts.push('**Error**', '```', call.error, '```');
+  } else if (call.result) {
+    parts.push('**Result**', '```', call.result, '```');
+  }
+  return parts.join('\n');
+}
+
+function callout(type: string, title: string, body: string): string {
+  return [`> [!${type}]- ${title}`, ...body.split('\n').map((line) => (line ? `> ${line}` : '>'))].join('\n');
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const HTML_STYLES = `
+body { margin: 0; background: #f6f6f8; color: #222; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+main { max-width: 760px; margin: 0 auto; padding: 32px 16px; }
+h1 { margin-bottom: 4px; }
+.meta { color: #777; margin-top: 0; }
+.message { background: #fff; border-radius: 10px; padding: 12px 16px; margin: 16px 0; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.08); }
+.message.user { background: #eef3ff; }
+.message header { display: flex; justify-content: space-between; font-size: 12px; color: #777; margin-bottom: 8px; }
+.message .role { font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; }
+details { margin: 8px 0; padding: 6px 10px; background: #f3f3f5; border-radius: 6px; font-size: 13px; }
+summary { cursor: pointer; color: #555; }
+pre { white-space: pre-wrap; word-break: break-word; background: #f3f3f5; padding: 8px; border-radius: 6px; font-size: 13px; }
+code { font-size: 13px; }
+.sources { font-size: 13px; color: #555; }
+@media (prefers-color-scheme: dark) {
+  body { background: #1e1e1e; color: #ddd; }
+  .message { background: #2a2a2a; box-shadow: none; }
+  .message.user { background: #28324a; }
+  details, pre { background: #333; }
+  summary, .sources, .meta, .message header { color: #aaa; }
+}
+`;
@@ -0,0 +1,398 @@
+import { CONTEXT_SCOPE_LABELS, ChatMessage, Conversation, MessageBranches, MessageRole } from '../types';
+import { EXPORT_JSON_FORMAT, EXPORT_JSON_VERSION } from './conversationExport';
+
+export type ImportSource = 'vault-ai' | 'chatgpt' | 'claude' | 'generic';
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  'vault-ai': 'Vault AI',
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+  generic: 'chat',
+};
+
+export interface ParsedImport {
+  source: ImportSource;
+  conversations: Conversation[];
+}
+
+// ChatGPT export: conversations.json holds a tree of messages per conversation
+interface ChatGPTNode {
+  message?: {
+    author?: { role?: string };
+    content?: { content_type?: string; parts?: unknown[]; text?: string };
+    create_time?: number | null;
+    recipient?: string;
+    metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+  } | null;
+  parent?: string | null;
+  children?: string[];
+}
+
+interface ChatGPTConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string;
+  create_time?: number;
+  update_time?: number;
+  mapping: Record<string, ChatGPTNode>;
+  current_node?: string;
+}
+
+// Claude export: conversations.json holds a list of messages per conversation
+interface ClaudeConversation {
+  uuid: string;
+  name?: string;
+  created_at?: string;
+  updated_at?: string;
+  chat_messages: {
+    sender?: string;
+    text?: string;
+    content?: { type?: string; text?: string }[];
+    created_at?: string;
+  }[];
+}
+
+// Anything shaped like an OpenAI chat request, with a title and times or not
+interface GenericConversation {
+  id?: unknown;
+  title?: unknown;
+  name?: unknown;
+  created_at?: unknown;
+  create_time?: unknown;
+  createdAt?: unknown;
+  messages: Record<string, unknown>[];
+}
+
+const ROLE_ALIASES: Record<string, MessageRole> = {
+  user: 'user',
+  human: 'user',
+  assistant: 'assistant',
+  ai: 'assistant',
+  bot: 'assistant',
+  model: 'assistant',
+};
+
+const STORED_ROLES: MessageRole[] = ['user', 'assistant', 'system'];
+
+// Times before this are in seconds rather than milliseconds (some day in 2001)
+const SECONDS_LIMIT = 1e12;
+
+/**
+ * Read conversations from an export file: our own JSON export, ChatGPT's or
+ * Claude's conversations.json, or a list of conversations with OpenAI-style
+ * messages. Only user and assistant messages are kept. Imported conversations
+ * get ids derived from the source, so importing the same file twice can be
+ * recognized.
+ */
+export function parseConversationImport(text: string): ParsedImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error('the file is not JSON');
+  }
+
+  let parsed: ParsedImport;
+  if (isRecord(data) && data.format === EXPORT_JSON_FORMAT) {
+    if (typeof data.version !== 'number' || data.version > EXPORT_JSON_VERSION) {
+      throw new Error('the export is from a newer version of Vault AI');
+    }
+    parsed = { source: 'vault-ai', conversations: readVaultAIExport(data.conversations) };
+  } else {
+    parsed = readOtherExport(data);
+  }
+
+  parsed.conversations = parsed.conversations.filter((conversation) => conversation.messages.length > 0);
+  for (const conversation of parsed.conversations) {
+    fillTimestamps(conversation.messages, conversation.createdAt);
+    conversation.branches?.forEach((branch) => fillTimestamps(branch, conversation.createdAt));
+  }
+  return parsed;
+}
+
+function readOtherExport(data: unknown): ParsedImport {
+  const items = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.conversations) ? data.conversations : [data];
+  const first = items.find(isRecord);
+  if (!first) {
+    throw new Error('no conversations found');
+  }
+
+  if (isRecord(first.mapping)) {
+    return { source: 'chatgpt', conversations: items.filter(isChatGPTConversation).map(fromChatGPT) };
+  }
+  if (Array.isArray(first.chat_messages)) {
+    return { source: 'claude', conversations: items.filter(isClaudeConversation).map(fromClaude) };
+  }
+  if (Array.isArray(first.messages)) {
+    return { source: 'generic', conversations: items.filter(isGenericConversation).map(fromGeneric) };
+  }
+  throw new Error('the file is not a known chat export');
+}
+
+function readVaultAIExport(conversations: unknown): Conversation[] {
+  if (!Array.isArray(conversations)) {
+    throw new Error('the export has no conversations');
+  }
+
+  return conversations
+    .filter((c): c is Conversation => isRecord(c) && typeof c.id === 'string' && Array.isArray(c.messages))
+    .map((conversation) => {
+      // A response chain of another LM Studio server cannot be continued here
+      const { lmStudioResponseId, lmStudioResponseModel, ...rest } = conversation;
+      const imported: Conversation = {
+        ...rest,
+        title: typeof rest.title === 'string' ? rest.title : 'Untitled',
+        messages: readStoredMessages(rest.messages),
+        contextScope: rest.contextScope in CONTEXT_SCOPE_LABELS ? rest.contextScope : 'vault',
+        createdAt: typeof rest.createdAt === 'number' ? rest.createdAt : Date.now(),
+        updatedAt: typeof rest.updatedAt === 'number' ? rest.updatedAt : Date.now(),
+      };
+      readStoredBranches(imported);
+      // The summary covers messages that may have been dropped
+      if (imported.messages.length !== rest.messages.length) {
+        delete imported.summary;
+      }
+      return imported;
+    });
+}
+
+/**
+ * Messages of a Vault AI export. A hand-edited or damaged file may hold
+ * messages the chat view cannot show; those are dropped.
+ */
+function readStoredMessages(messages: unknown[]): ChatMessage[] {
+  const valid = messages.filter((message): message is ChatMessage =>
+    isRecord(message) && STORED_ROLES.includes(message.role as MessageRole) && typeof message.content === 'string');
+  for (const message of valid) {
+    if (typeof message.timestamp !== 'number') {
+      message.timestamp = 0;
+    }
+    readStoredBranches(message);
+  }
+  return valid;
+}
+
+// Other versions are checked like the messages; a version left empty is dropped
+function readStoredBranches(holder: MessageBranches): void {
+  const branches = Array.isArray(holder.branches)
+    ? holder.branches.filter(Array.isArray).map(readStoredMessages).filter((branch) => branch.length > 0)
+    : [];
+  if (branches.length > 0) {
+    holder.branches = branches;
+    holder.branchIndex = typeof holder.branchIndex === 'number' ? Math.min(holder.branchIndex, branches.length) : undefined;
+  } else {
+    delete holder.branches;
+    delete holder.branchIndex;
+  }
+}
+
+/**
+ * The branch shown in ChatGPT becomes the messages; regenerated replies and
+ * edited messages become other versions of the conversation
+ */
+function fromChatGPT(data: ChatGPTConversation): Conversation {
+  const createdAt = toTime(data.create_time) ?? Date.now();
+  const conversation: Conversation = {
+    id: `chatgpt-${data.conversation_id || data.id || hashString(`${data.title}:${createdAt}`)}`,
+    title: data.title?.trim() || 'Untitled',
+    messages: [],
+    contextScope: 'vault',
+    createdAt,
+    updatedAt: toTime(data.update_time) ?? createdAt,
+  };
+
+  // Nodes on the path to the current node are the ones shown
+  const shown = new Set<string>();
+  for (let id = data.current_node; id && data.mapping[id] && !shown.has(id); id = data.mapping[id].parent || undefined) {
+    shown.add(id);
+  }
+  const root = Object.keys(data.mapping).find((id) => {
+    const parent = data.mapping[id].parent;
+    return !parent || !data.mapping[parent];
+  });
+
+  if (root) {
+    conversation.messages = readChatGPTBranch(data.mapping, root, shown, conversation, new Set());
+  }
+  const model = findChatGPTModel(data.mapping, shown);
+  if (model) {
+    conversation.model = model;
+  }
+  return conversation;
+}
+
+/**
+ * Messages from a node down, following shown nodes and otherwise the latest
+ * child. Versions before the first message are kept on first, if given.
+ */
+function readChatGPTBranch(
+  mapping: Record<string, ChatGPTNode>,
+  start: string,
+  shown: Set<string>,
+  first: MessageBranches | null,
+  visited: Set<string>
+): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  for (let id: string | undefined = start; id && mapping[id] && !visited.has(id);) {
+    visited.add(id);
+    const node: ChatGPTNode = mapping[id];
+    const message = fromChatGPTNode(node);
+    if (message) {
+      messages.push(message);
+    }
+
+    const children = (node.children || []).filter((child) => mapping[child] && !visited.has(child));
+    const next = children.find((child) => shown.has(child)) ?? children[children.length - 1];
+    const holder = messages.length > 0 ? messages[messages.length - 1] : first;
+    if (children.length > 1 && holder && !holder.branches) {
+      const versions = children.map((child) => (child === next ? null : readChatGPTBranch(mapping, child, shown, null, visited)));
+      const others = versions.filter((version): version is ChatMessage[] => version !== null && version.length > 0);
+      if (others.length > 0) {
+        holder.branches = others;
+        holder.branchIndex = versions.slice(0, versions.indexOf(null)).filter((version) => version && version.length > 0).length;
+      }
+    }
+    id = next;
+  }
+  return messages;
+}
+
+function fromChatGPTNode(node: ChatGPTNode): ChatMessage | null {
+  const message = node.message;
+  const role = ROLE_ALIASES[message?.author?.role || ''];
+  // Tool calls, their results, system prompts and hidden context are left out
+  if (!message || !role || (message.recipient && message.recipient !== 'all') || message.metadata?.is_visually_hidden_from_conversation) {
+    return null;
+  }
+
+  const content = message.content;
+  if (content?.content_type !== 'text' && content?.content_type !== 'multimodal_text') {
+    return null;
+  }
+  const text = (content.parts || []).filter((part): part is string => typeof part === 'string').join('\n\n').trim();
+  if (!text) {
+    return null;
+  }
+
+  return { role, content: text, timestamp: toTime(message.create_time) ?? 0 };
+}
+
+// Model of the latest answer shown
+function findChatGPTModel(mapping: Record<string, ChatGPTNode>, shown: Set<string>): string | undefined {
+  let latest: { model: string; time: number } | undefined;
+  for (const id of shown) {
+    const message = mapping[id].message;
+    const time = toTime(message?.create_time) ?? 0;
+    if (message?.metadata?.model_slug && (!latest || time >= latest.time)) {
+      latest = { model: message.metadata.model_slug, time };
+    }
+  }
+  return latest?.model;
+}
+
+function fromClaude(data: ClaudeConversation): Conversation {
+  const messages: ChatMessage[] = [];
+  for (const item of data.chat_messages) {
+    const role = ROLE_ALIASES[item.sender || ''];
+    const text = (item.text || (item.content || [])
+      .filter((part) => part.type === 'text' && typeof part.text === 'string')
+      .map((part) => part.text)
+      .join('\n\n')).trim();
+    if (role && text) {
+      messages.push({ role, content: text, timestamp: toTime(item.created_at) ?? 0 });
+    }
+  }
+
+  const createdAt = toTime(data.created_at) ?? messages[0]?.timestamp ?? Date.now();
+  return {
+    id: `claude-${data.uuid}`,
+    title: data.name?.trim() || 'Untitled',
+    messages,
+    contextScope: 'vault',
+    createdAt,
+    updatedAt: toTime(data.updated_at) ?? createdAt,
+  };
+}
+
+function fromGeneric(data: GenericConversation): Conversation {
+  const messages: ChatMessage[] = [];
+  for (const item of data.messages) {
+    const role = ROLE_ALIASES[String(item.role ?? item.sender ?? item.author ?? '').toLowerCase()];
+    const text = readText(item.content ?? item.text).trim();
+    if (role && text) {
+      messages.push({ role, content: text, timestamp: toTime(item.timestamp ?? item.created_at ?? item.create_time) ?? 0 });
+    }
+  }
+
+  const createdAt = toTime(data.createdAt ?? data.created_at ?? data.create_time) ?? messages.find((m) => m.timestamp)?.timestamp ?? Date.now();
+  const title = typeof data.title === 'string' ? data.title : typeof data.name === 'string' ? data.name : '';
+  const key = typeof data.id === 'string' || typeof data.id === 'number'
+    ? String(data.id)
+    : hashString(`${title}:${createdAt}:${messages[0]?.content ?? ''}`);
+  return {
+    id: `import-${key}`,
+    title: title.trim() || messages.find((m) => m.role === 'user')?.content.replace(/\s+/g, ' ').slice(0, 50) || 'Untitled',
+    messages,
+    contextScope: 'vault',
+    createdAt,
+    updatedAt: Math.max(createdAt, ...messages.map((m) => m.timestamp)),
+  };
+}
+
+// Messages without a time get the time of the one before, the first the conversation's
+function fillTimestamps(messages: ChatMessage[], start: number): void {
+  let time = start;
+  for (const message of messages) {
+    message.timestamp = message.timestamp || time;
+    time = message.timestamp;
+    message.branches?.forEach((branch) => fillTimestamps(branch, time));
+  }
+}
+
+// Message content as a string, or as a list of parts as in OpenAI's API
+function readText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map((part) => (isRecord(part) ? readText(part.text) : readText(part))).filter((text) => text).join('\n\n');
+  }
+  return '';
+}
+
+// Seconds, milliseconds or a date string, as milliseconds
+function toTime(value: unknown): number | undefined {
+  if (typeof value === 'number' && isFinite(value) && value > 0) {
+    return value < SECONDS_LIMIT ? Math.round(value * 1000) : value;
+  }
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+// Short stable id for conversations the export gives none
+function hashString(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isChatGPTConversation(value: unknown): value is ChatGPTConversation {
+  return isRecord(value) && isRecord(value.mapping);
+}
+
+function isClaudeConversation(value: unknown): value is ClaudeConversation {
+  return isRecord(value) && typeof value.uuid === 'string' && Array.isArray(value.chat_messages);
+}
+
+function isGenericConversation(value: unknown): value is GenericConversation {
+  return isRecord(value) && Array.isArray(value.messages) && value.messages.every(isRecord);
+}
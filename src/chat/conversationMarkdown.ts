@@ -0,0 +1,286 @@
+import { parseYaml, stringifyYaml } from 'obsidian';
+import { CONTEXT_SCOPE_LABELS, ChatMessage, ContextScope, Conversation, ConversationSummary, MessageRole } from '../types';
+
+/**
+ * Conversations as markdown notes:
+ *
+ *   ---
+ *   vault-ai-id: conv-1718000000000-abc1234
+ *   scope: vault
+ *   model: qwen3-8b
+ *   pinned: true
+ *   chat-folder: Work
+ *   created: 2024-06-10T08:00:00.000Z
+ *   updated: 2024-06-10T08:05:00.000Z
+ *   ---
+ *
+ *   > [!user] You · 2024-06-10 10:00
+ *   > What did we decide about the launch?
+ *   > %%vault-ai {"timestamp":1718006400000}%%
+ *
+ *   > [!assistant] Assistant · 2024-06-10 10:01
+ *   > It moved to June, see [[Projects/Launch]].
+ *   > %%vault-ai {"timestamp":1718006460000,"sources":["Projects/Launch.md"]}%%
+ *
+ * The note's name is the conversation title. Each message is a callout; the
+ * hidden %%vault-ai ...%% line keeps what the chat view shows besides the text
+ * (sources, search steps, tool calls, other versions of the replies). Other
+ * versions of the first message go in such a line above the callouts. A running
+ * summary is a folded [!summary] callout in front of the first message it does
+ * not cover.
+ */
+
+export const CONVERSATION_ID_KEY = 'vault-ai-id';
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const CALLOUT_PATTERN = /^>\s*\[!(user|assistant|system|summary)\][-+]?(?:\s.*)?$/i;
+const METADATA_PATTERN = /^%%vault-ai (.*)%%$/;
+// Characters not allowed in file names on some platforms, plus those that break links
+const UNSAFE_FILENAME_PATTERN = /[\\/:*?"<>|#^[\]]/g;
+
+const ROLE_LABELS: Record<MessageRole, string> = {
+  user: 'You',
+  assistant: 'Assistant',
+  system: 'System',
+};
+
+type MessageMetadata = Omit<ChatMessage, 'role' | 'content'>;
+
+/**
+ * Markdown note for a conversation; the title goes in the file name
+ */
+export function conversationToMarkdown(conversation: Conversation): string {
+  const frontmatter: Record<string, string | boolean> = {
+    [CONVERSATION_ID_KEY]: conversation.id,
+    scope: conversation.contextScope,
+  };
+  if (conversation.model) {
+    frontmatter.model = conversation.model;
+  }
+  if (conversation.pinned) {
+    frontmatter.pinned = true;
+  }
+  if (conversation.folder) {
+    frontmatter['chat-folder'] = conversation.folder;
+  }
+  frontmatter.created = new Date(conversation.createdAt).toISOString();
+  frontmatter.updated = new Date(conversation.updatedAt).toISOString();
+  if (conversation.lmStudioResponseId) {
+    frontmatter['lmstudio-response-id'] = conversation.lmStudioResponseId;
+    if (conversation.lmStudioResponseModel) {
+      frontmatter['lmstudio-response-model'] = conversation.lmStudioResponseModel;
+    }
+  }
+
+  const blocks: string[] = [];
+  if (conversation.branches) {
+    blocks.push(formatMetadata({ branches: conversation.branches, branchIndex: conversation.branchIndex }));
+  }
+  conversation.messages.forEach((message, index) => {
+    if (conversation.summary && conversation.summary.messageCount === index) {
+      blocks.push(summaryToCallout(conversation.summary));
+    }
+    blocks.push(messageToCallout(message));
+  });
+
+  return `---\n${stringifyYaml(frontmatter)}---\n\n${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Read a conversation back from its note. Returns null for notes without a
+ * conversation id. Text outside the callouts is ignored.
+ */
+export function parseConversationNote(
+  content: string,
+  title: string,
+  stat: { ctime: number; mtime: number }
+): Conversation | null {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  let frontmatter: Record<string, unknown>;
+  try {
+    frontmatter = parseYaml(match[1]) || {};
+  } catch (error) {
+    console.warn(`[Vault AI] Invalid frontmatter in chat note "${title}":`, error);
+    return null;
+  }
+
+  const id = frontmatter[CONVERSATION_ID_KEY];
+  if (typeof id !== 'string' || !id) {
+    return null;
+  }
+
+  const body = content.slice(match[0].length);
+  const messages: ChatMessage[] = [];
+  let summary: ConversationSummary | undefined;
+
+  for (const block of readCallouts(body)) {
+    const { lines, metadata } = splitMetadata(block.lines);
+    const text = trimBlankLines(lines).join('\n');
+
+    if (block.type === 'summary') {
+      if (text) {
+        summary = {
+          text,
+          messageCount: messages.length,
+          updatedAt: typeof metadata.updatedAt === 'number' ? metadata.updatedAt : stat.mtime,
+        };
+      }
+      continue;
+    }
+
+    messages.push({
+      ...(metadata as MessageMetadata),
+      role: block.type,
+      content: text,
+      timestamp: typeof metadata.timestamp === 'number' ? metadata.timestamp : stat.mtime,
+    });
+  }
+
+  const scope = frontmatter.scope;
+  const conversation: Conversation = {
+    id,
+    title,
+    messages,
+    contextScope: typeof scope === 'string' && scope in CONTEXT_SCOPE_LABELS ? scope as ContextScope : 'vault',
+    createdAt: toTime(frontmatter.created) ?? stat.ctime,
+    updatedAt: toTime(frontmatter.updated) ?? stat.mtime,
+  };
+  if (typeof frontmatter.model === 'string') {
+    conversation.model = frontmatter.model;
+  }
+  if (frontmatter.pinned === true) {
+    conversation.pinned = true;
+  }
+  if (typeof frontmatter['chat-folder'] === 'string' && frontmatter['chat-folder'].trim()) {
+    conversation.folder = frontmatter['chat-folder'].trim();
+  }
+  const branches = readLeadingMetadata(body);
+  if (Array.isArray(branches.branches)) {
+    conversation.branches = branches.branches;
+    conversation.branchIndex = typeof branches.branchIndex === 'number' ? branches.branchIndex : undefined;
+  }
+  if (typeof frontmatter['lmstudio-response-id'] === 'string') {
+    conversation.lmStudioResponseId = frontmatter['lmstudio-response-id'];
+    if (typeof frontmatter['lmstudio-response-model'] === 'string') {
+      conversation.lmStudioResponseModel = frontmatter['lmstudio-response-model'];
+    }
+  }
+  // A summary after the last message covers nothing that is still sent
+  if (summary && summary.messageCount > 0 && summary.messageCount < messages.length) {
+    conversation.summary = summary;
+  }
+  return conversation;
+}
+
+/**
+ * File name (without extension) for a conversation title
+ */
+export function getConversationFileName(title: string): string {
+  const name = title
+    .replace(UNSAFE_FILENAME_PATTERN, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^\.+/, '');
+  return name.slice(0, 100).trim() || 'Untitled';
+}
+
+function messageToCallout(message: ChatMessage): string {
+  const { role, content, ...metadata } = message;
+  const header = `[!${role}] ${ROLE_LABELS[role]} · ${formatDate(message.timestamp)}`;
+  return quote([header, ...content.split('\n'), formatMetadata(metadata)]);
+}
+
+function summaryToCallout(summary: ConversationSummary): string {
+  const header = '[!summary]- Summary of the earlier messages';
+  return quote([header, ...summary.text.split('\n'), formatMetadata({ updatedAt: summary.updatedAt })]);
+}
+
+function quote(lines: string[]): string {
+  return lines.map((line) => (line ? `> ${line}` : '>')).join('\n');
+}
+
+// JSON never contains % outside strings, so escaping it there keeps %% from ending the comment
+function formatMetadata(metadata: object): string {
+  return `%%vault-ai ${JSON.stringify(metadata).replace(/%/g, '\\u0025')}%%`;
+}
+
+function readCallouts(body: string): { type: MessageRole | 'summary'; lines: string[] }[] {
+  const blocks: { type: MessageRole | 'summary'; lines: string[] }[] = [];
+  let current: { type: MessageRole | 'summary'; lines: string[] } | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const callout = line.match(CALLOUT_PATTERN);
+    if (callout) {
+      current = { type: callout[1].toLowerCase() as MessageRole | 'summary', lines: [] };
+      blocks.push(current);
+    } else if (current && line.startsWith('>')) {
+      current.lines.push(line.replace(/^> ?/, ''));
+    } else {
+      current = null;
+    }
+  }
+
+  return blocks;
+}
+
+// The metadata line above the first callout, if any
+function readLeadingMetadata(body: string): Record<string, unknown> {
+  for (const line of body.split(/\r?\n/)) {
+    if (CALLOUT_PATTERN.test(line)) break;
+    if (METADATA_PATTERN.test(line.trim())) {
+      return splitMetadata([line]).metadata;
+    }
+  }
+  return {};
+}
+
+function splitMetadata(lines: string[]): { lines: string[]; metadata: Record<string, unknown> } {
+  const index = lines.length - 1 - [...lines].reverse().findIndex((line) => line.trim() !== '');
+  const match = index < lines.length ? lines[index].trim().match(METADATA_PATTERN) : null;
+  if (!match) {
+    return { lines, metadata: {} };
+  }
+
+  try {
+    const metadata = JSON.parse(match[1]);
+    if (metadata && typeof metadata === 'object') {
+      return { lines: lines.slice(0, index), metadata };
+    }
+  } catch (error) {
+    console.warn('[Vault AI] Ignoring unreadable message metadata in chat note:', error);
+  }
+  return { lines: lines.slice(0, index), metadata: {} };
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+}
+
+// YAML may give timestamps back as dates or strings
+function toTime(value: unknown): number | undefined {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+function formatDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,102 @@
+import { ContextScope, Conversation } from '../types';
+import { DateRange } from '../search/SearchQuery';
+
+/**
+ * What to look for in past conversations. Empty fields do not filter.
+ */
+export interface ConversationFilter {
+  // Words that must all appear in the title or one message, any case
+  query: string;
+  scope?: ContextScope;
+  model?: string;
+  // On the time of the last message
+  updated?: DateRange;
+  // Part of the path of a note the conversation cited, read or changed
+  note?: string;
+}
+
+export interface ConversationMatch {
+  conversation: Conversation;
+  // First message containing every word; undefined when only the title matched
+  messageIndex?: number;
+  // Text around the first match in that message
+  snippet?: string;
+}
+
+// Argument names of vault tools that hold a note path
+const PATH_ARGUMENTS = ['path', 'sourcePath', 'targetPath'];
+// Characters shown on each side of the first match in a snippet
+const SNIPPET_CONTEXT = 40;
+
+export function isFilterEmpty(filter: ConversationFilter): boolean {
+  return !filter.query.trim() && !filter.scope && !filter.model && !filter.updated && !filter.note?.trim();
+}
+
+/**
+ * Conversations matching a filter, most recently updated first
+ */
+export function searchConversations(conversations: Conversation[], filter: ConversationFilter): ConversationMatch[] {
+  const words = filter.query.toLowerCase().split(/\s+/).filter((word) => word);
+  const note = filter.note?.trim().toLowerCase();
+  const matches: ConversationMatch[] = [];
+
+  for (const conversation of conversations) {
+    if (filter.scope && conversation.contextScope !== filter.scope) continue;
+    if (filter.model && conversation.model !== filter.model) continue;
+    if (filter.updated && (conversation.updatedAt < filter.updated.start || conversation.updatedAt >= filter.updated.end)) continue;
+    if (note && !Array.from(getTouchedNotes(conversation)).some((path) => path.toLowerCase().includes(note))) continue;
+
+    if (words.length === 0) {
+      matches.push({ conversation });
+      continue;
+    }
+
+    const messageIndex = conversation.messages.findIndex((message) => containsAll(message.content, words));
+    if (messageIndex !== -1) {
+      matches.push({ conversation, messageIndex, snippet: getSnippet(conversation.messages[messageIndex].content, words) });
+    } else if (containsAll(conversation.title, words)) {
+      matches.push({ conversation });
+    }
+  }
+
+  return matches.sort((a, b) => b.conversation.updatedAt - a.conversation.updatedAt);
+}
+
+/**
+ * Paths of the notes a conversation's answers were based on or its tool calls
+ * read or changed
+ */
+export function getTouchedNotes(conversation: Conversation): Set<string> {
+  const paths = new Set<string>();
+  const addArguments = (tool: string, args: Record<string, unknown> | undefined) => {
+    if (!args) return;
+    for (const key of PATH_ARGUMENTS) {
+      if (typeof args[key] === 'string') paths.add(args[key] as string);
+    }
+    if (tool === 'create_note' && typeof args.name === 'string') {
+      paths.add(`${typeof args.folder === 'string' ? `${args.folder}/` : ''}${args.name}.md`);
+    }
+  };
+
+  for (const message of conversation.messages) {
+    message.sources?.forEach((source) => paths.add(source));
+    message.citations?.forEach((citation) => paths.add(citation.filePath));
+    message.toolCalls?.forEach((call) => addArguments(call.tool, call.arguments));
+    message.agentSteps?.forEach((step) => step.toolCall && addArguments(step.toolCall.tool, step.toolCall.params));
+  }
+  return paths;
+}
+
+function containsAll(text: string, words: string[]): boolean {
+  const lower = text.toLowerCase();
+  return words.every((word) => lower.includes(word));
+}
+
+function getSnippet(text: string, words: string[]): string {
+  const lower = text.toLowerCase();
+  const index = Math.min(...words.map((word) => lower.indexOf(word)));
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + words[0].length + SNIPPET_CONTEXT * 2);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
@@ -0,0 +1,231 @@
+import type VaultAIPlugin from '../main';
+import { BudgetBreakdown, BudgetSection, LLMMessage } from '../types';
+
+// Rough characters per token of English text for common tokenizer families,
+// matched against the model name. Older 32k-vocabulary tokenizers split finer.
+const CHARS_PER_TOKEN: [RegExp, number][] = [
+  [/llama-?2|mistral|mixtral|vicuna/i, 3.2],
+  [/llama|qwen|gpt|gemma|deepseek|phi|granite/i, 3.8],
+];
+// Unknown models are estimated on the high side
+const DEFAULT_CHARS_PER_TOKEN = 3.4;
+// Chinese, Japanese and Korean text is about one token per character
+const WIDE_CHAR_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]/g;
+// Role markers and separators around each chat message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Tokens kept free for the model's reply
+export const DEFAULT_OUTPUT_RESERVE = 1024;
+// Most of the context window earlier messages may take
+const HISTORY_SHARE = 0.25;
+
+const TRUNCATION_MARKER = '\n\n[... truncated to fit the context window]';
+
+export const BUDGET_SECTION_LABELS: Record<BudgetSection, string> = {
+  system: 'system prompt',
+  history: 'history',
+  context: 'notes and tool results',
+  input: 'message',
+  output: 'reply',
+};
+
+/**
+ * Estimate how many tokens a text takes for a model. This is a character-count
+ * heuristic, not the model's tokenizer, so budgets leave some slack.
+ */
+export function estimateTokens(text: string, model = ''): number {
+  if (!text) return 0;
+  const wide = text.match(WIDE_CHAR_PATTERN)?.length || 0;
+  return Math.ceil(wide + (text.length - wide) / getCharsPerToken(model));
+}
+
+/**
+ * Cut text to about maxTokens, at a line break where possible, marking the cut
+ */
+export function truncateToTokens(text: string, maxTokens: number, model = ''): string {
+  if (estimateTokens(text, model) <= maxTokens) {
+    return text;
+  }
+
+  const available = maxTokens - estimateTokens(TRUNCATION_MARKER, model);
+  if (available <= 0) {
+    return '';
+  }
+
+  let length = Math.min(text.length, Math.floor(available * getCharsPerToken(model)));
+  while (length > 0 && estimateTokens(text.slice(0, length), model) > available) {
+    length = Math.floor(length * 0.9);
+  }
+
+  let cut = text.slice(0, length);
+  const lineBreak = cut.lastIndexOf('\n');
+  if (lineBreak > length / 2) {
+    cut = cut.slice(0, lineBreak);
+  }
+  return cut.trimEnd() + TRUNCATION_MARKER;
+}
+
+/**
+ * One line describing where the context window went, for the chat UI
+ */
+export function formatBudgetBreakdown(breakdown: BudgetBreakdown): string {
+  const { sections, contextLength } = breakdown;
+  const used = (Object.keys(sections) as BudgetSection[])
+    .filter((section) => section !== 'output')
+    .reduce((total, section) => total + sections[section], 0);
+
+  const parts = (['system', 'history', 'context', 'input'] as BudgetSection[])
+    .filter((section) => sections[section] > 0)
+    .map((section) => `${BUDGET_SECTION_LABELS[section]} ${formatTokens(sections[section])}`);
+  parts.push(`${formatTokens(sections.output)} kept for the reply`);
+
+  let text = `Context: ~${formatTokens(used)} of ${formatTokens(contextLength)} tokens (${parts.join(', ')})`;
+  if (breakdown.trimmed.length > 0) {
+    text += `. Shortened to fit: ${breakdown.trimmed.join(', ')}`;
+  }
+  return text;
+}
+
+/**
+ * Tracks how a model's context window is spent while a prompt is put together:
+ * the reply's share is set aside up front, fixed parts (system prompt, the
+ * user's message) are reserved, and variable parts (history, notes, tool
+ * results) are cut or summarized to whatever is left.
+ */
+export class ContextBudget {
+  readonly contextLength: number;
+  private model: string;
+  private used: Record<BudgetSection, number> = { system: 0, history: 0, context: 0, input: 0, output: 0 };
+  private trimmed: string[] = [];
+
+  constructor(contextLength: number, model: string, outputReserve = DEFAULT_OUTPUT_RESERVE) {
+    this.contextLength = contextLength;
+    this.model = model;
+    // Never let the reply take more than half of a small context
+    this.used.output = Math.min(Math.floor(outputReserve), Math.floor(contextLength / 2));
+  }
+
+  /**
+   * Budget for the selected chat model at the configured context length
+   */
+  static forPlugin(plugin: VaultAIPlugin, outputReserve = DEFAULT_OUTPUT_RESERVE): ContextBudget {
+    return new ContextBudget(plugin.settings.modelContextLength, plugin.settings.selectedModel, outputReserve);
+  }
+
+  estimate(text: string): number {
+    return estimateTokens(text, this.model);
+  }
+
+  /**
+   * Tokens not yet reserved
+   */
+  remaining(): number {
+    const used = Object.values(this.used).reduce((total, tokens) => total + tokens, 0);
+    return Math.max(0, this.contextLength - used);
+  }
+
+  /**
+   * Count text that is sent whole, whether or not it fits
+   */
+  reserve(section: BudgetSection, text: string): void {
+    this.used[section] += this.estimate(text);
+  }
+
+  /**
+   * Take as much of a text as fits in maxTokens (at most what is left), cut at a
+   * line break. label names the input in the breakdown if it had to be cut.
+   */
+  fit(section: BudgetSection, text: string, label: string, maxTokens = this.remaining()): string {
+    const limit = Math.min(maxTokens, this.remaining());
+    const fitted = truncateToTokens(text, limit, this.model);
+    if (fitted !== text) {
+      this.trimmed.push(label);
+    }
+    this.used[section] += this.estimate(fitted);
+    return fitted;
+  }
+
+  /**
+   * Like fit, but a text that does not fit is first handed to summarize (usually
+   * a model call) and only cut if the summary fails or is still too long.
+   */
+  async fitOrSummarize(
+    section: BudgetSection,
+    text: string,
+    label: string,
+    summarize: (text: string, maxTokens: number) => Promise<string>,
+    maxTokens = this.remaining()
+  ): Promise<string> {
+    const limit = Math.min(maxTokens, this.remaining());
+    if (this.estimate(text) <= limit) {
+      this.used[section] += this.estimate(text);
+      return text;
+    }
+
+    try {
+      const summary = await summarize(text, limit);
+      if (summary.trim() && this.estimate(summary) <= limit) {
+        this.trimmed.push(`${label} (summarized)`);
+        this.used[section] += this.estimate(summary);
+        return summary;
+      }
+    } catch (error) {
+      console.warn('[Vault AI] Summarizing to fit the context failed, cutting instead:', error);
+    }
+    return this.fit(section, text, label, limit);
+  }
+
+  /**
+   * The most recent messages that fit in the history's share of the context,
+   * oldest first. Earlier messages are left out.
+   */
+  fitMessages(messages: LLMMessage[], maxTokens = this.getHistoryLimit()): LLMMessage[] {
+    const limit = Math.min(maxTokens, this.remaining());
+    const kept: LLMMessage[] = [];
+    let used = 0;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const tokens = this.estimateMessage(messages[i]);
+      if (used + tokens > limit) break;
+      kept.unshift(messages[i]);
+      used += tokens;
+    }
+
+    const dropped = messages.length - kept.length;
+    if (dropped > 0) {
+      this.trimmed.push(`${dropped} earlier message${dropped === 1 ? '' : 's'}`);
+    }
+    this.used.history += used;
+    return kept;
+  }
+
+  /**
+   * Most tokens earlier messages should take
+   */
+  getHistoryLimit(): number {
+    return Math.floor(this.contextLength * HISTORY_SHARE);
+  }
+
+  /**
+   * Tokens a chat message takes, with its role markers
+   */
+  estimateMessage(message: LLMMessage): number {
+    return this.estimate(message.content) + MESSAGE_OVERHEAD_TOKENS;
+  }
+
+  getBreakdown(): BudgetBreakdown {
+    return {
+      contextLength: this.contextLength,
+      sections: { ...this.used },
+      trimmed: [...this.trimmed],
+    };
+  }
+}
+
+function getCharsPerToken(model: string): number {
+  return CHARS_PER_TOKEN.find(([pattern]) => pattern.test(model))?.[1] ?? DEFAULT_CHARS_PER_TOKEN;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
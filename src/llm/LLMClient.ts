@@ -1,5 +1,5 @@
 import { requestUrl } from 'obsidian';
-import { LLMMessage } from '../types';
+import { LLMMessage, LLMToolDefinition, LLMToolChatResult } from '../types';
 
 export abstract class LLMClient {
   protected baseUrl: string;
@@ -22,6 +22,38 @@ export abstract class LLMClient {
   ): Promise<string>;
   abstract isConnected(): Promise<boolean>;
 
+  /**
+   * Whether this server accepts structured tool schemas and returns structured tool calls.
+   * Clients that return true must override chatWithTools.
+   */
+  supportsNativeTools(): boolean {
+    return false;
+  }
+
+  async chatWithTools(
+    messages: LLMMessage[],
+    tools: LLMToolDefinition[]
+  ): Promise<LLMToolChatResult> {
+    throw new Error('Native tool calling is not supported by this server');
+  }
+
+  /**
+   * Embed texts with an embedding model (not the chat model). Returns one vector
+   * per text, in the same order.
+   */
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    throw new Error('Embeddings are not supported by this server');
+  }
+
+  /**
+   * Headers sent with every request. Subclasses add auth or custom headers here.
+   */
+  protected getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+    };
+  }
+
   protected async request(
     url: string,
     method: string,
@@ -33,14 +65,17 @@ export abstract class LLMClient {
       const requestOptions = {
         url,
         method,
-        headers: {
-          'Content-Type': 'application/json',
-        },
+        headers: this.getHeaders(),
         body: body ? JSON.stringify(body) : undefined,
         throw: false,
       };
 
-      console.log('[Vault AI] Request options:', JSON.stringify(requestOptions, null, 2));
+      // Header values may carry API keys, so only log their names
+      console.log('[Vault AI] Request options:', JSON.stringify(
+        { ...requestOptions, headers: Object.keys(requestOptions.headers) },
+        null,
+        2
+      ));
 
       const response = await requestUrl(requestOptions);
 
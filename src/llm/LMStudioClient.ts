@@ -1,6 +1,10 @@
 import { LLMClient } from './LLMClient';
+import { toOpenAIMessages, toOpenAITools, parseToolArguments, toEmbeddingVectors } from './OpenAICompatibleClient';
 import {
   LLMMessage,
+  LLMToolDefinition,
+  LLMToolChatResult,
+  OpenAIChatCompletionResponse,
   LMStudioChatRequest,
   LMStudioNewChatResponse,
   LMStudioStreamEvent,
@@ -11,6 +15,8 @@ import {
   LMStudioLoadModelRequest,
   LMStudioLoadModelResponse,
   LMStudioUnloadModelResponse,
+  OpenAIEmbeddingRequest,
+  OpenAIEmbeddingResponse,
 } from '../types';
 
 export interface LMStudioChatOptions {
@@ -20,6 +26,8 @@ export interface LMStudioChatOptions {
   store?: boolean;
   callbacks?: LMStudioStreamCallbacks;
   mcpServerUrl?: string;
+  // Sent by LM Studio to the MCP server, e.g. the bearer token
+  mcpHeaders?: Record<string, string>;
   reasoning?: 'off' | 'low' | 'medium' | 'high' | 'on';
 }
 
@@ -152,6 +160,53 @@ export class LMStudioClient extends LLMClient {
     }
   }
 
+  supportsNativeTools(): boolean {
+    return true;
+  }
+
+  /**
+   * Chat with structured tool schemas via the OpenAI-compatible endpoint.
+   * The model's tool calls are returned to the caller rather than executed by LM Studio.
+   */
+  async chatWithTools(
+    messages: LLMMessage[],
+    tools: LLMToolDefinition[]
+  ): Promise<LLMToolChatResult> {
+    if (!this.model) {
+      throw new Error('No model selected');
+    }
+
+    try {
+      const data: OpenAIChatCompletionResponse = await this.request(
+        `${this.baseUrl}/v1/chat/completions`,
+        'POST',
+        {
+          model: this.model,
+          messages: toOpenAIMessages(messages),
+          tools: toOpenAITools(tools),
+          tool_choice: 'auto',
+          stream: false,
+          temperature: 0.7,
+        }
+      );
+
+      const message = data.choices[0]?.message;
+
+      return {
+        content: message?.content || '',
+        reasoning: message?.reasoning_content || undefined,
+        toolCalls: (message?.tool_calls || []).map((tc) => ({
+          id: tc.id,
+          name: tc.function.name,
+          arguments: parseToolArguments(tc.function.arguments),
+        })),
+      };
+    } catch (error) {
+      console.error('LM Studio tool chat error:', error);
+      throw error;
+    }
+  }
+
   /**
    * New chat method using /api/v1/chat endpoint
    * Supports streaming, reasoning, and response_id for conversation continuity
@@ -171,6 +226,7 @@ export class LMStudioClient extends LLMClient {
       store = true,
       callbacks,
       mcpServerUrl,
+      mcpHeaders,
       reasoning,
     } = options;
 
@@ -202,6 +258,7 @@ export class LMStudioClient extends LLMClient {
           type: 'ephemeral_mcp',
           server_label: 'vault-ai-mcp',
           server_url: mcpServerUrl,
+          ...(mcpHeaders && Object.keys(mcpHeaders).length > 0 ? { headers: mcpHeaders } : {}),
         },
       ];
     }
@@ -570,6 +627,19 @@ export class LMStudioClient extends LLMClient {
     return result.content;
   }
 
+  /**
+   * Embed texts using the OpenAI-compatible /v1/embeddings endpoint
+   */
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const body: OpenAIEmbeddingRequest = { model, input: texts };
+    const response: OpenAIEmbeddingResponse = await this.request(
+      `${this.baseUrl}/v1/embeddings`,
+      'POST',
+      body
+    );
+    return toEmbeddingVectors(response);
+  }
+
   async isConnected(): Promise<boolean> {
     try {
       await this.request(`${this.baseUrl}/v1/models`, 'GET');
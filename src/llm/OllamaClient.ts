@@ -0,0 +1,271 @@
+import { LLMClient } from './LLMClient';
+import { toOpenAITools } from './OpenAICompatibleClient';
+import {
+  LLMMessage,
+  LLMToolDefinition,
+  LLMToolChatResult,
+  OllamaChatMessage,
+  OllamaChatChunk,
+  OllamaChatRequest,
+  OllamaTagsResponse,
+  OllamaEmbedRequest,
+  OllamaEmbedResponse,
+} from '../types';
+
+export class OllamaClient extends LLMClient {
+  private contextLength?: number;
+
+  constructor(
+    baseUrl: string = 'http://localhost:11434',
+    model: string = '',
+    contextLength?: number
+  ) {
+    super(baseUrl, model);
+    this.contextLength = contextLength;
+  }
+
+  async listModels(): Promise<string[]> {
+    try {
+      const data: OllamaTagsResponse = await this.request(
+        `${this.baseUrl}/api/tags`,
+        'GET'
+      );
+      return (data.models || []).map((m) => m.name);
+    } catch (error) {
+      console.error('Failed to list Ollama models:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Non-streaming chat using POST /api/chat with stream: false
+   */
+  async chat(messages: LLMMessage[]): Promise<string> {
+    if (!this.model) {
+      throw new Error('No model selected');
+    }
+
+    try {
+      const data: OllamaChatChunk = await this.request(
+        `${this.baseUrl}/api/chat`,
+        'POST',
+        this.buildChatRequest(messages, false)
+      );
+
+      if (data.error) {
+        throw new Error(data.error);
+      }
+
+      return data.message?.content || '';
+    } catch (error) {
+      console.error('Ollama chat error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Streaming chat using POST /api/chat.
+   * Ollama streams newline-delimited JSON objects rather than SSE events.
+   */
+  async chatStream(
+    messages: LLMMessage[],
+    onToken: (token: string) => void
+  ): Promise<string> {
+    if (!this.model) {
+      throw new Error('No model selected');
+    }
+
+    const url = `${this.baseUrl}/api/chat`;
+
+    console.log('[Vault AI] Starting Ollama streaming request to:', url);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(this.buildChatRequest(messages, true)),
+      });
+
+      if (!response.ok) {
+        let errorMessage = `HTTP error: ${response.status}`;
+        try {
+          const errorBody = await response.json();
+          if (errorBody?.error) {
+            errorMessage = errorBody.error;
+          }
+        } catch {
+          // Ignore body parsing errors
+        }
+        throw new Error(errorMessage);
+      }
+
+      if (!response.body) {
+        throw new Error('Response body is null');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+
+      let content = '';
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Process complete lines from buffer
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+        for (const line of lines) {
+          const chunk = this.parseChunk(line);
+          if (!chunk) continue;
+
+          if (chunk.error) {
+            reader.cancel();
+            throw new Error(chunk.error);
+          }
+
+          if (chunk.message?.content) {
+            content += chunk.message.content;
+            onToken(chunk.message.content);
+          }
+        }
+      }
+
+      // Flush whatever is left after the stream closes
+      const lastChunk = this.parseChunk(buffer);
+      if (lastChunk?.error) {
+        throw new Error(lastChunk.error);
+      }
+      if (lastChunk?.message?.content) {
+        content += lastChunk.message.content;
+        onToken(lastChunk.message.content);
+      }
+
+      return content;
+    } catch (error) {
+      console.error('Ollama streaming error:', error);
+      throw error;
+    }
+  }
+
+  supportsNativeTools(): boolean {
+    return true;
+  }
+
+  /**
+   * Chat with structured tool schemas. Ollama returns tool call arguments
+   * as objects and older versions omit call ids, so ids are synthesized.
+   */
+  async chatWithTools(
+    messages: LLMMessage[],
+    tools: LLMToolDefinition[]
+  ): Promise<LLMToolChatResult> {
+    if (!this.model) {
+      throw new Error('No model selected');
+    }
+
+    try {
+      const requestBody = this.buildChatRequest(messages, false);
+      requestBody.tools = toOpenAITools(tools);
+
+      const data: OllamaChatChunk = await this.request(
+        `${this.baseUrl}/api/chat`,
+        'POST',
+        requestBody
+      );
+
+      if (data.error) {
+        throw new Error(data.error);
+      }
+
+      return {
+        content: data.message?.content || '',
+        reasoning: data.message?.thinking || undefined,
+        toolCalls: (data.message?.tool_calls || []).map((tc, i) => ({
+          id: tc.id || `call_${Date.now()}_${i}`,
+          name: tc.function.name,
+          arguments: tc.function.arguments || {},
+        })),
+      };
+    } catch (error) {
+      console.error('Ollama tool chat error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Embed texts using POST /api/embed
+   */
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const body: OllamaEmbedRequest = { model, input: texts };
+    const response: OllamaEmbedResponse = await this.request(`${this.baseUrl}/api/embed`, 'POST', body);
+    return response.embeddings;
+  }
+
+  async isConnected(): Promise<boolean> {
+    try {
+      await this.request(`${this.baseUrl}/api/tags`, 'GET');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private buildChatRequest(messages: LLMMessage[], stream: boolean): OllamaChatRequest {
+    const requestBody: OllamaChatRequest = {
+      model: this.model,
+      messages: messages.map((m) => this.toOllamaMessage(m)),
+      stream,
+      options: {
+        temperature: 0.7,
+      },
+    };
+
+    if (this.contextLength) {
+      requestBody.options!.num_ctx = this.contextLength;
+    }
+
+    return requestBody;
+  }
+
+  private toOllamaMessage(message: LLMMessage): OllamaChatMessage {
+    const ollamaMessage: OllamaChatMessage = {
+      role: message.role,
+      content: message.content,
+    };
+
+    if (message.toolCalls && message.toolCalls.length > 0) {
+      ollamaMessage.tool_calls = message.toolCalls.map((tc) => ({
+        function: { name: tc.name, arguments: tc.arguments },
+      }));
+    }
+
+    // Ollama matches tool results by name rather than call id
+    if (message.role === 'tool' && message.toolName) {
+      ollamaMessage.tool_name = message.toolName;
+    }
+
+    return ollamaMessage;
+  }
+
+  private parseChunk(line: string): OllamaChatChunk | null {
+    const trimmed = line.trim();
+    if (!trimmed) return null;
+
+    try {
+      return JSON.parse(trimmed) as OllamaChatChunk;
+    } catch (e) {
+      console.warn('[Vault AI] Failed to parse Ollama stream chunk:', trimmed, e);
+      return null;
+    }
+  }
+}
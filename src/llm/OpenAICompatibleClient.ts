@@ -0,0 +1,434 @@
+import { LLMClient } from './LLMClient';
+import {
+  LLMMessage,
+  LLMToolDefinition,
+  LLMToolChatResult,
+  OpenAIChatMessage,
+  OpenAIChatCompletionRequest,
+  OpenAIChatCompletionResponse,
+  OpenAIChatCompletionChunk,
+  OpenAIToolDefinition,
+  LMStudioModelsResponse,
+  OpenAIEmbeddingRequest,
+  OpenAIEmbeddingResponse,
+} from '../types';
+
+export interface OpenAICompatibleClientOptions {
+  apiKey?: string;
+  apiKeyHeader?: string;
+  extraHeaders?: Record<string, string>;
+}
+
+export interface OpenAIChatOptions {
+  tools?: OpenAIToolDefinition[];
+  toolChoice?: 'auto' | 'none' | 'required';
+  temperature?: number;
+  callbacks?: OpenAIStreamCallbacks;
+}
+
+export interface OpenAIStreamCallbacks {
+  onContentDelta?: (content: string) => void;
+  onReasoningDelta?: (content: string) => void;
+  onToolCallStart?: (id: string, name: string) => void;
+}
+
+export interface OpenAIToolCallResult {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface OpenAIChatResult {
+  content: string;
+  reasoning?: string;
+  toolCalls?: OpenAIToolCallResult[];
+  finishReason?: string;
+}
+
+/**
+ * Parse "Header-Name: value" lines (one per line) into a header map.
+ * Blank lines and lines without a colon are ignored.
+ */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+    if (name) {
+      headers[name] = value;
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Convert internal messages to the OpenAI chat format, including
+ * assistant tool_calls and 'tool' result messages.
+ */
+export function toOpenAIMessages(messages: LLMMessage[]): OpenAIChatMessage[] {
+  return messages.map((m) => {
+    const message: OpenAIChatMessage = {
+      role: m.role,
+      content: m.content,
+    };
+
+    if (m.toolCalls && m.toolCalls.length > 0) {
+      message.tool_calls = m.toolCalls.map((tc) => ({
+        id: tc.id,
+        type: 'function' as const,
+        function: {
+          name: tc.name,
+          arguments: JSON.stringify(tc.arguments),
+        },
+      }));
+    }
+
+    if (m.role === 'tool' && m.toolCallId) {
+      message.tool_call_id = m.toolCallId;
+    }
+
+    return message;
+  });
+}
+
+export function toOpenAITools(tools: LLMToolDefinition[]): OpenAIToolDefinition[] {
+  return tools.map((tool) => ({
+    type: 'function' as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }));
+}
+
+/**
+ * Tool call arguments arrive as a JSON string; models occasionally emit
+ * invalid JSON, in which case the call gets empty arguments.
+ */
+export function parseToolArguments(args: string): Record<string, unknown> {
+  if (!args) return {};
+
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.warn('[Vault AI] Failed to parse tool call arguments:', args, e);
+    return {};
+  }
+}
+
+/**
+ * Embedding vectors from a /v1/embeddings response, in input order
+ */
+export function toEmbeddingVectors(response: OpenAIEmbeddingResponse): number[][] {
+  return [...response.data].sort((a, b) => a.index - b.index).map((d) => d.embedding);
+}
+
+/**
+ * Client for servers implementing the OpenAI REST API
+ * (llama.cpp server, vLLM, LocalAI, ...)
+ */
+export class OpenAICompatibleClient extends LLMClient {
+  private apiKey: string;
+  private apiKeyHeader: string;
+  private extraHeaders: Record<string, string>;
+
+  constructor(
+    baseUrl: string = 'http://localhost:8080',
+    model: string = '',
+    options: OpenAICompatibleClientOptions = {}
+  ) {
+    // Accept both "http://host:port" and "http://host:port/v1"
+    super(baseUrl.replace(/\/$/, '').replace(/\/v1$/, ''), model);
+    this.apiKey = options.apiKey || '';
+    this.apiKeyHeader = options.apiKeyHeader || 'Authorization';
+    this.extraHeaders = options.extraHeaders || {};
+  }
+
+  protected getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...super.getHeaders(),
+      ...this.extraHeaders,
+    };
+
+    if (this.apiKey) {
+      headers[this.apiKeyHeader] = this.apiKeyHeader.toLowerCase() === 'authorization'
+        ? `Bearer ${this.apiKey}`
+        : this.apiKey;
+    }
+
+    return headers;
+  }
+
+  async listModels(): Promise<string[]> {
+    try {
+      const data: LMStudioModelsResponse = await this.request(
+        `${this.baseUrl}/v1/models`,
+        'GET'
+      );
+      return (data.data || []).map((m) => m.id);
+    } catch (error) {
+      console.error('Failed to list OpenAI-compatible models:', error);
+      throw error;
+    }
+  }
+
+  async chat(messages: LLMMessage[]): Promise<string> {
+    const result = await this.chatCompletion(toOpenAIMessages(messages));
+    return result.content;
+  }
+
+  async chatStream(
+    messages: LLMMessage[],
+    onToken: (token: string) => void
+  ): Promise<string> {
+    const result = await this.chatCompletion(toOpenAIMessages(messages), {
+      callbacks: { onContentDelta: onToken },
+    });
+    return result.content;
+  }
+
+  supportsNativeTools(): boolean {
+    return true;
+  }
+
+  async chatWithTools(
+    messages: LLMMessage[],
+    tools: LLMToolDefinition[]
+  ): Promise<LLMToolChatResult> {
+    const result = await this.chatCompletion(toOpenAIMessages(messages), {
+      tools: toOpenAITools(tools),
+    });
+
+    return {
+      content: result.content,
+      reasoning: result.reasoning,
+      toolCalls: result.toolCalls || [],
+    };
+  }
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const body: OpenAIEmbeddingRequest = { model, input: texts };
+    const response: OpenAIEmbeddingResponse = await this.request(
+      `${this.baseUrl}/v1/embeddings`,
+      'POST',
+      body
+    );
+    return toEmbeddingVectors(response);
+  }
+
+  async isConnected(): Promise<boolean> {
+    try {
+      await this.request(`${this.baseUrl}/v1/models`, 'GET');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Chat using /v1/chat/completions with optional native tool calling.
+   * Streams via Server-Sent Events when callbacks are provided.
+   */
+  async chatCompletion(
+    messages: OpenAIChatMessage[],
+    options: OpenAIChatOptions = {}
+  ): Promise<OpenAIChatResult> {
+    if (!this.model) {
+      throw new Error('No model selected');
+    }
+
+    const { tools, toolChoice, temperature = 0.7, callbacks } = options;
+
+    const requestBody: OpenAIChatCompletionRequest = {
+      model: this.model,
+      messages,
+      stream: !!callbacks,
+      temperature,
+    };
+
+    if (tools && tools.length > 0) {
+      requestBody.tools = tools;
+      requestBody.tool_choice = toolChoice || 'auto';
+    }
+
+    if (callbacks) {
+      return this.chatCompletionStreaming(requestBody, callbacks);
+    } else {
+      return this.chatCompletionNonStreaming(requestBody);
+    }
+  }
+
+  private async chatCompletionNonStreaming(
+    requestBody: OpenAIChatCompletionRequest
+  ): Promise<OpenAIChatResult> {
+    try {
+      const response: OpenAIChatCompletionResponse = await this.request(
+        `${this.baseUrl}/v1/chat/completions`,
+        'POST',
+        requestBody
+      );
+
+      const choice = response.choices[0];
+      if (!choice) {
+        return { content: '' };
+      }
+
+      const toolCalls = (choice.message.tool_calls || []).map((tc) => ({
+        id: tc.id,
+        name: tc.function.name,
+        arguments: parseToolArguments(tc.function.arguments),
+      }));
+
+      return {
+        content: choice.message.content || '',
+        reasoning: choice.message.reasoning_content || undefined,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        finishReason: choice.finish_reason || undefined,
+      };
+    } catch (error) {
+      console.error('OpenAI-compatible chat error:', error);
+      throw error;
+    }
+  }
+
+  private async chatCompletionStreaming(
+    requestBody: OpenAIChatCompletionRequest,
+    callbacks: OpenAIStreamCallbacks
+  ): Promise<OpenAIChatResult> {
+    const url = `${this.baseUrl}/v1/chat/completions`;
+
+    console.log('[Vault AI] Starting streaming request to:', url);
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          ...this.getHeaders(),
+          Accept: 'text/event-stream',
+        },
+        body: JSON.stringify(requestBody),
+      });
+
+      if (!response.ok) {
+        let errorMessage = `HTTP error: ${response.status}`;
+        try {
+          const errorBody = await response.json();
+          if (errorBody?.error?.message) {
+            errorMessage = errorBody.error.message;
+          }
+        } catch {
+          // Ignore body parsing errors
+        }
+        throw new Error(errorMessage);
+      }
+
+      if (!response.body) {
+        throw new Error('Response body is null');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+
+      let content = '';
+      let reasoning = '';
+      let finishReason: string | undefined;
+      let buffer = '';
+      // Tool call fragments, keyed by their stream index
+      const partialToolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+      while (true) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Process complete SSE lines from buffer
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+        for (const line of lines) {
+          if (!line.startsWith('data:')) continue;
+
+          const data = line.slice(5).trim();
+          if (!data || data === '[DONE]') continue;
+
+          let chunk: OpenAIChatCompletionChunk;
+          try {
+            chunk = JSON.parse(data);
+          } catch (e) {
+            console.warn('[Vault AI] Failed to parse SSE chunk:', data, e);
+            continue;
+          }
+
+          const choice = chunk.choices?.[0];
+          if (!choice) continue;
+
+          const delta = choice.delta;
+
+          if (delta.content) {
+            content += delta.content;
+            callbacks.onContentDelta?.(delta.content);
+          }
+
+          if (delta.reasoning_content) {
+            reasoning += delta.reasoning_content;
+            callbacks.onReasoningDelta?.(delta.reasoning_content);
+          }
+
+          for (const tcDelta of delta.tool_calls || []) {
+            let partial = partialToolCalls.get(tcDelta.index);
+            if (!partial) {
+              partial = { id: tcDelta.id || `call_${tcDelta.index}`, name: '', arguments: '' };
+              partialToolCalls.set(tcDelta.index, partial);
+            }
+            if (tcDelta.id) {
+              partial.id = tcDelta.id;
+            }
+            if (tcDelta.function?.name) {
+              const isFirstFragment = !partial.name;
+              partial.name += tcDelta.function.name;
+              if (isFirstFragment) {
+                callbacks.onToolCallStart?.(partial.id, partial.name);
+              }
+            }
+            if (tcDelta.function?.arguments) {
+              partial.arguments += tcDelta.function.arguments;
+            }
+          }
+
+          if (choice.finish_reason) {
+            finishReason = choice.finish_reason;
+          }
+        }
+      }
+
+      const toolCalls = Array.from(partialToolCalls.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, tc]) => ({
+          id: tc.id,
+          name: tc.name,
+          arguments: parseToolArguments(tc.arguments),
+        }));
+
+      return {
+        content,
+        reasoning: reasoning || undefined,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        finishReason,
+      };
+    } catch (error) {
+      console.error('OpenAI-compatible streaming error:', error);
+      throw error;
+    }
+  }
+}
@@ -1,36 +1,69 @@
-import { Plugin, WorkspaceLeaf } from 'obsidian';
-import { VaultAISettings, DEFAULT_SETTINGS, ConnectionStatus, LMStudioModelInfo } from './types';
+import { Notice, Plugin, WorkspaceLeaf } from 'obsidian';
+import { VaultAISettings, DEFAULT_SETTINGS, ConnectionStatus, LMStudioModelInfo, UndoTransaction } from './types';
 import { VaultAISettingTab } from './settings';
 import { LLMClient } from './llm/LLMClient';
 import { LMStudioClient } from './llm/LMStudioClient';
+import { OllamaClient } from './llm/OllamaClient';
+import { OpenAICompatibleClient, parseHeaderLines } from './llm/OpenAICompatibleClient';
 import { VaultAIView, VIEW_TYPE_VAULT_AI } from './ui/SidebarView';
 import { ChatWindowView, VIEW_TYPE_CHAT_WINDOW } from './ui/ChatWindowView';
-import { UndoStack } from './operations/UndoStack';
-import { ChatHistoryManager } from './chat/ChatHistoryManager';
-import { MCPServer } from './mcp';
+import { UndoJournal } from './operations/UndoJournal';
+import { KeywordIndex } from './search/KeywordIndex';
+import { SemanticIndex } from './search/SemanticIndex';
+import { CHAT_HISTORY_KEY, ChatHistoryManager } from './chat/ChatHistoryManager';
+import { MCPServer, generateAuthToken } from './mcp';
+import { ToolRegistry, createToolRegistry } from './tools';
+import { confirmToolCall } from './ui/ToolConfirmModal';
+import { UndoHistoryModal } from './ui/UndoHistoryModal';
+import { ExportModal } from './ui/ExportModal';
+import { ImportModal } from './ui/ImportModal';
+import { resolveUndoMerge } from './ui/UndoMergeModal';
 
 export default class VaultAIPlugin extends Plugin {
   settings: VaultAISettings = DEFAULT_SETTINGS;
   llmClient: LLMClient | null = null;
-  undoStack: UndoStack = new UndoStack();
+  undoJournal: UndoJournal = null!;
   connectionStatus: ConnectionStatus = 'offline';
   chatHistory: ChatHistoryManager = null!;
   availableModels: string[] = [];
   availableModelsInfo: LMStudioModelInfo[] = [];
   mcpServer: MCPServer | null = null;
+  toolRegistry: ToolRegistry = null!;
+  keywordIndex: KeywordIndex = null!;
+  semanticIndex: SemanticIndex = null!;
 
   private statusBarItem: HTMLElement | null = null;
 
   async onload(): Promise<void> {
     await this.loadSettings();
 
+    // Undo history persisted in the plugin folder
+    this.undoJournal = new UndoJournal(this);
+    await this.undoJournal.load();
+    this.undoJournal.setMergeHandler((request) => resolveUndoMerge(this.app, request));
+
     // Initialize chat history manager
     this.chatHistory = new ChatHistoryManager(this);
     await this.chatHistory.load();
+    this.app.workspace.onLayoutReady(() => this.chatHistory.start());
 
     // Initialize LLM client
     this.initializeLLMClient();
 
+    // Inverted index behind search_vault and agentic search
+    this.keywordIndex = new KeywordIndex(this);
+    await this.keywordIndex.load();
+    this.app.workspace.onLayoutReady(() => this.keywordIndex.start());
+
+    // Tools shared by the chat agent and the MCP server
+    this.toolRegistry = createToolRegistry(this);
+    this.toolRegistry.setConfirmHandler((request) => confirmToolCall(this.app, request));
+
+    // Embedding index for semantic_search, caught up once the vault has loaded
+    this.semanticIndex = new SemanticIndex(this);
+    await this.semanticIndex.load();
+    this.app.workspace.onLayoutReady(() => this.semanticIndex.start());
+
     // Start MCP server if enabled
     if (this.settings.mcpEnabled) {
       await this.startMCPServer();
@@ -88,7 +121,23 @@ export default class VaultAIPlugin extends Plugin {
       id: 'undo',
       name: 'Undo last operation',
       callback: async () => {
-        await this.undoStack.undo(this.app);
+        await this.runUndoAction(() => this.undoJournal.undo(), 'Undone', 'Nothing to undo');
+      },
+    });
+
+    this.addCommand({
+      id: 'redo',
+      name: 'Redo last undone operation',
+      callback: async () => {
+        await this.runUndoAction(() => this.undoJournal.redo(), 'Redone', 'Nothing to redo');
+      },
+    });
+
+    this.addCommand({
+      id: 'undo-history',
+      name: 'Browse undo history',
+      callback: () => {
+        new UndoHistoryModal(this.app, this).open();
       },
     });
 
@@ -100,6 +149,27 @@ export default class VaultAIPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'export-conversation',
+      name: 'Export current conversation',
+      callback: () => {
+        const conversation = this.chatHistory.getActiveConversation();
+        if (!conversation) {
+          new Notice('No conversation to export');
+          return;
+        }
+        new ExportModal(this.app, this, [conversation]).open();
+      },
+    });
+
+    this.addCommand({
+      id: 'import-conversations',
+      name: 'Import conversations',
+      callback: () => {
+        new ImportModal(this.app, this).open();
+      },
+    });
+
     this.addCommand({
       id: 'open-chat-window',
       name: 'Open chat in new window',
@@ -119,25 +189,74 @@ export default class VaultAIPlugin extends Plugin {
     // Stop MCP server
     await this.stopMCPServer();
 
+    await this.chatHistory.flush();
+    await this.keywordIndex.flush();
+    await this.semanticIndex.flush();
+
     this.app.workspace.detachLeavesOfType(VIEW_TYPE_VAULT_AI);
     this.app.workspace.detachLeavesOfType(VIEW_TYPE_CHAT_WINDOW);
   }
 
   async loadSettings(): Promise<void> {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // data.json also holds the chat history, which ChatHistoryManager reads and writes itself
+    const { [CHAT_HISTORY_KEY]: _history, ...saved } = (await this.loadData()) || {};
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, saved);
+    // Copy nested defaults so editing policies never mutates DEFAULT_SETTINGS
+    this.settings.toolPolicies = { ...this.settings.toolPolicies };
+    this.settings.folderPolicies = [...this.settings.folderPolicies];
+
+    // First run: create the token MCP clients must present
+    if (!this.settings.mcpAuthToken) {
+      this.settings.mcpAuthToken = generateAuthToken();
+      await this.writeSettings();
+    }
   }
 
   async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+    await this.writeSettings();
     this.initializeLLMClient();
     this.checkConnection();
   }
 
+  /**
+   * Save the settings without reconnecting. They are merged into data.json so
+   * the chat history stored there is kept.
+   */
+  async writeSettings(): Promise<void> {
+    const data = (await this.loadData()) || {};
+    await this.saveData({ ...data, ...this.settings });
+  }
+
   initializeLLMClient(): void {
-    this.llmClient = new LMStudioClient(
-      this.settings.serverUrl,
-      this.settings.selectedModel
-    );
+    switch (this.settings.serverType) {
+      case 'ollama':
+        this.llmClient = new OllamaClient(
+          this.settings.serverUrl,
+          this.settings.selectedModel,
+          this.settings.modelContextLength
+        );
+        break;
+
+      case 'openai':
+        this.llmClient = new OpenAICompatibleClient(
+          this.settings.serverUrl,
+          this.settings.selectedModel,
+          {
+            apiKey: this.settings.apiKey,
+            apiKeyHeader: this.settings.apiKeyHeader,
+            extraHeaders: parseHeaderLines(this.settings.extraHeaders),
+          }
+        );
+        break;
+
+      case 'lmstudio':
+      default:
+        this.llmClient = new LMStudioClient(
+          this.settings.serverUrl,
+          this.settings.selectedModel
+        );
+        break;
+    }
   }
 
   async startMCPServer(): Promise<void> {
@@ -171,6 +290,24 @@ export default class VaultAIPlugin extends Plugin {
     return undefined;
   }
 
+  /**
+   * Path of a file in the plugin folder, for data kept outside data.json
+   */
+  getPluginFilePath(fileName: string): string {
+    const dir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    return `${dir}/${fileName}`;
+  }
+
+  /**
+   * Headers an MCP client needs to pass the server's bearer token check
+   */
+  getMCPAuthHeaders(): Record<string, string> {
+    if (!this.settings.mcpRequireAuth) {
+      return {};
+    }
+    return { Authorization: `Bearer ${this.settings.mcpAuthToken}` };
+  }
+
   async checkConnection(): Promise<void> {
     if (!this.llmClient) {
       this.setConnectionStatus('offline');
@@ -197,7 +334,12 @@ export default class VaultAIPlugin extends Plugin {
       return [];
     }
 
-    const lmClient = this.llmClient as LMStudioClient;
+    // Only LM Studio exposes detailed model info; other servers use the plain list
+    if (!(this.llmClient instanceof LMStudioClient)) {
+      return this.loadModelList();
+    }
+
+    const lmClient = this.llmClient;
 
     // Try the new API first for full model info
     try {
@@ -214,7 +356,7 @@ export default class VaultAIPlugin extends Plugin {
         const selectedModel = loadedModel?.key || this.availableModels[0];
         this.settings.selectedModel = selectedModel;
         this.llmClient.setModel(selectedModel);
-        await this.saveData(this.settings);
+        await this.writeSettings();
       }
 
       return this.availableModels;
@@ -223,14 +365,27 @@ export default class VaultAIPlugin extends Plugin {
     }
 
     // Fallback to legacy API if new API fails
+    return this.loadModelList();
+  }
+
+  /**
+   * Load the plain list of model ids (no load state or capabilities)
+   */
+  private async loadModelList(): Promise<string[]> {
+    if (!this.llmClient) {
+      this.availableModels = [];
+      this.availableModelsInfo = [];
+      return [];
+    }
+
     try {
-      this.availableModels = await lmClient.listModels();
+      this.availableModels = await this.llmClient.listModels();
       this.availableModelsInfo = []; // No detailed info available with legacy API
 
       if (!this.settings.selectedModel && this.availableModels.length > 0) {
         this.settings.selectedModel = this.availableModels[0];
         this.llmClient.setModel(this.availableModels[0]);
-        await this.saveData(this.settings);
+        await this.writeSettings();
       }
 
       return this.availableModels;
@@ -246,11 +401,11 @@ export default class VaultAIPlugin extends Plugin {
    * Load a model into memory with settings from plugin config
    */
   async loadModel(modelKey: string, options?: { context_length?: number; flash_attention?: boolean }): Promise<void> {
-    if (!this.llmClient) {
-      throw new Error('LLM client not initialized');
+    if (!(this.llmClient instanceof LMStudioClient)) {
+      throw new Error('Model loading is only supported with LM Studio');
     }
 
-    const lmClient = this.llmClient as LMStudioClient;
+    const lmClient = this.llmClient;
     const loadOptions = {
       context_length: options?.context_length ?? this.settings.modelContextLength,
       flash_attention: options?.flash_attention ?? this.settings.modelFlashAttention,
@@ -271,6 +426,9 @@ export default class VaultAIPlugin extends Plugin {
   async ensureModelLoaded(): Promise<void> {
     if (!this.llmClient || !this.settings.selectedModel) return;
 
+    // Other servers (e.g. Ollama) load models on demand
+    if (!(this.llmClient instanceof LMStudioClient)) return;
+
     // Refresh model info to get current loaded state
     await this.loadAvailableModels();
 
@@ -302,12 +460,11 @@ export default class VaultAIPlugin extends Plugin {
    * Unload a model from memory
    */
   async unloadModel(instanceId: string): Promise<void> {
-    if (!this.llmClient) {
-      throw new Error('LLM client not initialized');
+    if (!(this.llmClient instanceof LMStudioClient)) {
+      throw new Error('Model unloading is only supported with LM Studio');
     }
 
-    const lmClient = this.llmClient as LMStudioClient;
-    await lmClient.unloadModel(instanceId);
+    await this.llmClient.unloadModel(instanceId);
 
     // Refresh model list to update loaded status
     await this.loadAvailableModels();
@@ -443,4 +600,23 @@ export default class VaultAIPlugin extends Plugin {
 
     workspace.revealLeaf(leaf);
   }
+
+  /**
+   * Run an undo or redo and report the result, including conflicts, as a notice
+   */
+  async runUndoAction(
+    action: () => Promise<UndoTransaction | null>,
+    doneLabel: string,
+    emptyMessage: string
+  ): Promise<boolean> {
+    try {
+      const transaction = await action();
+      new Notice(transaction ? `${doneLabel}: ${transaction.description}` : emptyMessage);
+      return !!transaction;
+    } catch (error) {
+      console.error('[Vault AI] Undo journal action failed:', error);
+      new Notice(error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
 }
@@ -0,0 +1,123 @@
+import { TFile } from 'obsidian';
+import type VaultAIPlugin from '../main';
+import { normalizeNotePath, normalizeFolderPath, buildStructureFileList } from '../tools/helpers';
+import { FORMAT_SYSTEM_PROMPT, buildFormatPrompt } from '../prompts/format';
+import { STRUCTURE_SYSTEM_PROMPT, buildStructurePrompt } from '../prompts/structure';
+import {
+  MCPErrorCodes,
+  MCPHandlerResult,
+  MCPPrompt,
+  MCPPromptGetResult,
+  MCPPromptsListResult,
+} from './types';
+
+interface PromptDefinition extends MCPPrompt {
+  build: (args: Record<string, string>, plugin: VaultAIPlugin) => Promise<MCPHandlerResult<MCPPromptGetResult>>;
+}
+
+/**
+ * MCP prompts have no system role, so the system prompt leads the user message
+ */
+function userPrompt(description: string, systemPrompt: string, prompt: string): MCPPromptGetResult {
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: `${systemPrompt}\n\n${prompt}` },
+      },
+    ],
+  };
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'format_note',
+    title: 'Format note',
+    description: 'Ask for markdown formatting suggestions for a note, returned as a JSON array of before/after edits.',
+    arguments: [
+      { name: 'path', description: 'Path of the note to format (e.g., "folder/note.md")', required: true },
+      { name: 'instructions', description: 'Optional custom instructions (e.g., "Focus on headings")' },
+    ],
+    build: async ({ path, instructions }, plugin) => {
+      const normalizedPath = normalizeNotePath(path);
+      if (plugin.toolRegistry.isPathDenied('read_note', normalizedPath)) {
+        return { error: { code: MCPErrorCodes.FORBIDDEN, message: `Permission denied: ${normalizedPath} is blocked by the Vault AI tool policy` } };
+      }
+      const file = plugin.app.vault.getAbstractFileByPath(normalizedPath);
+      if (!file || !(file instanceof TFile)) {
+        return { error: { code: MCPErrorCodes.INVALID_PARAMS, message: `Note not found: ${path}` } };
+      }
+
+      const content = await plugin.app.vault.cachedRead(file);
+      return {
+        result: userPrompt(
+          `Formatting suggestions for ${normalizedPath}`,
+          FORMAT_SYSTEM_PROMPT,
+          buildFormatPrompt(content, instructions || '')
+        ),
+      };
+    },
+  },
+  {
+    name: 'suggest_restructure',
+    title: 'Suggest structure',
+    description: 'Ask for reorganization suggestions (moves, renames, new folders) for a folder or the whole vault, returned as a JSON array of operations.',
+    arguments: [
+      { name: 'folder', description: 'Folder to analyze; omit or use "/" for the entire vault' },
+    ],
+    build: async ({ folder }, plugin) => {
+      const basePath = normalizeFolderPath(folder);
+      const fileList = buildStructureFileList(plugin.app, basePath, (path) => !plugin.toolRegistry.isPathDenied('read_note', path));
+      if (!fileList) {
+        return { error: { code: MCPErrorCodes.INVALID_PARAMS, message: `No notes found in ${basePath || 'the vault'}` } };
+      }
+
+      return {
+        result: userPrompt(
+          `Structure suggestions for ${basePath || 'the vault'}`,
+          STRUCTURE_SYSTEM_PROMPT,
+          buildStructurePrompt(fileList, basePath || '/')
+        ),
+      };
+    },
+  },
+];
+
+// ============================================================================
+// Prompt Handler Class
+// ============================================================================
+
+/**
+ * Serves the format and structure prompts as reusable MCP prompts,
+ * filled in with the note content or file list from the vault
+ */
+export class MCPPromptHandler {
+  private plugin: VaultAIPlugin;
+
+  constructor(plugin: VaultAIPlugin) {
+    this.plugin = plugin;
+  }
+
+  listPrompts(): MCPPromptsListResult {
+    return {
+      prompts: PROMPTS.map(({ build, ...prompt }) => prompt),
+    };
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPHandlerResult<MCPPromptGetResult>> {
+    const prompt = PROMPTS.find((p) => p.name === name);
+    if (!prompt) {
+      return { error: { code: MCPErrorCodes.INVALID_PARAMS, message: `Unknown prompt: ${name}` } };
+    }
+
+    const missing = (prompt.arguments || [])
+      .filter((arg) => arg.required && !args[arg.name]?.trim())
+      .map((arg) => arg.name);
+    if (missing.length > 0) {
+      return { error: { code: MCPErrorCodes.INVALID_PARAMS, message: `Missing required argument(s): ${missing.join(', ')}` } };
+    }
+
+    return prompt.build(args, this.plugin);
+  }
+}
@@ -0,0 +1,202 @@
+import { TFile, arrayBufferToBase64, debounce } from 'obsidian';
+import type VaultAIPlugin from '../main';
+import {
+  MCPErrorCodes,
+  MCPHandlerResult,
+  MCPResource,
+  MCPResourceReadResult,
+  MCPResourcesListResult,
+  MCPResourceTemplatesListResult,
+} from './types';
+
+const URI_SCHEME = 'vault://';
+const PAGE_SIZE = 500;
+
+const MIME_TYPES: Record<string, string> = {
+  md: 'text/markdown',
+  txt: 'text/plain',
+  canvas: 'application/json',
+  json: 'application/json',
+  css: 'text/css',
+  csv: 'text/csv',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  pdf: 'application/pdf',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  mp4: 'video/mp4',
+};
+
+const TEXT_MIME_TYPES = ['application/json', 'image/svg+xml'];
+
+// Reading a resource is held to the same folder rules as reading a note with the tool
+const READ_TOOL = 'read_note';
+
+// ============================================================================
+// Resource Handler Class
+// ============================================================================
+
+/**
+ * Exposes vault files as MCP resources under vault://path/to/file.md.
+ * Notes are listed; any vault file can be read through the template. Files in
+ * folders denied to read_note are neither listed nor readable.
+ */
+export class MCPResourceHandler {
+  private plugin: VaultAIPlugin;
+
+  constructor(plugin: VaultAIPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Notes sorted by path, paginated with an offset cursor
+   */
+  listResources(cursor?: string): MCPResourcesListResult {
+    const notes = this.plugin.app.vault.getMarkdownFiles()
+      .filter((file) => !this.plugin.toolRegistry.isPathDenied(READ_TOOL, file.path))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+    const offset = Math.max(0, parseInt(cursor || '0', 10) || 0);
+    const page = notes.slice(offset, offset + PAGE_SIZE);
+    const next = offset + PAGE_SIZE;
+
+    return {
+      resources: page.map((file) => this.toMCPResource(file)),
+      nextCursor: next < notes.length ? String(next) : undefined,
+    };
+  }
+
+  listResourceTemplates(): MCPResourceTemplatesListResult {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: `${URI_SCHEME}{path}`,
+          name: 'vault-file',
+          title: 'Vault file',
+          description: 'Any file in the vault by its path, e.g. vault://Projects/plan.md. Notes are returned as markdown with their frontmatter in _meta.',
+        },
+      ],
+    };
+  }
+
+  async readResource(uri: string): Promise<MCPHandlerResult<MCPResourceReadResult>> {
+    const path = parseResourceUri(uri);
+    if (path === null) {
+      return { error: { code: MCPErrorCodes.INVALID_PARAMS, message: `Not a vault resource URI: ${uri}` } };
+    }
+
+    if (this.plugin.toolRegistry.isPathDenied(READ_TOOL, path)) {
+      return { error: { code: MCPErrorCodes.FORBIDDEN, message: `Permission denied: ${uri} is blocked by the Vault AI tool policy` } };
+    }
+
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (!file || !(file instanceof TFile)) {
+      return { error: { code: MCPErrorCodes.RESOURCE_NOT_FOUND, message: `Resource not found: ${uri}` } };
+    }
+
+    const mimeType = getMimeType(file);
+    if (!isTextMimeType(mimeType)) {
+      const data = await this.plugin.app.vault.readBinary(file);
+      return {
+        result: {
+          contents: [{ uri: toResourceUri(file.path), mimeType, blob: arrayBufferToBase64(data) }],
+        },
+      };
+    }
+
+    const text = await this.plugin.app.vault.cachedRead(file);
+    return {
+      result: {
+        contents: [{
+          uri: toResourceUri(file.path),
+          mimeType,
+          text,
+          _meta: file.extension === 'md' ? this.getNoteMetadata(file) : undefined,
+        }],
+      },
+    };
+  }
+
+  /**
+   * Call listener when notes are created, deleted or renamed.
+   * Returns an unsubscribe function.
+   */
+  onListChanged(listener: () => void): () => void {
+    const vault = this.plugin.app.vault;
+    // Bulk moves fire one event per file; notify once
+    const notify = debounce(listener, 1000, true);
+    const refs = [
+      vault.on('create', notify),
+      vault.on('delete', notify),
+      vault.on('rename', notify),
+    ];
+
+    return () => {
+      for (const ref of refs) {
+        vault.offref(ref);
+      }
+    };
+  }
+
+  private toMCPResource(file: TFile): MCPResource {
+    const metadata = this.getNoteMetadata(file);
+    const frontmatter = metadata.frontmatter as Record<string, unknown> | undefined;
+    const description = frontmatter?.description ?? frontmatter?.summary;
+
+    return {
+      uri: toResourceUri(file.path),
+      name: file.path,
+      title: file.basename,
+      description: typeof description === 'string' ? description : undefined,
+      mimeType: getMimeType(file),
+      size: file.stat.size,
+      _meta: metadata,
+    };
+  }
+
+  private getNoteMetadata(file: TFile): Record<string, unknown> {
+    const cache = this.plugin.app.metadataCache.getFileCache(file);
+    // position is Obsidian's parser bookkeeping, not user metadata
+    const { position, ...frontmatter } = cache?.frontmatter ?? {};
+    const tags = cache?.tags?.map((t) => t.tag) ?? [];
+
+    return {
+      frontmatter: Object.keys(frontmatter).length > 0 ? frontmatter : undefined,
+      tags: tags.length > 0 ? [...new Set(tags)] : undefined,
+      created: new Date(file.stat.ctime).toISOString(),
+      modified: new Date(file.stat.mtime).toISOString(),
+    };
+  }
+}
+
+// ============================================================================
+// URI Helpers
+// ============================================================================
+
+function toResourceUri(path: string): string {
+  return URI_SCHEME + path.split('/').map(encodeURIComponent).join('/');
+}
+
+function parseResourceUri(uri: string): string | null {
+  if (!uri.startsWith(URI_SCHEME)) return null;
+
+  try {
+    const path = uri.slice(URI_SCHEME.length).split('/').map(decodeURIComponent).join('/');
+    return path.replace(/^\/+/, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+function getMimeType(file: TFile): string {
+  return MIME_TYPES[file.extension.toLowerCase()] || 'application/octet-stream';
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || TEXT_MIME_TYPES.includes(mimeType);
+}
@@ -1,26 +1,90 @@
 import * as http from 'http';
+import { randomUUID } from 'crypto';
 import type VaultAIPlugin from '../main';
 import { MCPToolHandler } from './MCPToolHandler';
+import { MCPResourceHandler } from './MCPResourceHandler';
+import { MCPPromptHandler } from './MCPPromptHandler';
+import { SSEStream } from './SSEStream';
+import {
+  getBearerToken,
+  tokensMatch,
+  isAllowedHost,
+  isAllowedOrigin,
+  parseClientAllowlist,
+} from './auth';
 import {
   MCPRequest,
   MCPResponse,
+  MCPNotification,
+  MCPError,
   MCPErrorCodes,
+  MCPInitializeParams,
   MCPInitializeResult,
   MCPToolCallParams,
+  MCPProgressParams,
+  MCPHandlerResult,
+  MCPListParams,
+  MCPResourceReadParams,
+  MCPPromptGetParams,
+  MCP_TRANSACTION_HEADER,
 } from './types';
 
-const PROTOCOL_VERSION = '2024-11-05';
+const PROTOCOL_VERSION = '2025-03-26';
+const SUPPORTED_PROTOCOL_VERSIONS = [PROTOCOL_VERSION, '2024-11-05'];
+const SESSION_HEADER = 'mcp-session-id';
+const SESSION_IDLE_TIMEOUT = 60 * 60 * 1000;
+
+interface MCPSession {
+  id: string;
+  protocolVersion: string;
+  clientName?: string;
+  lastActivity: number;
+  // Open GET streams for server-initiated messages
+  streams: Set<SSEStream>;
+}
+
+interface MCPRequestContext {
+  session?: MCPSession;
+  // Set when the HTTP request failed authentication; every JSON-RPC request gets this error
+  authError?: MCPError;
+  sendNotification?: (notification: MCPNotification) => void;
+  // Undo journal transaction tool calls join, from the MCP_TRANSACTION_HEADER
+  transactionId?: string;
+}
 
+/**
+ * MCP server using the Streamable HTTP transport on a single /mcp endpoint:
+ * - POST carries one JSON-RPC message or a batch. Replies are JSON, or an SSE stream
+ *   for tool calls when the client accepts it (so progress notifications can be sent).
+ * - GET opens an SSE stream for server-initiated notifications.
+ * - DELETE ends a session.
+ *
+ * Sessions are created on initialize and returned in the Mcp-Session-Id header.
+ * Requests without the header are still served (stateless), so simple clients keep working.
+ *
+ * Besides tools, notes are exposed as vault:// resources and the format/structure prompts as MCP prompts.
+ *
+ * Security: only loopback Host headers and local/Obsidian origins are accepted (DNS rebinding),
+ * requests must carry the bearer token from settings, and an optional allowlist
+ * restricts which clients (by clientInfo.name) may initialize.
+ */
 export class MCPServer {
   private plugin: VaultAIPlugin;
   private server: http.Server | null = null;
   private toolHandler: MCPToolHandler;
+  private resourceHandler: MCPResourceHandler;
+  private promptHandler: MCPPromptHandler;
   private port: number;
+  private sessions: Map<string, MCPSession> = new Map();
+  private unsubscribeTools: (() => void) | null = null;
+  private unsubscribeResources: (() => void) | null = null;
 
   constructor(plugin: VaultAIPlugin, port: number = 3456) {
     this.plugin = plugin;
     this.port = port;
     this.toolHandler = new MCPToolHandler(plugin);
+    this.resourceHandler = new MCPResourceHandler(plugin);
+    this.promptHandler = new MCPPromptHandler(plugin);
   }
 
   async start(): Promise<void> {
@@ -46,6 +110,12 @@ export class MCPServer {
 
       this.server.listen(this.port, '127.0.0.1', () => {
         console.log(`[MCP Server] Started on http://127.0.0.1:${this.port}`);
+        this.unsubscribeTools = this.plugin.toolRegistry.onChange(() => {
+          this.broadcast({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+        });
+        this.unsubscribeResources = this.resourceHandler.onListChanged(() => {
+          this.broadcast({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' });
+        });
         resolve();
       });
     });
@@ -56,6 +126,17 @@ export class MCPServer {
       return;
     }
 
+    this.unsubscribeTools?.();
+    this.unsubscribeTools = null;
+    this.unsubscribeResources?.();
+    this.unsubscribeResources = null;
+
+    // Open SSE streams would keep the server from closing
+    for (const session of this.sessions.values()) {
+      this.closeSession(session);
+    }
+    this.sessions.clear();
+
     return new Promise((resolve) => {
       this.server!.close(() => {
         console.log('[MCP Server] Stopped');
@@ -73,11 +154,40 @@ export class MCPServer {
     return `http://127.0.0.1:${this.port}/mcp`;
   }
 
+  /**
+   * Send a notification to every client with an open GET stream
+   */
+  broadcast(notification: MCPNotification): void {
+    for (const session of this.sessions.values()) {
+      for (const stream of session.streams) {
+        stream.send(notification);
+      }
+    }
+  }
+
   private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    // Guard against DNS rebinding and cross-site requests from browser pages
+    if (!isAllowedHost(req.headers.host, this.port)) {
+      console.warn(`[MCP Server] Rejected request with Host: ${req.headers.host}`);
+      this.sendJson(res, 403, this.errorResponse(null, MCPErrorCodes.FORBIDDEN, 'Invalid Host header'));
+      return;
+    }
+
+    const origin = req.headers.origin;
+    if (!isAllowedOrigin(origin)) {
+      console.warn(`[MCP Server] Rejected request from origin: ${origin}`);
+      this.sendJson(res, 403, this.errorResponse(null, MCPErrorCodes.FORBIDDEN, 'Origin not allowed'));
+      return;
+    }
+
     // Set CORS headers
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (origin) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+    }
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', `Content-Type, Accept, Authorization, Mcp-Session-Id, Last-Event-ID, ${MCP_TRANSACTION_HEADER}`);
+    res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
 
     // Handle preflight
     if (req.method === 'OPTIONS') {
@@ -86,45 +196,189 @@ export class MCPServer {
       return;
     }
 
-    // Only accept POST to /mcp
-    if (req.method !== 'POST' || req.url !== '/mcp') {
-      res.writeHead(404, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ error: 'Not found' }));
+    const path = (req.url || '').split('?')[0];
+    if (path !== '/mcp') {
+      this.sendJson(res, 404, { error: 'Not found' });
       return;
     }
 
-    // Read body
-    let body = '';
-    req.on('data', (chunk) => {
-      body += chunk.toString();
-    });
+    try {
+      switch (req.method) {
+        case 'POST':
+          await this.handlePost(req, res);
+          break;
+        case 'GET':
+          this.handleGet(req, res);
+          break;
+        case 'DELETE':
+          this.handleDelete(req, res);
+          break;
+        default:
+          res.setHeader('Allow', 'GET, POST, DELETE, OPTIONS');
+          this.sendJson(res, 405, { error: 'Method not allowed' });
+      }
+    } catch (error) {
+      console.error('[MCP Server] Error handling request:', error);
+      if (!res.headersSent) {
+        this.sendJson(res, 500, this.errorResponse(null, MCPErrorCodes.INTERNAL_ERROR, `Internal error: ${error}`));
+      } else if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  }
+
+  private async handlePost(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await this.readBody(req));
+    } catch (error) {
+      this.sendJson(res, 400, this.errorResponse(null, MCPErrorCodes.PARSE_ERROR, 'Failed to parse request'));
+      return;
+    }
 
-    req.on('end', async () => {
-      try {
-        const request = JSON.parse(body) as MCPRequest;
-        const response = await this.handleMCPRequest(request);
-
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(response));
-      } catch (error) {
-        console.error('[MCP Server] Error handling request:', error);
-
-        const errorResponse: MCPResponse = {
-          jsonrpc: '2.0',
-          id: 0,
-          error: {
-            code: MCPErrorCodes.PARSE_ERROR,
-            message: 'Failed to parse request',
-          },
-        };
-
-        res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(errorResponse));
+    const isBatch = Array.isArray(parsed);
+    const messages: unknown[] = isBatch ? parsed as unknown[] : [parsed];
+
+    if (messages.length === 0) {
+      this.sendJson(res, 400, this.errorResponse(null, MCPErrorCodes.INVALID_REQUEST, 'Empty batch'));
+      return;
+    }
+
+    const authError = this.authenticate(req) || undefined;
+
+    // Resolve the session; initialize gets one once it succeeds
+    const isInitialize = messages.some((m) => this.isRequest(m) && m.method === 'initialize');
+    let session: MCPSession | undefined;
+
+    if (isInitialize) {
+      if (messages.length > 1) {
+        this.sendJson(res, 400, this.errorResponse(null, MCPErrorCodes.INVALID_REQUEST, 'initialize must not be part of a batch'));
+        return;
       }
-    });
+    } else if (!authError) {
+      const sessionId = this.getSessionId(req);
+      if (sessionId) {
+        session = this.sessions.get(sessionId);
+        if (!session) {
+          // Tells the client to start over with a new initialize
+          this.sendJson(res, 404, this.errorResponse(null, MCPErrorCodes.INVALID_REQUEST, 'Session not found'));
+          return;
+        }
+        session.lastActivity = Date.now();
+      }
+    }
+
+    const status = authError ? 401 : 200;
+    const headers: Record<string, string> = authError ? { 'WWW-Authenticate': 'Bearer' } : {};
+    if (session) {
+      headers['Mcp-Session-Id'] = session.id;
+    }
+
+    const requests: MCPRequest[] = [];
+    const immediateResponses: MCPResponse[] = [];
+
+    for (const message of messages) {
+      if (this.isRequest(message)) {
+        requests.push(message);
+      } else if (this.isNotification(message)) {
+        if (!authError) {
+          this.handleNotification(message);
+        }
+      } else if (!this.isResponse(message)) {
+        const id = (message as { id?: string | number } | null)?.id ?? null;
+        immediateResponses.push(this.errorResponse(id, MCPErrorCodes.INVALID_REQUEST, 'Invalid JSON-RPC message'));
+      }
+      // Responses to server requests are ignored; this server never sends requests
+    }
+
+    // Only notifications and responses: acknowledge without a body
+    if (requests.length === 0 && immediateResponses.length === 0) {
+      if (authError) {
+        this.sendJson(res, status, this.errorResponse(null, authError.code, authError.message), headers);
+      } else {
+        res.writeHead(202, headers);
+        res.end();
+      }
+      return;
+    }
+
+    const transactionHeader = req.headers[MCP_TRANSACTION_HEADER.toLowerCase()];
+    const context: MCPRequestContext = {
+      session,
+      authError,
+      transactionId: !authError && typeof transactionHeader === 'string' ? transactionHeader : undefined,
+    };
+
+    if (isInitialize) {
+      const response = await this.handleMCPRequest(requests[0], context);
+      if (!response.error) {
+        const result = response.result as MCPInitializeResult;
+        const params = requests[0].params as MCPInitializeParams | undefined;
+        session = this.createSession(result.protocolVersion, params?.clientInfo?.name);
+        headers['Mcp-Session-Id'] = session.id;
+      }
+      this.sendJson(res, response.error?.code === MCPErrorCodes.UNAUTHORIZED ? 401 : 200, response, headers);
+      return;
+    }
+
+    // Stream tool calls when the client accepts SSE, so progress can be reported
+    const acceptsStream = (req.headers.accept || '').includes('text/event-stream');
+    if (!authError && acceptsStream && requests.some((r) => r.method === 'tools/call')) {
+      const stream = new SSEStream(res, headers);
+      context.sendNotification = (notification) => stream.send(notification);
+      for (const response of immediateResponses) {
+        stream.send(response);
+      }
+      await Promise.all(requests.map(async (request) => {
+        stream.send(await this.handleMCPRequest(request, context));
+      }));
+      stream.end();
+      return;
+    }
+
+    const responses = [
+      ...immediateResponses,
+      ...await Promise.all(requests.map((request) => this.handleMCPRequest(request, context))),
+    ];
+
+    this.sendJson(res, status, isBatch ? responses : responses[0], headers);
   }
 
-  private async handleMCPRequest(request: MCPRequest): Promise<MCPResponse> {
+  private handleGet(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!(req.headers.accept || '').includes('text/event-stream')) {
+      this.sendJson(res, 406, { error: 'GET requires Accept: text/event-stream' });
+      return;
+    }
+
+    if (!this.checkAuth(req, res)) return;
+
+    const session = this.requireSession(req, res);
+    if (!session) return;
+
+    session.lastActivity = Date.now();
+
+    const stream = new SSEStream(res, { 'Mcp-Session-Id': session.id });
+    session.streams.add(stream);
+    stream.onClose(() => session.streams.delete(stream));
+
+    console.log(`[MCP Server] Opened notification stream for session ${session.id}`);
+  }
+
+  private handleDelete(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (!this.checkAuth(req, res)) return;
+
+    const session = this.requireSession(req, res);
+    if (!session) return;
+
+    this.closeSession(session);
+    this.sessions.delete(session.id);
+
+    console.log(`[MCP Server] Session ${session.id} terminated by client`);
+    res.writeHead(200);
+    res.end();
+  }
+
+  private async handleMCPRequest(request: MCPRequest, context: MCPRequestContext): Promise<MCPResponse> {
     console.log(`[MCP Server] Received: ${request.method}`, request.params);
 
     const baseResponse = {
@@ -132,12 +386,39 @@ export class MCPServer {
       id: request.id,
     };
 
+    if (context.authError) {
+      return this.errorResponse(request.id, context.authError.code, context.authError.message);
+    }
+
+    // With an allowlist, clients must identify themselves through initialize first.
+    // Existing sessions are re-checked in case the allowlist changed since.
+    if (request.method !== 'initialize' && this.getAllowedClients().length > 0) {
+      const clientError = context.session
+        ? this.checkClientAllowed(context.session.clientName)
+        : { code: MCPErrorCodes.FORBIDDEN, message: 'A session from an allowed client is required; send initialize first' };
+      if (clientError) {
+        return this.errorResponse(request.id, clientError.code, clientError.message);
+      }
+    }
+
     try {
       switch (request.method) {
-        case 'initialize':
+        case 'initialize': {
+          const params = request.params as MCPInitializeParams | undefined;
+          const clientError = this.checkClientAllowed(params?.clientInfo?.name);
+          if (clientError) {
+            return this.errorResponse(request.id, clientError.code, clientError.message);
+          }
           return {
             ...baseResponse,
-            result: this.handleInitialize(),
+            result: this.handleInitialize(params),
+          };
+        }
+
+        case 'ping':
+          return {
+            ...baseResponse,
+            result: {},
           };
 
         case 'tools/list':
@@ -146,67 +427,293 @@ export class MCPServer {
             result: this.toolHandler.listTools(),
           };
 
-        case 'tools/call':
-          const params = request.params as MCPToolCallParams;
+        case 'tools/call': {
+          const params = request.params as unknown as MCPToolCallParams | undefined;
           if (!params?.name) {
-            return {
-              ...baseResponse,
-              error: {
-                code: MCPErrorCodes.INVALID_PARAMS,
-                message: 'Tool name is required',
-              },
-            };
+            return this.errorResponse(request.id, MCPErrorCodes.INVALID_PARAMS, 'Tool name is required');
           }
+
+          const progressToken = params._meta?.progressToken;
+          const sendNotification = context.sendNotification;
+          const onProgress = progressToken !== undefined && sendNotification
+            ? (progress: number, total?: number, message?: string) => {
+              const progressParams: MCPProgressParams = { progressToken, progress, total, message };
+              sendNotification({
+                jsonrpc: '2.0',
+                method: 'notifications/progress',
+                params: { ...progressParams },
+              });
+            }
+            : undefined;
+
+          const clientName = context.session?.clientName;
           const result = await this.toolHandler.executeTool(
             params.name,
-            params.arguments || {}
+            params.arguments || {},
+            onProgress,
+            clientName ? `MCP client "${clientName}"` : 'An MCP client',
+            context.transactionId
           );
           return {
             ...baseResponse,
             result,
           };
+        }
 
-        case 'notifications/initialized':
-          // Client acknowledgment - no response needed but return success
+        case 'resources/list': {
+          const params = request.params as MCPListParams | undefined;
           return {
             ...baseResponse,
-            result: {},
+            result: this.resourceHandler.listResources(params?.cursor),
           };
+        }
 
-        default:
+        case 'resources/templates/list':
           return {
             ...baseResponse,
-            error: {
-              code: MCPErrorCodes.METHOD_NOT_FOUND,
-              message: `Unknown method: ${request.method}`,
-            },
+            result: this.resourceHandler.listResourceTemplates(),
           };
+
+        case 'resources/read': {
+          const params = request.params as unknown as MCPResourceReadParams | undefined;
+          if (!params?.uri) {
+            return this.errorResponse(request.id, MCPErrorCodes.INVALID_PARAMS, 'Resource uri is required');
+          }
+          return this.handlerResponse(request.id, await this.resourceHandler.readResource(params.uri));
+        }
+
+        case 'prompts/list':
+          return {
+            ...baseResponse,
+            result: this.promptHandler.listPrompts(),
+          };
+
+        case 'prompts/get': {
+          const params = request.params as unknown as MCPPromptGetParams | undefined;
+          if (!params?.name) {
+            return this.errorResponse(request.id, MCPErrorCodes.INVALID_PARAMS, 'Prompt name is required');
+          }
+          return this.handlerResponse(request.id, await this.promptHandler.getPrompt(params.name, params.arguments));
+        }
+
+        default:
+          return this.errorResponse(request.id, MCPErrorCodes.METHOD_NOT_FOUND, `Unknown method: ${request.method}`);
       }
     } catch (error) {
       console.error('[MCP Server] Error processing request:', error);
-      return {
-        ...baseResponse,
-        error: {
-          code: MCPErrorCodes.INTERNAL_ERROR,
-          message: `Internal error: ${error}`,
-        },
-      };
+      return this.errorResponse(request.id, MCPErrorCodes.INTERNAL_ERROR, `Internal error: ${error}`);
+    }
+  }
+
+  private handleNotification(notification: MCPNotification): void {
+    switch (notification.method) {
+      case 'notifications/initialized':
+        console.log('[MCP Server] Client initialized');
+        break;
+
+      case 'notifications/cancelled':
+        // Tool handlers are not cancellable; the result is simply discarded by the client
+        console.log('[MCP Server] Client cancelled request:', notification.params?.requestId);
+        break;
+
+      default:
+        console.log(`[MCP Server] Ignoring notification: ${notification.method}`);
     }
   }
 
-  private handleInitialize(): MCPInitializeResult {
+  private handleInitialize(params: MCPInitializeParams | undefined): MCPInitializeResult {
+    // Use the client's version when we support it, otherwise offer our latest
+    const requested = params?.protocolVersion;
+    const protocolVersion = requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+      ? requested
+      : PROTOCOL_VERSION;
+
+    if (params?.clientInfo) {
+      console.log(`[MCP Server] Client connected: ${params.clientInfo.name} ${params.clientInfo.version}`);
+    }
+
     return {
-      protocolVersion: PROTOCOL_VERSION,
+      protocolVersion,
       serverInfo: {
         name: 'vault-ai-mcp',
         version: '1.0.0',
-        protocolVersion: PROTOCOL_VERSION,
+        protocolVersion,
       },
       capabilities: {
         tools: {
+          listChanged: true,
+        },
+        resources: {
+          subscribe: false,
+          listChanged: true,
+        },
+        prompts: {
           listChanged: false,
         },
       },
     };
   }
+
+  // ============================================================================
+  // Authentication
+  // ============================================================================
+
+  private authenticate(req: http.IncomingMessage): MCPError | null {
+    if (!this.plugin.settings.mcpRequireAuth) {
+      return null;
+    }
+
+    const token = getBearerToken(req);
+    if (!token) {
+      return { code: MCPErrorCodes.UNAUTHORIZED, message: 'Missing bearer token. Copy the MCP access token from the Vault AI settings.' };
+    }
+
+    if (!tokensMatch(token, this.plugin.settings.mcpAuthToken)) {
+      console.warn('[MCP Server] Rejected request with invalid token');
+      return { code: MCPErrorCodes.UNAUTHORIZED, message: 'Invalid bearer token' };
+    }
+
+    return null;
+  }
+
+  /**
+   * For GET/DELETE, which carry no JSON-RPC request: reply 401 directly
+   */
+  private checkAuth(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+    const authError = this.authenticate(req);
+    if (authError) {
+      this.sendJson(res, 401, this.errorResponse(null, authError.code, authError.message), { 'WWW-Authenticate': 'Bearer' });
+      return false;
+    }
+    return true;
+  }
+
+  private getAllowedClients(): string[] {
+    return parseClientAllowlist(this.plugin.settings.mcpAllowedClients);
+  }
+
+  private checkClientAllowed(clientName: string | undefined): MCPError | null {
+    const allowed = this.getAllowedClients();
+    if (allowed.length === 0) {
+      return null;
+    }
+
+    if (!clientName || !allowed.includes(clientName.toLowerCase())) {
+      console.warn(`[MCP Server] Rejected client not in allowlist: ${clientName || '(unnamed)'}`);
+      return { code: MCPErrorCodes.FORBIDDEN, message: `Client "${clientName || 'unknown'}" is not allowed to connect` };
+    }
+
+    return null;
+  }
+
+  // ============================================================================
+  // Sessions
+  // ============================================================================
+
+  private createSession(protocolVersion: string, clientName?: string): MCPSession {
+    this.pruneIdleSessions();
+
+    const session: MCPSession = {
+      id: randomUUID(),
+      protocolVersion,
+      clientName,
+      lastActivity: Date.now(),
+      streams: new Set(),
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  private requireSession(req: http.IncomingMessage, res: http.ServerResponse): MCPSession | null {
+    const sessionId = this.getSessionId(req);
+    if (!sessionId) {
+      this.sendJson(res, 400, { error: 'Missing Mcp-Session-Id header' });
+      return null;
+    }
+
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      this.sendJson(res, 404, { error: 'Session not found' });
+      return null;
+    }
+
+    return session;
+  }
+
+  private closeSession(session: MCPSession): void {
+    for (const stream of session.streams) {
+      stream.end();
+    }
+    session.streams.clear();
+  }
+
+  private pruneIdleSessions(): void {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT;
+    for (const [id, session] of this.sessions) {
+      if (session.streams.size === 0 && session.lastActivity < cutoff) {
+        this.sessions.delete(id);
+      }
+    }
+  }
+
+  private getSessionId(req: http.IncomingMessage): string | undefined {
+    const header = req.headers[SESSION_HEADER];
+    return Array.isArray(header) ? header[0] : header;
+  }
+
+  // ============================================================================
+  // Helpers
+  // ============================================================================
+
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk.toString();
+      });
+      req.on('end', () => resolve(body));
+      req.on('error', reject);
+    });
+  }
+
+  private sendJson(
+    res: http.ServerResponse,
+    status: number,
+    body: unknown,
+    headers: Record<string, string> = {}
+  ): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+
+  private errorResponse(id: string | number | null, code: number, message: string): MCPResponse {
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: { code, message },
+    };
+  }
+
+  private handlerResponse<T>(id: string | number, outcome: MCPHandlerResult<T>): MCPResponse {
+    if ('error' in outcome) {
+      return this.errorResponse(id, outcome.error.code, outcome.error.message);
+    }
+    return { jsonrpc: '2.0', id, result: outcome.result };
+  }
+
+  private isRequest(message: unknown): message is MCPRequest {
+    const m = message as Partial<MCPRequest> | null;
+    return !!m && m.jsonrpc === '2.0' && typeof m.method === 'string'
+      && (typeof m.id === 'string' || typeof m.id === 'number');
+  }
+
+  private isNotification(message: unknown): message is MCPNotification {
+    const m = message as Partial<MCPRequest> | null;
+    return !!m && m.jsonrpc === '2.0' && typeof m.method === 'string' && m.id === undefined;
+  }
+
+  private isResponse(message: unknown): message is MCPResponse {
+    const m = message as Partial<MCPResponse> | null;
+    return !!m && m.jsonrpc === '2.0' && m.id !== undefined && ('result' in m || 'error' in m);
+  }
 }
@@ -0,0 +1,69 @@
+import type * as http from 'http';
+
+const KEEPALIVE_INTERVAL = 15000;
+
+/**
+ * Server-Sent Events writer for MCP responses and server-initiated messages.
+ * Sends a comment line periodically so idle connections are not dropped by proxies.
+ */
+export class SSEStream {
+  private res: http.ServerResponse;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  private nextEventId = 1;
+  private closed = false;
+  private closeListeners: Array<() => void> = [];
+
+  constructor(res: http.ServerResponse, headers: Record<string, string> = {}) {
+    this.res = res;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      ...headers,
+    });
+    res.flushHeaders();
+
+    this.keepAliveTimer = setInterval(() => {
+      if (!this.closed) {
+        this.res.write(': keepalive\n\n');
+      }
+    }, KEEPALIVE_INTERVAL);
+
+    // Client disconnected
+    res.on('close', () => this.end());
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  send(message: unknown): void {
+    if (this.closed) return;
+
+    const id = this.nextEventId++;
+    this.res.write(`id: ${id}\nevent: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  onClose(listener: () => void): void {
+    this.closeListeners.push(listener);
+  }
+
+  end(): void {
+    if (this.closed) return;
+    this.closed = true;
+
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+
+    if (!this.res.writableEnded) {
+      this.res.end();
+    }
+
+    for (const listener of this.closeListeners) {
+      listener();
+    }
+  }
+}
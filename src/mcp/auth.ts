@@ -0,0 +1,64 @@
+import type * as http from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+
+// Origins that may call the server from a browser context (Obsidian itself and local pages)
+const LOCAL_HOSTNAMES = ['127.0.0.1', 'localhost', '[::1]'];
+const OBSIDIAN_ORIGIN = 'app://obsidian.md';
+
+export function generateAuthToken(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Extract the token from an "Authorization: Bearer <token>" header
+ */
+export function getBearerToken(req: http.IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+export function tokensMatch(provided: string, expected: string): boolean {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  // timingSafeEqual throws on length mismatch
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Reject requests whose Host header is not the loopback address we listen on.
+ * A DNS-rebinding page reaches 127.0.0.1 under its own hostname, which shows up here.
+ */
+export function isAllowedHost(host: string | undefined, port: number): boolean {
+  if (!host) return false;
+  return LOCAL_HOSTNAMES.some((name) => host === `${name}:${port}` || host === name);
+}
+
+/**
+ * Non-browser clients send no Origin. Browsers always do on cross-origin requests,
+ * so only Obsidian and pages served from loopback are let through.
+ */
+export function isAllowedOrigin(origin: string | undefined): boolean {
+  if (!origin) return true;
+  if (origin === OBSIDIAN_ORIGIN) return true;
+
+  try {
+    const url = new URL(origin);
+    return (url.protocol === 'http:' || url.protocol === 'https:')
+      && LOCAL_HOSTNAMES.includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse the client allowlist setting (one client name per line). Empty means any client.
+ */
+export function parseClientAllowlist(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim().toLowerCase())
+    .filter((line) => line.length > 0);
+}
@@ -1,3 +1,6 @@
 export { MCPServer } from './MCPServer';
-export { MCPToolHandler, MCP_TOOLS } from './MCPToolHandler';
+export { MCPToolHandler } from './MCPToolHandler';
+export { MCPResourceHandler } from './MCPResourceHandler';
+export { MCPPromptHandler } from './MCPPromptHandler';
 export * from './types';
+export { generateAuthToken } from './auth';
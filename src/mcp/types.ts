@@ -13,11 +13,23 @@ export interface MCPRequest {
 
 export interface MCPResponse {
   jsonrpc: '2.0';
-  id: string | number;
+  id: string | number | null;
   result?: unknown;
   error?: MCPError;
 }
 
+// A request without an id; the receiver never replies
+export interface MCPNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export type MCPMessage = MCPRequest | MCPNotification | MCPResponse;
+
+// Sent by the chat view with LM Studio's MCP requests: tool calls of one chat turn join its undo journal transaction
+export const MCP_TRANSACTION_HEADER = 'X-Vault-AI-Transaction';
+
 export interface MCPError {
   code: number;
   message: string;
@@ -31,6 +43,10 @@ export const MCPErrorCodes = {
   METHOD_NOT_FOUND: -32601,
   INVALID_PARAMS: -32602,
   INTERNAL_ERROR: -32603,
+  // Implementation-defined server errors
+  UNAUTHORIZED: -32001,
+  RESOURCE_NOT_FOUND: -32002,
+  FORBIDDEN: -32003,
 } as const;
 
 // ============================================================================
@@ -39,12 +55,20 @@ export const MCPErrorCodes = {
 
 export interface MCPToolSchema {
   name: string;
+  title?: string;
   description: string;
   inputSchema: {
     type: 'object';
     properties: Record<string, MCPPropertySchema>;
     required: string[];
   };
+  annotations?: MCPToolAnnotations;
+}
+
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
 }
 
 export interface MCPPropertySchema {
@@ -69,6 +93,22 @@ export interface MCPCapabilities {
   tools?: {
     listChanged?: boolean;
   };
+  resources?: {
+    subscribe?: boolean;
+    listChanged?: boolean;
+  };
+  prompts?: {
+    listChanged?: boolean;
+  };
+}
+
+export interface MCPInitializeParams {
+  protocolVersion?: string;
+  capabilities?: Record<string, unknown>;
+  clientInfo?: {
+    name: string;
+    version: string;
+  };
 }
 
 export interface MCPInitializeResult {
@@ -84,6 +124,16 @@ export interface MCPInitializeResult {
 export interface MCPToolCallParams {
   name: string;
   arguments: Record<string, unknown>;
+  _meta?: {
+    progressToken?: string | number;
+  };
+}
+
+export interface MCPProgressParams {
+  progressToken: string | number;
+  progress: number;
+  total?: number;
+  message?: string;
 }
 
 export interface MCPToolResult {
@@ -106,6 +156,100 @@ export interface MCPToolsListResult {
   tools: MCPToolSchema[];
 }
 
+// ============================================================================
+// MCP Resource Types
+// ============================================================================
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+  _meta?: Record<string, unknown>;
+}
+
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourcesListResult {
+  resources: MCPResource[];
+  nextCursor?: string;
+}
+
+export interface MCPResourceTemplatesListResult {
+  resourceTemplates: MCPResourceTemplate[];
+}
+
+export interface MCPListParams {
+  cursor?: string;
+}
+
+export interface MCPResourceReadParams {
+  uri: string;
+}
+
+// Exactly one of text or blob (base64) is set
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+  _meta?: Record<string, unknown>;
+}
+
+export interface MCPResourceReadResult {
+  contents: MCPResourceContents[];
+}
+
+// ============================================================================
+// MCP Prompt Types
+// ============================================================================
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptsListResult {
+  prompts: MCPPrompt[];
+}
+
+export interface MCPPromptGetParams {
+  name: string;
+  arguments?: Record<string, string>;
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: {
+    type: 'text';
+    text: string;
+  };
+}
+
+export interface MCPPromptGetResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+// Handler outcome for methods that can fail with a specific JSON-RPC error
+export type MCPHandlerResult<T> = { result: T } | { error: MCPError };
+
 // ============================================================================
 // LMStudio Integration Types
 // ============================================================================
@@ -114,6 +258,7 @@ export interface LMStudioMCPIntegration {
   type: 'ephemeral_mcp';
   server_label: string;
   server_url: string;
+  headers?: Record<string, string>;
 }
 
 // ============================================================================
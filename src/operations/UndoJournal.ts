@@ -0,0 +1,462 @@
+import { TFile, TFolder } from 'obsidian';
+import type VaultAIPlugin from '../main';
+import {
+  FileOperation,
+  UndoableOperation,
+  UndoMergeHandler,
+  UndoTransaction,
+  UndoTransactionState,
+} from '../types';
+import { FileOperations } from './FileOperations';
+import { hashContent } from './contentHash';
+
+const JOURNAL_FILE = 'undo-journal.jsonl';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lines of the journal file. The current state is rebuilt by replaying them in order.
+ */
+type JournalRecord =
+  | { kind: 'commit'; transaction: UndoTransaction }
+  | { kind: 'state'; id: string; state: UndoTransactionState; fingerprints: Record<string, string | null> };
+
+/**
+ * A path edited since the transaction was last applied or undone. Mergeable paths are
+ * notes only modified by the transaction, so the user's edits can be merged in.
+ */
+export interface UndoConflict {
+  path: string;
+  mergeable: boolean;
+}
+
+/**
+ * Persistent undo/redo history, stored as an append-only log in the plugin folder.
+ *
+ * Changes are recorded as transactions. Callers can open a transaction (e.g. for one
+ * agent turn) and record several operations into it; operations recorded without one
+ * become a transaction of their own. Any transaction can be undone or redone as long as
+ * the files it touched have not been edited since, or the edits can be merged.
+ */
+export class UndoJournal {
+  private plugin: VaultAIPlugin;
+  private fileOps: FileOperations;
+  // Oldest first
+  private transactions: UndoTransaction[] = [];
+  // Ids of undone transactions, most recently undone last; cleared by new changes
+  private redoStack: string[] = [];
+  private openTransactions: Map<string, UndoTransaction> = new Map();
+  private recordCount = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private changeListeners: Set<() => void> = new Set();
+  private mergeHandler: UndoMergeHandler | null = null;
+
+  constructor(plugin: VaultAIPlugin) {
+    this.plugin = plugin;
+    this.fileOps = new FileOperations(plugin.app);
+  }
+
+  async load(): Promise<void> {
+    const adapter = this.plugin.app.vault.adapter;
+    const path = this.getJournalPath();
+
+    if (!(await adapter.exists(path))) {
+      return;
+    }
+
+    const lines = (await adapter.read(path)).split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this.replay(JSON.parse(line) as JournalRecord);
+        this.recordCount++;
+      } catch (error) {
+        // A crash mid-append can leave a partial last line
+        console.warn('[Vault AI] Skipping unreadable undo journal line:', error);
+      }
+    }
+
+    const dropped = this.applyRetention();
+    await this.compact(dropped);
+  }
+
+  /**
+   * Subscribe to history changes. Returns an unsubscribe function.
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Set the handler asked to merge notes edited since a change. Without one, such
+   * edits block undo and redo.
+   */
+  setMergeHandler(handler: UndoMergeHandler | null): void {
+    this.mergeHandler = handler;
+  }
+
+  /**
+   * Start collecting operations into one transaction. Returns its id, to pass to
+   * push() and commitTransaction().
+   */
+  beginTransaction(description: string, source?: string): string {
+    const id = this.generateId();
+    this.openTransactions.set(id, {
+      id,
+      timestamp: Date.now(),
+      description,
+      source,
+      operations: [],
+      reverseOperations: [],
+      state: 'applied',
+      fingerprints: {},
+    });
+    return id;
+  }
+
+  /**
+   * Save an open transaction. Transactions without operations are discarded.
+   */
+  async commitTransaction(id: string): Promise<void> {
+    const transaction = this.openTransactions.get(id);
+    if (!transaction) return;
+
+    this.openTransactions.delete(id);
+    if (transaction.operations.length === 0) return;
+
+    await this.commit(transaction);
+  }
+
+  /**
+   * Record an operation that has already been applied to the vault. With the id of an
+   * open transaction it joins that transaction; otherwise it is saved on its own.
+   */
+  push(operation: UndoableOperation, transactionId?: string, source?: string): Promise<void> {
+    const open = transactionId ? this.openTransactions.get(transactionId) : undefined;
+    if (open) {
+      open.operations.push(...operation.operations);
+      // Later operations are undone first
+      open.reverseOperations = [...operation.reverseOperations, ...open.reverseOperations];
+      return Promise.resolve();
+    }
+
+    // Fresh id: operation ids are only timestamp-based
+    return this.commit({ ...operation, id: this.generateId(), source, state: 'applied', fingerprints: {} });
+  }
+
+  /**
+   * Undo the most recent applied transaction
+   */
+  async undo(): Promise<UndoTransaction | null> {
+    const transaction = [...this.transactions].reverse().find((t) => t.state === 'applied');
+    if (!transaction) return null;
+
+    await this.revert(transaction.id);
+    return transaction;
+  }
+
+  /**
+   * Reapply the most recently undone transaction
+   */
+  async redo(): Promise<UndoTransaction | null> {
+    const id = this.redoStack[this.redoStack.length - 1];
+    if (!id) return null;
+
+    await this.reapply(id);
+    return this.getTransaction(id) ?? null;
+  }
+
+  /**
+   * Undo a specific applied transaction. Throws if its files changed since and
+   * cannot be merged.
+   */
+  async revert(id: string): Promise<void> {
+    const transaction = this.requireTransaction(id, 'applied');
+    const merged = await this.execute(transaction, 'undo');
+
+    this.redoStack.push(id);
+    await this.setState(transaction, 'undone', merged);
+  }
+
+  /**
+   * Redo a specific undone transaction. Throws if its files changed since the undo
+   * and cannot be merged.
+   */
+  async reapply(id: string): Promise<void> {
+    const transaction = this.requireTransaction(id, 'undone');
+    const merged = await this.execute(transaction, 'redo');
+
+    this.redoStack = this.redoStack.filter((redoId) => redoId !== id);
+    await this.setState(transaction, 'applied', merged);
+  }
+
+  /**
+   * Paths touched by the transaction that were edited since it was last applied or undone
+   */
+  async findConflicts(transaction: UndoTransaction): Promise<UndoConflict[]> {
+    const paths = Object.keys(transaction.fingerprints);
+    const current = await this.fingerprint(paths);
+
+    return paths
+      .filter((path) => current[path] !== transaction.fingerprints[path])
+      .map((path) => ({
+        path,
+        mergeable:
+          this.plugin.app.vault.getAbstractFileByPath(path) instanceof TFile &&
+          [...transaction.operations, ...transaction.reverseOperations]
+            .filter((op) => op.sourcePath === path || op.targetPath === path)
+            .every((op) => op.type === 'modify'),
+      }));
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  getTransaction(id: string): UndoTransaction | undefined {
+    return this.transactions.find((t) => t.id === id);
+  }
+
+  /**
+   * All saved transactions, oldest first
+   */
+  getHistory(): UndoTransaction[] {
+    return [...this.transactions];
+  }
+
+  async clear(): Promise<void> {
+    this.transactions = [];
+    this.redoStack = [];
+    await this.compact(true);
+    this.notifyChange();
+  }
+
+  get length(): number {
+    return this.transactions.length;
+  }
+
+  // ============================================================================
+  // Internals
+  // ============================================================================
+
+  private async commit(transaction: UndoTransaction): Promise<void> {
+    transaction.fingerprints = await this.fingerprint(getTouchedPaths(transaction));
+    this.transactions.push(transaction);
+    // A new change makes undone transactions unsafe to redo in order
+    this.redoStack = [];
+
+    await this.append({ kind: 'commit', transaction });
+
+    if (this.applyRetention()) {
+      await this.compact();
+    }
+    this.notifyChange();
+  }
+
+  /**
+   * Run the reverse (undo) or forward (redo) operations of a transaction, merging in
+   * edits made since. Returns fingerprints to record for the merged notes.
+   */
+  private async execute(transaction: UndoTransaction, action: 'undo' | 'redo'): Promise<Record<string, string>> {
+    const conflicts = await this.findConflicts(transaction);
+    const blocking = conflicts.filter((c) => !c.mergeable || !this.mergeHandler).map((c) => c.path);
+    if (blocking.length > 0) {
+      throw new Error(`Cannot ${action} "${transaction.description}": ${blocking.join(', ')} changed since`);
+    }
+
+    const applied = action === 'undo' ? transaction.operations : transaction.reverseOperations;
+    let pending = action === 'undo' ? transaction.reverseOperations : transaction.operations;
+    const merged: Record<string, string> = {};
+
+    // Collect every merge before touching the vault, so cancelling one leaves it unchanged
+    for (const { path } of conflicts) {
+      const file = this.plugin.app.vault.getAbstractFileByPath(path) as TFile;
+      const target = getFinalContent(pending, path);
+      const content = await this.mergeHandler!({
+        action,
+        transaction,
+        path,
+        base: getFinalContent(applied, path),
+        current: await this.plugin.app.vault.read(file),
+        target,
+      });
+      if (content === null) {
+        throw new Error(`Cancelled ${action} of "${transaction.description}"`);
+      }
+
+      pending = [...pending.filter((op) => op.sourcePath !== path), { type: 'modify', sourcePath: path, content }];
+      // Fingerprint what undo/redo alone would have written, so the user's edits
+      // merged in here are detected (and merged again) on the next undo/redo
+      merged[path] = hashContent(target);
+    }
+
+    await this.fileOps.executeOperations(pending, `${action === 'undo' ? 'Undo' : 'Redo'}: ${transaction.description}`);
+    return merged;
+  }
+
+  private async setState(
+    transaction: UndoTransaction,
+    state: UndoTransactionState,
+    merged: Record<string, string> = {}
+  ): Promise<void> {
+    transaction.state = state;
+    transaction.fingerprints = {
+      ...(await this.fingerprint(Object.keys(transaction.fingerprints))),
+      ...merged,
+    };
+
+    await this.append({ kind: 'state', id: transaction.id, state, fingerprints: transaction.fingerprints });
+    this.notifyChange();
+  }
+
+  private replay(record: JournalRecord): void {
+    if (record.kind === 'commit') {
+      this.transactions.push(record.transaction);
+      this.redoStack = [];
+      return;
+    }
+
+    const transaction = this.getTransaction(record.id);
+    if (!transaction) return;
+
+    transaction.state = record.state;
+    transaction.fingerprints = record.fingerprints;
+    this.redoStack = this.redoStack.filter((id) => id !== record.id);
+    if (record.state === 'undone') {
+      this.redoStack.push(record.id);
+    }
+  }
+
+  /**
+   * Drop transactions beyond the configured count or age. Returns true if any were dropped.
+   */
+  private applyRetention(): boolean {
+    const { undoHistoryLimit, undoRetentionDays } = this.plugin.settings;
+    const before = this.transactions.length;
+
+    if (undoRetentionDays > 0) {
+      const cutoff = Date.now() - undoRetentionDays * DAY_MS;
+      this.transactions = this.transactions.filter((t) => t.timestamp >= cutoff);
+    }
+    if (undoHistoryLimit > 0 && this.transactions.length > undoHistoryLimit) {
+      this.transactions = this.transactions.slice(-undoHistoryLimit);
+    }
+
+    if (this.transactions.length === before) {
+      return false;
+    }
+
+    const kept = new Set(this.transactions.map((t) => t.id));
+    this.redoStack = this.redoStack.filter((id) => kept.has(id));
+    return true;
+  }
+
+  /**
+   * Rewrite the journal as one commit per transaction (plus the redo order) when state
+   * records have piled up or transactions were dropped
+   */
+  private async compact(force = false): Promise<void> {
+    const expected = this.transactions.length + this.redoStack.length;
+    if (!force && this.recordCount <= expected * 2 + 10) {
+      return;
+    }
+
+    const records: JournalRecord[] = [
+      ...this.transactions.map((transaction): JournalRecord => ({ kind: 'commit', transaction })),
+      ...this.redoStack.map((id): JournalRecord => {
+        const transaction = this.getTransaction(id)!;
+        return { kind: 'state', id, state: transaction.state, fingerprints: transaction.fingerprints };
+      }),
+    ];
+
+    this.recordCount = records.length;
+    const content = records.map((record) => JSON.stringify(record) + '\n').join('');
+    await this.enqueueWrite(() => this.plugin.app.vault.adapter.write(this.getJournalPath(), content));
+  }
+
+  private async append(record: JournalRecord): Promise<void> {
+    this.recordCount++;
+    const line = JSON.stringify(record) + '\n';
+    await this.enqueueWrite(async () => {
+      const adapter = this.plugin.app.vault.adapter;
+      const path = this.getJournalPath();
+      if (await adapter.exists(path)) {
+        await adapter.append(path, line);
+      } else {
+        await adapter.write(path, line);
+      }
+    });
+  }
+
+  // Keeps appends and rewrites from interleaving
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(write);
+    this.writeQueue = result.catch((error) => {
+      console.error('[Vault AI] Failed to write undo journal:', error);
+    });
+    return result;
+  }
+
+  private async fingerprint(paths: string[]): Promise<Record<string, string | null>> {
+    const vault = this.plugin.app.vault;
+    const fingerprints: Record<string, string | null> = {};
+
+    for (const path of paths) {
+      const file = vault.getAbstractFileByPath(path);
+      if (file instanceof TFile) {
+        fingerprints[path] = hashContent(await vault.read(file));
+      } else if (file instanceof TFolder) {
+        // Undoing a folder creation trashes the folder, so its contents matter too
+        fingerprints[path] = 'folder:' + hashContent(file.children.map((c) => c.name).sort().join('\n'));
+      } else {
+        fingerprints[path] = null;
+      }
+    }
+
+    return fingerprints;
+  }
+
+  private requireTransaction(id: string, state: UndoTransactionState): UndoTransaction {
+    const transaction = this.getTransaction(id);
+    if (!transaction) {
+      throw new Error(`Unknown transaction: ${id}`);
+    }
+    if (transaction.state !== state) {
+      throw new Error(`"${transaction.description}" is already ${transaction.state}`);
+    }
+    return transaction;
+  }
+
+  private getJournalPath(): string {
+    return this.plugin.getPluginFilePath(JOURNAL_FILE);
+  }
+
+  private generateId(): string {
+    return `tx-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Content of a note after running the operations, which only modify it
+ */
+function getFinalContent(operations: FileOperation[], path: string): string {
+  const modifications = operations.filter((op) => op.type === 'modify' && op.sourcePath === path);
+  return modifications[modifications.length - 1]?.content ?? '';
+}
+
+function getTouchedPaths(transaction: UndoableOperation): string[] {
+  const paths = new Set<string>();
+  const add = (op: FileOperation) => {
+    paths.add(op.sourcePath);
+    if (op.targetPath) paths.add(op.targetPath);
+  };
+  transaction.operations.forEach(add);
+  transaction.reverseOperations.forEach(add);
+  return [...paths];
+}
@@ -0,0 +1,191 @@
+/**
+ * Line-based diffing and three-way merging of note content
+ */
+
+export interface MergeConflict {
+  type: 'conflict';
+  base: string[];
+  ours: string[];
+  theirs: string[];
+}
+
+export type MergeHunk = { type: 'stable'; lines: string[] } | MergeConflict;
+
+export interface MergeResult {
+  hunks: MergeHunk[];
+  conflicts: number;
+}
+
+/**
+ * Index pairs [indexInA, indexInB] of a longest common subsequence of lines,
+ * in increasing order
+ */
+export function matchLines(a: string[], b: string[]): Array<[number, number]> {
+  // Common prefix and suffix match trivially and keep the DP table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const m = endA - start;
+  const n = endB - start;
+
+  // DP table
+  const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
+
+  for (let i = 1; i <= m; i++) {
+    for (let j = 1; j <= n; j++) {
+      if (a[start + i - 1] === b[start + j - 1]) {
+        dp[i][j] = dp[i - 1][j - 1] + 1;
+      } else {
+        dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
+      }
+    }
+  }
+
+  // Backtrack to find the matched lines
+  const middle: Array<[number, number]> = [];
+  let i = m;
+  let j = n;
+
+  while (i > 0 && j > 0) {
+    if (a[start + i - 1] === b[start + j - 1]) {
+      middle.unshift([start + i - 1, start + j - 1]);
+      i--;
+      j--;
+    } else if (dp[i - 1][j] > dp[i][j - 1]) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  const matches: Array<[number, number]> = [];
+  for (let k = 0; k < start; k++) {
+    matches.push([k, k]);
+  }
+  matches.push(...middle);
+  for (let k = 0; k < a.length - endA; k++) {
+    matches.push([endA + k, endB + k]);
+  }
+  return matches;
+}
+
+/**
+ * Longest common subsequence of two line (or word) sequences
+ */
+export function longestCommonSubsequence(a: string[], b: string[]): string[] {
+  return matchLines(a, b).map(([i]) => a[i]);
+}
+
+/**
+ * Merge two edited versions of the same text (diff3). Regions changed on only one
+ * side are taken from that side; regions changed differently on both sides become
+ * conflicts.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = base.split('\n');
+  const oursLines = ours.split('\n');
+  const theirsLines = theirs.split('\n');
+
+  // For each base line, the matching line index in ours / theirs, or -1
+  const oursOf = mapMatches(baseLines.length, matchLines(baseLines, oursLines));
+  const theirsOf = mapMatches(baseLines.length, matchLines(baseLines, theirsLines));
+
+  const hunks: MergeHunk[] = [];
+  let conflicts = 0;
+  let o = 0;
+  let a = 0;
+  let b = 0;
+
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = hunks[hunks.length - 1];
+    if (last && last.type === 'stable') {
+      last.lines.push(...lines);
+    } else {
+      hunks.push({ type: 'stable', lines: [...lines] });
+    }
+  };
+
+  const pushChanged = (baseChunk: string[], oursChunk: string[], theirsChunk: string[]) => {
+    if (sameLines(oursChunk, baseChunk)) {
+      pushStable(theirsChunk);
+    } else if (sameLines(theirsChunk, baseChunk) || sameLines(oursChunk, theirsChunk)) {
+      pushStable(oursChunk);
+    } else {
+      hunks.push({ type: 'conflict', base: baseChunk, ours: oursChunk, theirs: theirsChunk });
+      conflicts++;
+    }
+  };
+
+  while (o < baseLines.length || a < oursLines.length || b < theirsLines.length) {
+    // Lines unchanged on both sides
+    let k = 0;
+    while (o + k < baseLines.length && oursOf[o + k] === a + k && theirsOf[o + k] === b + k) {
+      k++;
+    }
+    if (k > 0) {
+      pushStable(baseLines.slice(o, o + k));
+      o += k;
+      a += k;
+      b += k;
+      continue;
+    }
+
+    // Next base line kept by both sides ends the changed region
+    let next = o;
+    while (next < baseLines.length && (oursOf[next] === -1 || theirsOf[next] === -1)) {
+      next++;
+    }
+
+    if (next === baseLines.length) {
+      pushChanged(baseLines.slice(o), oursLines.slice(a), theirsLines.slice(b));
+      break;
+    }
+
+    pushChanged(baseLines.slice(o, next), oursLines.slice(a, oursOf[next]), theirsLines.slice(b, theirsOf[next]));
+    o = next;
+    a = oursOf[next];
+    b = theirsOf[next];
+  }
+
+  return { hunks, conflicts };
+}
+
+/**
+ * Join merge hunks back into text, picking the lines of each conflict with `resolve`
+ */
+export function joinMergeHunks(
+  hunks: MergeHunk[],
+  resolve: (conflict: MergeConflict, index: number) => string[]
+): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+  for (const hunk of hunks) {
+    if (hunk.type === 'stable') {
+      lines.push(...hunk.lines);
+    } else {
+      lines.push(...resolve(hunk, conflictIndex++));
+    }
+  }
+  return lines.join('\n');
+}
+
+function mapMatches(length: number, matches: Array<[number, number]>): number[] {
+  const map: number[] = new Array(length).fill(-1);
+  for (const [i, j] of matches) {
+    map[i] = j;
+  }
+  return map;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
@@ -43,6 +43,7 @@ export function buildSearchToolPrompt(userQuery: string, scope: ContextScope): s
   const scopeDescription = {
     current: 'the currently open note only',
     linked: 'the current note and all notes linked to/from it',
+    graph: 'the current note and notes within a few links of it',
     folder: 'all notes in the current folder',
     vault: 'the entire vault',
   };
@@ -1,3 +1,8 @@
+import type { ContextBudget } from '../llm/ContextBudget';
+
+// Suggestions repeat the text they change, so the reply needs a large share of the context
+export const FORMAT_OUTPUT_SHARE = 0.4;
+
 export const FORMAT_SYSTEM_PROMPT = `You are an expert markdown formatter for Obsidian notes. Your role is to analyze markdown documents and suggest formatting improvements based on best practices.
 
 ## Markdown Best Practices:
@@ -92,3 +97,13 @@ ${customInstructions}`;
 
   return prompt;
 }
+
+/**
+ * buildFormatPrompt with the note cut to what the budget has left, so only the
+ * start of a note too long for the model is analyzed
+ */
+export function buildFittedFormatPrompt(budget: ContextBudget, content: string, customInstructions: string): string {
+  budget.reserve('system', FORMAT_SYSTEM_PROMPT);
+  budget.reserve('input', buildFormatPrompt('', customInstructions));
+  return buildFormatPrompt(budget.fit('context', content, 'note'), customInstructions);
+}
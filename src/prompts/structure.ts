@@ -1,3 +1,5 @@
+import type { ContextBudget } from '../llm/ContextBudget';
+
 export const STRUCTURE_SYSTEM_PROMPT = `You are an expert at organizing knowledge bases and file systems. Your role is to analyze the structure of an Obsidian vault and suggest improvements for better organization.
 
 ## Organization Principles:
@@ -94,3 +96,12 @@ Focus on:
 
 Be conservative with suggestions - only propose changes that provide clear value.`;
 }
+
+/**
+ * buildStructurePrompt with the file list cut to what the budget has left
+ */
+export function buildFittedStructurePrompt(budget: ContextBudget, fileList: string, scope: string): string {
+  budget.reserve('system', STRUCTURE_SYSTEM_PROMPT);
+  budget.reserve('input', buildStructurePrompt('', scope));
+  return buildStructurePrompt(budget.fit('context', fileList, 'file list'), scope);
+}
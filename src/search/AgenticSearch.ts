@@ -1,119 +1,93 @@
 import type VaultAIPlugin from '../main';
 import { VaultSearch } from './VaultSearch';
+import { HybridRetriever, formatChunkForPrompt, packChunks } from './HybridRetriever';
+import { CITATION_INSTRUCTIONS, validateCitations } from './citations';
+import { ContextBudget } from '../llm/ContextBudget';
 import {
   ContextScope,
   AgenticSearchResult,
+  SearchContext,
   SearchStep,
+  SearchResult,
   LLMMessage,
+  RetrievedChunk,
 } from '../types';
 
+// Tokens kept free for the model's answer
+const ANSWER_RESERVE_TOKENS = 1024;
+// Passages given to the model even when the configured context length is tiny
+const MIN_CONTEXT_TOKENS = 500;
+// Search hops when maxSearchIterations is not set
+const DEFAULT_MAX_HOPS = 5;
+// New passages kept from each search or opened note
+const CHUNKS_PER_HOP = 8;
+// Follow-up work the model may request per hop
+const MAX_FOLLOW_UP_QUERIES = 3;
+const MAX_NOTES_PER_HOP = 3;
+// Linked notes offered to the model, and characters shown per passage when judging
+const MAX_LINKED_NOTES_LISTED = 20;
+const EVALUATION_EXCERPT_CHARS = 300;
+
+const ANSWER_SYSTEM_PROMPT = `You are a helpful assistant that answers questions based on the user's personal notes.
+Be concise and helpful. When answering:
+- Directly answer the question based on the provided notes
+- Mention which notes contain the relevant information
+- If the notes don't contain enough information to fully answer, say so
+- Do not make up information that isn't in the notes
+${CITATION_INSTRUCTIONS}`;
+
+const EVALUATION_SYSTEM_PROMPT = `You decide whether passages from a user's notes are enough to answer their question.
+Reply with only a JSON object:
+{"answered": true or false, "reasoning": "one or two sentences", "queries": ["follow-up search"], "notes": ["linked note path"]}
+
+- Set "answered" to true when the passages contain the information needed to answer
+- Otherwise suggest up to 3 new searches in "queries": other words, names or related topics the notes might use. Do not repeat earlier searches
+- and/or up to 3 notes from the linked notes list to read in "notes"
+- Leave both lists empty if nothing else is likely to help`;
+
+interface ContextEvaluation {
+  answered: boolean;
+  reasoning: string;
+  queries: string[];
+  notes: string[];
+}
+
 export class AgenticSearch {
   private plugin: VaultAIPlugin;
   private vaultSearch: VaultSearch;
 
   constructor(plugin: VaultAIPlugin) {
     this.plugin = plugin;
-    this.vaultSearch = new VaultSearch(plugin.app);
+    this.vaultSearch = new VaultSearch(plugin.app, plugin.keywordIndex, plugin.settings);
   }
 
+  /**
+   * Answer a question from the vault, citing the passages used. Answers that cite
+   * passages they were not given have those links removed.
+   */
   async search(
     userQuery: string,
     scope: ContextScope
   ): Promise<AgenticSearchResult> {
-    const steps: SearchStep[] = [];
-    const collectedSources = new Set<string>();
-    const collectedContext: string[] = [];
-
-    // Get current file path for scoped searches
-    const currentFile = this.plugin.app.workspace.getActiveFile();
-    const currentFilePath = currentFile?.path;
-
-    console.log('[Vault AI] Starting search for:', userQuery);
-    console.log('[Vault AI] Scope:', scope);
-    console.log('[Vault AI] Current file:', currentFilePath);
-
-    // Step 1: Extract search terms from the query
-    const searchTerms = this.extractSearchTerms(userQuery);
-    console.log('[Vault AI] Extracted search terms:', searchTerms);
-
-    steps.push({
-      iteration: 1,
-      action: 'Extract search terms',
-      query: searchTerms.join(', '),
-      reasoning: `Extracted keywords from query: ${searchTerms.join(', ')}`,
-      results: [],
-    });
+    const { sources, steps, chunks, budget } = await this.retrieveContext(userQuery, scope);
 
-    // Step 2: Search the vault
-    const searchResults = await this.vaultSearch.searchFiles(
-      searchTerms.join(' '),
-      scope,
-      currentFilePath
-    );
-
-    console.log('[Vault AI] Search results:', searchResults.length, 'files found');
-
-    steps.push({
-      iteration: 2,
-      action: 'Search vault',
-      query: searchTerms.join(' '),
-      reasoning: `Found ${searchResults.length} file(s) with matches`,
-      results: searchResults,
-    });
-
-    // Collect context from search results
-    // Limit total context to avoid exceeding model's context window
-    const MAX_FILES = 3;
-    const MAX_CHARS_PER_FILE = 1500;
-    const MAX_TOTAL_CHARS = 4000;
-    let totalChars = 0;
-
-    for (const result of searchResults.slice(0, MAX_FILES)) {
-      if (totalChars >= MAX_TOTAL_CHARS) {
-        console.log('[Vault AI] Reached max total context, stopping file collection');
-        break;
-      }
-
-      collectedSources.add(result.filePath);
-
-      // Get context by reading the file
-      const fileContent = await this.vaultSearch.getFileContent(result.filePath);
-      if (fileContent) {
-        // Calculate how much we can take from this file
-        const remainingBudget = MAX_TOTAL_CHARS - totalChars;
-        const charsToTake = Math.min(fileContent.length, MAX_CHARS_PER_FILE, remainingBudget);
-        const truncatedContent = fileContent.slice(0, charsToTake);
-
-        collectedContext.push(
-          `## From: ${result.fileName}\n\n${truncatedContent}${fileContent.length > charsToTake ? '\n\n[Content truncated...]' : ''}`
-        );
-        totalChars += truncatedContent.length;
-        console.log(`[Vault AI] Added ${truncatedContent.length} chars from ${result.fileName}, total: ${totalChars}`);
-      }
-    }
-
-    // Step 3: If we have context, ask the LLM to answer
-    if (collectedContext.length > 0) {
-      console.log('[Vault AI] Generating answer from', collectedContext.length, 'sources');
+    // If we have context, ask the LLM to answer
+    if (chunks.length > 0) {
+      console.log('[Vault AI] Generating answer from', chunks.length, 'passages');
 
       steps.push({
-        iteration: 3,
+        iteration: steps.length + 1,
         action: 'Generate answer',
-        reasoning: `Synthesizing answer from ${collectedContext.length} source(s)`,
+        reasoning: `Synthesizing answer from ${chunks.length} passage(s) in ${sources.length} note(s)`,
         results: [],
       });
 
-      const answerPrompt = this.buildAnswerPrompt(userQuery, collectedContext);
+      const answerPrompt = this.buildAnswerPrompt(userQuery, chunks.map(formatChunkForPrompt));
 
       const messages: LLMMessage[] = [
         {
           role: 'system',
-          content: `You are a helpful assistant that answers questions based on the user's personal notes.
-Be concise and helpful. When answering:
-- Directly answer the question based on the provided notes
-- Mention which notes contain the relevant information
-- If the notes don't contain enough information to fully answer, say so
-- Do not make up information that isn't in the notes`,
+          content: ANSWER_SYSTEM_PROMPT,
         },
         {
           role: 'user',
@@ -125,17 +99,17 @@ Be concise and helpful. When answering:
         const answer = await this.plugin.llmClient?.chat(messages);
         console.log('[Vault AI] Got answer:', answer?.slice(0, 100) + '...');
 
-        return {
-          answer: answer || 'Unable to generate an answer.',
-          sources: Array.from(collectedSources),
-          steps,
-        };
+        const { content, citations } = validateCitations(this.plugin.app, answer || 'Unable to generate an answer.', chunks);
+        return { answer: content, citations, sources, steps, chunks, budget };
       } catch (error) {
         console.error('[Vault AI] Error generating answer:', error);
         return {
           answer: `I found relevant notes but encountered an error generating the answer: ${error}`,
-          sources: Array.from(collectedSources),
+          citations: [],
+          sources,
           steps,
+          chunks,
+          budget,
         };
       }
     }
@@ -144,11 +118,262 @@ Be concise and helpful. When answering:
     console.log('[Vault AI] No relevant content found');
     return {
       answer: `I couldn't find any notes matching "${userQuery}" in ${this.getScopeDescription(scope)}. Try:\n- Using different search terms\n- Expanding the search scope\n- Checking if the information exists in your vault`,
+      citations: [],
       sources: [],
       steps,
+      chunks: [],
+      budget,
     };
   }
 
+  /**
+   * Collect passages for a question, packed to fit the model's context. Searches
+   * in hops: after each one the model judges whether the passages found so far
+   * answer the question and may ask for follow-up searches or linked notes, until
+   * it is satisfied or the hop budget (maxSearchIterations) runs out.
+   *
+   * Passages fill what is left of budget; callers with their own prompt pass a
+   * budget with their system prompt, history and message already reserved.
+   */
+  async retrieveContext(
+    userQuery: string,
+    scope: ContextScope,
+    budget = this.createAnswerBudget(userQuery)
+  ): Promise<SearchContext> {
+    const steps: SearchStep[] = [];
+    const addStep = (step: Omit<SearchStep, 'iteration'>) => {
+      steps.push({ iteration: steps.length + 1, ...step });
+    };
+
+    // Get current file path for scoped searches
+    const currentFile = this.plugin.app.workspace.getActiveFile();
+    const currentFilePath = currentFile?.path;
+
+    console.log('[Vault AI] Starting search for:', userQuery);
+    console.log('[Vault AI] Scope:', scope);
+    console.log('[Vault AI] Current file:', currentFilePath);
+
+    // Extract search terms from the query
+    const searchTerms = this.extractSearchTerms(userQuery);
+    console.log('[Vault AI] Extracted search terms:', searchTerms);
+
+    addStep({
+      action: 'Extract search terms',
+      query: searchTerms.join(', '),
+      reasoning: `Extracted keywords from query: ${searchTerms.join(', ')}`,
+      results: [],
+    });
+
+    const { graphScopeDepth, graphScopeDirection, graphScopeSharedTags } = this.plugin.settings;
+    const files = await this.vaultSearch.getFilesInScope(scope, currentFilePath, {
+      depth: graphScopeDepth,
+      direction: graphScopeDirection,
+      sharedTags: graphScopeSharedTags,
+    });
+    const scopePaths = new Set(files.map((file) => file.path));
+    const retriever = new HybridRetriever(this.plugin);
+    const maxHops = Math.max(1, this.plugin.settings.maxSearchIterations || DEFAULT_MAX_HOPS);
+
+    // Passages collected over all hops, in the order they were found
+    const collected = new Map<string, RetrievedChunk>();
+    const addChunks = (found: RetrievedChunk[], limit: number): RetrievedChunk[] => {
+      const added: RetrievedChunk[] = [];
+      for (const chunk of found) {
+        if (added.length >= limit) break;
+        const key = `${chunk.filePath}:${chunk.startLine}`;
+        if (!collected.has(key)) {
+          collected.set(key, chunk);
+          added.push(chunk);
+        }
+      }
+      return added;
+    };
+
+    // Fill the rest of the model's context window
+    const maxContextTokens = Math.max(MIN_CONTEXT_TOKENS, budget.remaining());
+    const model = this.plugin.settings.selectedModel;
+
+    const searchedQueries = new Set<string>();
+    const openedNotes = new Set<string>();
+    let queries = [userQuery];
+    let notesToOpen: string[] = [];
+    let chunks: RetrievedChunk[] = [];
+
+    for (let hop = 1; hop <= maxHops; hop++) {
+      // Search
+      for (const query of queries) {
+        searchedQueries.add(query.toLowerCase());
+        const keywords = hop === 1 ? searchTerms.join(' ') : this.extractSearchTerms(query).join(' ');
+        const retrieval = await retriever.retrieve(query, {
+          files,
+          keywords,
+          rerank: this.plugin.settings.searchRerank,
+        });
+        const added = addChunks(retrieval.chunks, CHUNKS_PER_HOP);
+        const { counts } = retrieval;
+
+        console.log(`[Vault AI] Hop ${hop}: retrieved ${retrieval.chunks.length} passage(s) for "${query}", ${added.length} new`);
+
+        addStep({
+          action: `Search (hop ${hop})`,
+          query,
+          reasoning: `Fused ${counts.keyword} keyword, ${counts.semantic} semantic and ${counts.graph} linked passage(s)${retrieval.reranked ? ', reranked by the model' : ''}; kept ${added.length} new passage(s)`,
+          results: toSearchResults(added),
+        });
+      }
+
+      // Open the notes the model asked for
+      if (notesToOpen.length > 0) {
+        const opened: RetrievedChunk[] = [];
+        for (const path of notesToOpen) {
+          openedNotes.add(path);
+          opened.push(...addChunks(await retriever.getNoteChunks(path), CHUNKS_PER_HOP));
+        }
+        addStep({
+          action: `Open linked notes (hop ${hop})`,
+          query: notesToOpen.join(', '),
+          reasoning: `Read ${opened.length} passage(s) from ${notesToOpen.length} note(s)`,
+          results: toSearchResults(opened),
+        });
+      }
+
+      chunks = packChunks(Array.from(collected.values()), maxContextTokens, model);
+      if (hop === maxHops) {
+        break;
+      }
+
+      // Ask the model whether it has enough to answer
+      const linkedNotes = this.getLinkedNotes(chunks, scopePaths, openedNotes);
+      const evaluation = await this.evaluateContext(userQuery, chunks, linkedNotes, Array.from(searchedQueries));
+      if (!evaluation) {
+        addStep({
+          action: 'Evaluate context',
+          reasoning: 'Could not get an assessment from the model; answering with the passages found so far',
+          results: [],
+        });
+        break;
+      }
+
+      queries = evaluation.queries
+        .filter((query) => !searchedQueries.has(query.toLowerCase()))
+        .slice(0, MAX_FOLLOW_UP_QUERIES);
+      notesToOpen = evaluation.notes
+        .map((note) => linkedNotes.find((path) => path === note || getNoteName(path) === getNoteName(note)))
+        .filter((path): path is string => path !== undefined && !openedNotes.has(path))
+        .slice(0, MAX_NOTES_PER_HOP);
+      notesToOpen = Array.from(new Set(notesToOpen));
+
+      const stopping = evaluation.answered || (queries.length === 0 && notesToOpen.length === 0);
+      const plan = [
+        ...queries.map((query) => `search "${query}"`),
+        ...notesToOpen.map((path) => `open ${getNoteName(path)}`),
+      ];
+      addStep({
+        action: 'Evaluate context',
+        reasoning: evaluation.reasoning + (stopping
+          ? (evaluation.answered ? ' Enough to answer.' : ' Nothing more to try.')
+          : ` Next: ${plan.join(', ')}.`),
+        results: [],
+      });
+
+      if (stopping) {
+        break;
+      }
+    }
+
+    console.log(`[Vault AI] Packed ${chunks.length} passage(s) into a ${maxContextTokens} token budget`);
+    budget.reserve('context', chunks.map(formatChunkForPrompt).join('\n\n---\n\n'));
+
+    return {
+      sources: Array.from(new Set(chunks.map((chunk) => chunk.filePath))),
+      steps,
+      chunks,
+      budget: budget.getBreakdown(),
+    };
+  }
+
+  /**
+   * Ask the model whether the passages answer the question and what to look at
+   * next. Returns null if the model is unavailable or its reply cannot be parsed.
+   */
+  private async evaluateContext(
+    question: string,
+    chunks: RetrievedChunk[],
+    linkedNotes: string[],
+    searchedQueries: string[]
+  ): Promise<ContextEvaluation | null> {
+    const client = this.plugin.llmClient;
+    if (!client) {
+      return null;
+    }
+
+    // A short view of each passage is enough to judge coverage
+    const passages = chunks.length > 0
+      ? chunks.map((chunk) => {
+        const title = chunk.heading ? `${chunk.filePath} > ${chunk.heading}` : chunk.filePath;
+        return `- ${title}: ${chunk.text.replace(/\s+/g, ' ').slice(0, EVALUATION_EXCERPT_CHARS)}`;
+      }).join('\n')
+      : '(nothing found yet)';
+    const links = linkedNotes.length > 0 ? linkedNotes.map((path) => `- ${path}`).join('\n') : '(none)';
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: EVALUATION_SYSTEM_PROMPT },
+      {
+        role: 'user',
+        content: `Question: ${question}
+
+Searches so far: ${searchedQueries.map((query) => `"${query}"`).join(', ')}
+
+Passages found:
+${passages}
+
+Notes linked from these passages that have not been read:
+${links}`,
+      },
+    ];
+
+    try {
+      const response = await client.chat(messages);
+      const json = response.replace(/<think>[\s\S]*?<\/think>/g, '').match(/\{[\s\S]*\}/);
+      if (!json) {
+        console.warn('[Vault AI] Context evaluation was not JSON:', response.slice(0, 200));
+        return null;
+      }
+
+      const parsed = JSON.parse(json[0]);
+      const toStrings = (value: unknown): string[] =>
+        Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map((item) => item.trim()) : [];
+
+      return {
+        answered: parsed.answered === true,
+        reasoning: typeof parsed.reasoning === 'string' ? parsed.reasoning.trim() : '',
+        queries: toStrings(parsed.queries),
+        notes: toStrings(parsed.notes),
+      };
+    } catch (error) {
+      console.warn('[Vault AI] Context evaluation failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Notes in scope linked from the passages' notes that have not been read yet
+   */
+  private getLinkedNotes(chunks: RetrievedChunk[], scopePaths: Set<string>, openedNotes: Set<string>): string[] {
+    const sources = new Set(chunks.map((chunk) => chunk.filePath));
+    const linked = new Set<string>();
+    const resolvedLinks = this.plugin.app.metadataCache.resolvedLinks;
+
+    for (const source of sources) {
+      for (const target of Object.keys(resolvedLinks[source] || {})) {
+        if (scopePaths.has(target) && !sources.has(target) && !openedNotes.has(target)) {
+          linked.add(target);
+        }
+      }
+    }
+    return Array.from(linked).slice(0, MAX_LINKED_NOTES_LISTED);
+  }
+
   private extractSearchTerms(query: string): string[] {
     // Remove common stop words and extract meaningful terms
     const stopWords = new Set([
@@ -173,9 +398,15 @@ Be concise and helpful. When answering:
       .split(/\s+/)
       .filter(word => word.length > 2 && !stopWords.has(word));
 
-    // Return unique terms, prioritizing longer words
-    const uniqueTerms = [...new Set(words)];
-    return uniqueTerms.sort((a, b) => b.length - a.length).slice(0, 5);
+    // The keyword index weighs terms by rarity, so keep them all
+    return [...new Set(words)];
+  }
+
+  private createAnswerBudget(userQuery: string): ContextBudget {
+    const budget = ContextBudget.forPlugin(this.plugin, ANSWER_RESERVE_TOKENS);
+    budget.reserve('system', ANSWER_SYSTEM_PROMPT);
+    budget.reserve('input', this.buildAnswerPrompt(userQuery, []));
+    return budget;
   }
 
   private buildAnswerPrompt(query: string, context: string[]): string {
@@ -196,9 +427,40 @@ Please answer the question based only on the information found in these notes. I
     const descriptions: Record<ContextScope, string> = {
       current: 'the current note',
       linked: 'linked notes',
+      graph: 'the link graph around the current note',
       folder: 'the current folder',
       vault: 'your entire vault',
     };
     return descriptions[scope];
   }
 }
+
+function getNoteName(path: string): string {
+  return (path.split('/').pop() || path).replace(/\.md$/, '').toLowerCase();
+}
+
+/**
+ * Group passages by note for the thinking process display
+ */
+function toSearchResults(chunks: RetrievedChunk[]): SearchResult[] {
+  const byFile = new Map<string, SearchResult>();
+  for (const chunk of chunks) {
+    let result = byFile.get(chunk.filePath);
+    if (!result) {
+      result = {
+        filePath: chunk.filePath,
+        fileName: chunk.filePath.split('/').pop() || chunk.filePath,
+        matches: [],
+        score: 0,
+      };
+      byFile.set(chunk.filePath, result);
+    }
+    result.matches.push({
+      line: chunk.startLine,
+      content: chunk.heading || chunk.text.split('\n')[0],
+      context: chunk.text,
+    });
+    result.score = Math.max(result.score || 0, chunk.score);
+  }
+  return Array.from(byFile.values());
+}
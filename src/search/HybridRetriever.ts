@@ -0,0 +1,382 @@
+import { TFile } from 'obsidian';
+import type VaultAIPlugin from '../main';
+import { LLMMessage, RetrievalSource, RetrievedChunk } from '../types';
+import { NoteChunk, chunkNote } from './chunker';
+import { getBlockIds, getCitationLink } from './citations';
+import { countQueryMatches, parseQuery } from './KeywordIndex';
+import { estimateTokens } from '../llm/ContextBudget';
+
+// Damping constant from the reciprocal rank fusion paper (Cormack et al., 2009)
+const RRF_K = 60;
+// Notes taken from the keyword index, and best chunks kept per note
+const KEYWORD_FILES = 10;
+const KEYWORD_CHUNKS_PER_FILE = 3;
+const SEMANTIC_CHUNKS = 20;
+// Top fused notes whose links are followed, and linked notes added
+const GRAPH_SEEDS = 5;
+const GRAPH_FILES = 10;
+// Chunks shown to the model for reranking, and characters shown per chunk
+const RERANK_CANDIDATES = 12;
+const RERANK_EXCERPT_CHARS = 500;
+// A chunk is cut to fit the remaining budget only if at least this much of it fits
+const MIN_PARTIAL_CHUNK_TOKENS = 80;
+
+export interface RetrievalOptions {
+  // Notes that may be returned
+  files: TFile[];
+  // Query for the keyword index; defaults to the question
+  keywords?: string;
+  // Let the chat model reorder the top chunks
+  rerank?: boolean;
+}
+
+export interface RetrievalResult {
+  // Best first
+  chunks: RetrievedChunk[];
+  // Candidates contributed by each retriever
+  counts: Record<RetrievalSource, number>;
+  reranked: boolean;
+}
+
+interface Candidate {
+  filePath: string;
+  chunk: NoteChunk;
+}
+
+/**
+ * Finds the note chunks most relevant to a question by fusing keyword (BM25),
+ * semantic (embedding) and link-graph candidates with reciprocal rank fusion,
+ * optionally reranked by the chat model.
+ */
+export class HybridRetriever {
+  private plugin: VaultAIPlugin;
+  // Chunked notes, read once per retriever
+  private noteChunks: Map<string, NoteChunk[]> = new Map();
+
+  constructor(plugin: VaultAIPlugin) {
+    this.plugin = plugin;
+  }
+
+  async retrieve(question: string, options: RetrievalOptions): Promise<RetrievalResult> {
+    const paths = new Set(options.files.map((file) => file.path));
+    const keywords = options.keywords ?? question;
+
+    const keywordCandidates = await this.getKeywordCandidates(keywords, paths);
+    const semanticCandidates = await this.getSemanticCandidates(question, paths);
+
+    // Follow links from the notes the text retrievers agree on
+    const seeds: string[] = [];
+    for (const chunk of fuse({ keyword: keywordCandidates, semantic: semanticCandidates })) {
+      if (seeds.length >= GRAPH_SEEDS) break;
+      if (!seeds.includes(chunk.filePath)) {
+        seeds.push(chunk.filePath);
+      }
+    }
+    const graphCandidates = await this.getGraphCandidates(seeds, keywords, paths);
+
+    let chunks = fuse({
+      keyword: keywordCandidates,
+      semantic: semanticCandidates,
+      graph: graphCandidates,
+    });
+
+    let reranked = false;
+    if (options.rerank && chunks.length > 1) {
+      const order = await this.rerank(question, chunks.slice(0, RERANK_CANDIDATES));
+      if (order) {
+        chunks = order.concat(chunks.slice(RERANK_CANDIDATES));
+        reranked = true;
+      }
+    }
+
+    return {
+      chunks,
+      counts: {
+        keyword: keywordCandidates.length,
+        semantic: semanticCandidates.length,
+        graph: graphCandidates.length,
+      },
+      reranked,
+    };
+  }
+
+  /**
+   * All chunks of a note, in order, e.g. to read a linked note in full
+   */
+  async getNoteChunks(path: string): Promise<RetrievedChunk[]> {
+    const chunks = await this.getChunks(path);
+    return chunks.map((chunk) => ({ filePath: path, ...chunk, score: 0, foundBy: ['graph'] }));
+  }
+
+  // ============================================================================
+  // Retrievers
+  // ============================================================================
+
+  /**
+   * Best matching chunks of the notes ranked highest by the keyword index
+   */
+  private async getKeywordCandidates(keywords: string, paths: Set<string>): Promise<Candidate[]> {
+    const ranked = await this.plugin.keywordIndex.search(keywords, { paths, limit: KEYWORD_FILES });
+    const query = parseQuery(keywords);
+    const candidates: Candidate[] = [];
+
+    for (const { path } of ranked) {
+      const chunks = await this.getChunks(path);
+      const matching = chunks
+        .map((chunk) => ({ chunk, matches: countQueryMatches(chunk.text, query) }))
+        .filter(({ matches }) => matches > 0)
+        .sort((a, b) => b.matches - a.matches)
+        .slice(0, KEYWORD_CHUNKS_PER_FILE);
+
+      // The note may have matched on its title alone
+      if (matching.length === 0 && chunks.length > 0) {
+        candidates.push({ filePath: path, chunk: chunks[0] });
+      }
+      for (const { chunk } of matching) {
+        candidates.push({ filePath: path, chunk });
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Chunks closest in meaning, when an embedding model is set up. Failures (e.g.
+   * the server is offline) leave the other retrievers to do the work.
+   */
+  private async getSemanticCandidates(question: string, paths: Set<string>): Promise<Candidate[]> {
+    if (!this.plugin.settings.embeddingModel) {
+      return [];
+    }
+
+    let results;
+    try {
+      results = await this.plugin.semanticIndex.search(question, { limit: SEMANTIC_CHUNKS });
+    } catch (error) {
+      console.warn('[Vault AI] Semantic retrieval failed:', error);
+      return [];
+    }
+
+    const candidates: Candidate[] = [];
+    for (const result of results) {
+      if (!paths.has(result.filePath)) continue;
+
+      // Prefer the current text; the index may lag behind edits
+      const chunks = await this.getChunks(result.filePath);
+      const chunk = chunks.find((c) => c.startLine === result.startLine) || {
+        heading: result.heading,
+        startLine: result.startLine,
+        endLine: result.endLine,
+        text: result.excerpt,
+      };
+      candidates.push({ filePath: result.filePath, chunk });
+    }
+    return candidates;
+  }
+
+  /**
+   * Notes linking to or linked from the seed notes, most connected first, each
+   * represented by its chunk matching the keywords best
+   */
+  private async getGraphCandidates(seeds: string[], keywords: string, paths: Set<string>): Promise<Candidate[]> {
+    if (seeds.length === 0) {
+      return [];
+    }
+
+    const seedSet = new Set(seeds);
+    const linkCounts = new Map<string, number>();
+    const addLink = (path: string) => {
+      if (!seedSet.has(path) && paths.has(path)) {
+        linkCounts.set(path, (linkCounts.get(path) || 0) + 1);
+      }
+    };
+
+    const resolvedLinks = this.plugin.app.metadataCache.resolvedLinks;
+    for (const [sourcePath, links] of Object.entries(resolvedLinks)) {
+      if (seedSet.has(sourcePath)) {
+        Object.keys(links).forEach(addLink);
+      }
+      for (const targetPath of Object.keys(links)) {
+        if (seedSet.has(targetPath)) {
+          addLink(sourcePath);
+        }
+      }
+    }
+
+    const linked = Array.from(linkCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, GRAPH_FILES);
+
+    const query = parseQuery(keywords);
+    const candidates: Candidate[] = [];
+    for (const [path] of linked) {
+      const chunks = await this.getChunks(path);
+      let best: NoteChunk | null = null;
+      let bestMatches = -1;
+      for (const chunk of chunks) {
+        const matches = countQueryMatches(chunk.text, query);
+        if (matches > bestMatches) {
+          best = chunk;
+          bestMatches = matches;
+        }
+      }
+      if (best) {
+        candidates.push({ filePath: path, chunk: best });
+      }
+    }
+    return candidates;
+  }
+
+  // ============================================================================
+  // Reranking
+  // ============================================================================
+
+  /**
+   * Ask the chat model to order chunks by relevance. Chunks it leaves out keep
+   * their fused order after the ones it picked. Returns null if the model's
+   * answer cannot be used.
+   */
+  private async rerank(question: string, chunks: RetrievedChunk[]): Promise<RetrievedChunk[] | null> {
+    const client = this.plugin.llmClient;
+    if (!client) {
+      return null;
+    }
+
+    const passages = chunks.map((chunk, i) => {
+      const title = chunk.heading ? `${chunk.filePath} > ${chunk.heading}` : chunk.filePath;
+      return `[${i + 1}] ${title}\n${chunk.text.slice(0, RERANK_EXCERPT_CHARS)}`;
+    });
+
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: 'You rank passages from a user\'s notes by how well they help answer a question. Reply with only a JSON array of passage numbers, most relevant first, leaving out passages that do not help. Example: [3, 1, 4]',
+      },
+      {
+        role: 'user',
+        content: `Question: ${question}\n\nPassages:\n\n${passages.join('\n\n')}`,
+      },
+    ];
+
+    try {
+      const response = await client.chat(messages);
+      // Skip any reasoning the model wrote before its answer
+      const arrays = response.replace(/<think>[\s\S]*?<\/think>/g, '').match(/\[[\d\s,]*\]/g);
+      if (!arrays) {
+        console.warn('[Vault AI] Reranker gave no ranking:', response.slice(0, 200));
+        return null;
+      }
+
+      const picked: RetrievedChunk[] = [];
+      for (const value of JSON.parse(arrays[arrays.length - 1]) as number[]) {
+        const chunk = chunks[value - 1];
+        if (chunk && !picked.includes(chunk)) {
+          picked.push(chunk);
+        }
+      }
+      return picked.concat(chunks.filter((chunk) => !picked.includes(chunk)));
+    } catch (error) {
+      console.warn('[Vault AI] Reranking failed:', error);
+      return null;
+    }
+  }
+
+  private async getChunks(path: string): Promise<NoteChunk[]> {
+    const cached = this.noteChunks.get(path);
+    if (cached) {
+      return cached;
+    }
+
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    const chunks = file instanceof TFile ? chunkNote(await this.plugin.app.vault.cachedRead(file)) : [];
+    this.noteChunks.set(path, chunks);
+    return chunks;
+  }
+}
+
+/**
+ * Reciprocal rank fusion: each list adds 1 / (k + rank) to a chunk's score, so
+ * chunks ranked well by several retrievers come first
+ */
+function fuse(lists: Partial<Record<RetrievalSource, Candidate[]>>): RetrievedChunk[] {
+  const fused = new Map<string, RetrievedChunk>();
+
+  for (const [source, candidates] of Object.entries(lists) as [RetrievalSource, Candidate[]][]) {
+    candidates.forEach(({ filePath, chunk }, rank) => {
+      const key = `${filePath}:${chunk.startLine}`;
+      let entry = fused.get(key);
+      if (!entry) {
+        entry = { filePath, ...chunk, score: 0, foundBy: [] };
+        fused.set(key, entry);
+      }
+      entry.score += 1 / (RRF_K + rank + 1);
+      if (!entry.foundBy.includes(source)) {
+        entry.foundBy.push(source);
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * A chunk as it appears in a prompt, with its note, heading, line range and the
+ * link to cite it by (see CITATION_INSTRUCTIONS)
+ */
+export function formatChunkForPrompt(chunk: RetrievedChunk): string {
+  const title = chunk.heading ? `${chunk.filePath} > ${chunk.heading}` : chunk.filePath;
+  const blocks = getBlockIds(chunk.text).map((id) => ` ^${id}`).join('');
+  const cite = `Cite as: [[${getCitationLink(chunk)}]]${blocks ? ` (blocks:${blocks})` : ''}`;
+  return `## From: ${title} (lines ${chunk.startLine}-${chunk.endLine})\n${cite}\n\n${chunk.text}`;
+}
+
+/**
+ * Take chunks in order while their formatted text fits in maxTokens. A chunk that
+ * does not fit is cut down if enough of it fits, otherwise skipped for smaller ones.
+ */
+export function packChunks(chunks: RetrievedChunk[], maxTokens: number, model = ''): RetrievedChunk[] {
+  const packed: RetrievedChunk[] = [];
+  // Chunks are joined with a separator line
+  const separator = estimateTokens('\n\n---\n\n', model);
+  let used = 0;
+
+  for (const chunk of chunks) {
+    const size = estimateTokens(formatChunkForPrompt(chunk), model) + separator;
+    const remaining = maxTokens - used;
+    if (size <= remaining) {
+      packed.push(chunk);
+      used += size;
+      continue;
+    }
+
+    const overhead = size - estimateTokens(chunk.text, model);
+    const available = remaining - overhead;
+    if (available >= MIN_PARTIAL_CHUNK_TOKENS) {
+      const text = cutToTokens(chunk.text, available, model);
+      packed.push({ ...chunk, text, endLine: chunk.startLine + text.split('\n').length - 1 });
+      used += overhead + estimateTokens(text, model);
+    }
+    if (maxTokens - used < MIN_PARTIAL_CHUNK_TOKENS) {
+      break;
+    }
+  }
+  return packed;
+}
+
+// Whole lines of text within maxTokens; a partial chunk keeps exact line numbers
+function cutToTokens(text: string, maxTokens: number, model: string): string {
+  const lines = text.split('\n');
+  let end = 0;
+  while (end < lines.length && estimateTokens(lines.slice(0, end + 1).join('\n'), model) <= maxTokens) {
+    end++;
+  }
+  if (end > 0) {
+    return lines.slice(0, end).join('\n');
+  }
+
+  // A single long line is cut within the line
+  let length = lines[0].length;
+  while (length > 0 && estimateTokens(lines[0].slice(0, length), model) > maxTokens) {
+    length = Math.floor(length * 0.9);
+  }
+  return lines[0].slice(0, length);
+}
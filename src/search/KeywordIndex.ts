@@ -0,0 +1,431 @@
+import { TAbstractFile, TFile, debounce } from 'obsidian';
+import type VaultAIPlugin from '../main';
+import { isInPluginFolder } from '../tools/helpers';
+import { splitWords, stem, tokenize } from './tokenizer';
+
+const INDEX_FILE = 'keyword-index.json';
+const INDEX_VERSION = 1;
+// Title words count as this many occurrences in the body
+const TITLE_BOOST = 3;
+// Most vocabulary terms a single prefix* query expands to
+const MAX_PREFIX_EXPANSIONS = 50;
+// Notes read between yields to the UI during the initial sync
+const SYNC_BATCH_SIZE = 50;
+
+// BM25 parameters (Robertson et al.): term frequency saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+interface IndexedDoc {
+  mtime: number;
+  // Number of terms, including the boosted title
+  length: number;
+  // Term frequencies
+  terms: Record<string, number>;
+}
+
+interface IndexData {
+  version: number;
+  docs: Record<string, IndexedDoc>;
+}
+
+export interface ParsedQuery {
+  // Stemmed terms; any of them may match
+  terms: string[];
+  // Lowercase prefixes from `word*`
+  prefixes: string[];
+  // Quoted phrases as lowercase words; every phrase must appear in the note
+  phrases: string[][];
+}
+
+export interface KeywordSearchOptions {
+  // Only rank these notes
+  paths?: Set<string>;
+  limit?: number;
+}
+
+export interface KeywordSearchResult {
+  path: string;
+  score: number;
+}
+
+/**
+ * Persistent inverted index over note text with BM25 ranking. Supports quoted
+ * phrases and prefix* terms, and is kept current from metadata cache events.
+ */
+export class KeywordIndex {
+  private plugin: VaultAIPlugin;
+  private data: IndexData = createIndexData();
+  // Term -> paths of notes containing it
+  private postings: Map<string, Set<string>> = new Map();
+  private docCount = 0;
+  private totalLength = 0;
+  // Resolves once notes changed while the plugin was off are indexed
+  private ready: Promise<void> = Promise.resolve();
+  // Changes not yet written to disk
+  private dirty = false;
+  private scheduleSave = debounce(() => this.save(), 5000, true);
+
+  constructor(plugin: VaultAIPlugin) {
+    this.plugin = plugin;
+  }
+
+  async load(): Promise<void> {
+    const adapter = this.plugin.app.vault.adapter;
+    const path = this.getIndexPath();
+
+    if (!(await adapter.exists(path))) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(await adapter.read(path)) as IndexData;
+      if (data.version !== INDEX_VERSION) {
+        return;
+      }
+
+      for (const [filePath, doc] of Object.entries(data.docs)) {
+        this.addDoc(filePath, doc);
+      }
+    } catch (error) {
+      // The index can always be rebuilt from the vault
+      console.warn('[Vault AI] Ignoring unreadable keyword index:', error);
+    }
+  }
+
+  /**
+   * Follow note changes and index notes added or edited since the last run.
+   * Call once the workspace layout is ready, so the metadata cache is populated.
+   */
+  start(): void {
+    const { metadataCache, vault } = this.plugin.app;
+    this.plugin.registerEvent(metadataCache.on('changed', (file, content) => this.indexContent(file, content)));
+    this.plugin.registerEvent(metadataCache.on('deleted', (file) => this.removeDoc(file.path)));
+    this.plugin.registerEvent(vault.on('rename', (file, oldPath) => this.renameFile(file, oldPath)));
+
+    this.ready = this.sync();
+  }
+
+  /**
+   * Notes best matching the query, highest BM25 score first
+   */
+  async search(query: string, options: KeywordSearchOptions = {}): Promise<KeywordSearchResult[]> {
+    await this.ready;
+
+    const parsed = parseQuery(query);
+    const phraseTerms = parsed.phrases.map((phrase) => tokenize(phrase.join(' ')));
+    const prefixTerms = parsed.prefixes.map((prefix) => this.expandPrefix(prefix));
+
+    // A phrase is required, so only notes containing all its terms qualify
+    let candidates: Set<string>;
+    const requiredTerms = ([] as string[]).concat(...phraseTerms);
+    if (requiredTerms.length > 0) {
+      candidates = this.getDocsWithAll(requiredTerms);
+    } else {
+      candidates = new Set();
+      for (const term of ([] as string[]).concat(parsed.terms, ...prefixTerms)) {
+        this.postings.get(term)?.forEach((path) => candidates.add(path));
+      }
+    }
+
+    const inScope = Array.from(candidates).filter((path) => !options.paths || options.paths.has(path));
+    const scored = this.rank(parsed, inScope);
+
+    if (parsed.phrases.length === 0) {
+      return scored.slice(0, options.limit ?? scored.length);
+    }
+
+    // Check word order only for the notes that make the cut
+    const results: KeywordSearchResult[] = [];
+    for (const result of scored) {
+      if (options.limit !== undefined && results.length >= options.limit) break;
+      if (await this.containsPhrases(result.path, parsed.phrases)) {
+        results.push(result);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Score notes against the query, highest BM25 score first. Does not check that
+   * the notes match; see findDocs for that.
+   */
+  rank(parsed: ParsedQuery, paths: Iterable<string>): KeywordSearchResult[] {
+    const phraseTerms = ([] as string[]).concat(...parsed.phrases.map((phrase) => tokenize(phrase.join(' '))));
+    const prefixTerms = parsed.prefixes.map((prefix) => this.expandPrefix(prefix));
+
+    const scored: KeywordSearchResult[] = [];
+    for (const path of paths) {
+      const doc = this.data.docs[path];
+      let score = 0;
+      if (doc) {
+        for (const term of parsed.terms.concat(phraseTerms)) {
+          score += this.scoreTerm(term, doc);
+        }
+        // Each prefix counts once, through its best expansion
+        for (const expansions of prefixTerms) {
+          score += Math.max(0, ...expansions.map((term) => this.scoreTerm(term, doc)));
+        }
+      }
+      scored.push({ path, score });
+    }
+
+    return scored.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Notes among paths containing a word (all its terms), a prefix or a phrase.
+   * Returns null when the text has no searchable terms, e.g. only stop words.
+   */
+  async findDocs(kind: 'word' | 'prefix' | 'phrase', text: string, paths: Set<string>): Promise<Set<string> | null> {
+    await this.ready;
+
+    let docs: Set<string>;
+    if (kind === 'prefix') {
+      const [prefix] = splitWords(text);
+      if (!prefix) return null;
+
+      docs = new Set();
+      for (const term of this.expandPrefix(prefix)) {
+        this.postings.get(term)?.forEach((path) => docs.add(path));
+      }
+    } else {
+      const terms = tokenize(text);
+      if (terms.length === 0) return null;
+      docs = this.getDocsWithAll(terms);
+    }
+
+    const result = new Set<string>();
+    for (const path of docs) {
+      if (!paths.has(path)) continue;
+      if (kind === 'phrase' && !(await this.containsPhrases(path, [splitWords(text)]))) continue;
+      result.add(path);
+    }
+    return result;
+  }
+
+  /**
+   * Write pending changes to disk, e.g. when the plugin unloads
+   */
+  async flush(): Promise<void> {
+    this.scheduleSave.cancel();
+    await this.save();
+  }
+
+  // ============================================================================
+  // Internals
+  // ============================================================================
+
+  /**
+   * Index every note that is new or changed since it was indexed, and drop deleted ones
+   */
+  private async sync(): Promise<void> {
+    const files = this.plugin.app.vault.getMarkdownFiles().filter((file) => !isInPluginFolder(file.path, this.plugin.settings));
+    const existing = new Set(files.map((file) => file.path));
+    for (const path of Object.keys(this.data.docs)) {
+      if (!existing.has(path)) {
+        this.removeDoc(path);
+      }
+    }
+
+    const changed = files.filter((file) => this.data.docs[file.path]?.mtime !== file.stat.mtime);
+    for (let i = 0; i < changed.length; i++) {
+      const file = changed[i];
+      try {
+        this.indexContent(file, await this.plugin.app.vault.cachedRead(file));
+      } catch (error) {
+        console.warn(`[Vault AI] Could not index ${file.path}:`, error);
+      }
+      if (i % SYNC_BATCH_SIZE === SYNC_BATCH_SIZE - 1) {
+        await sleep(0);
+      }
+    }
+  }
+
+  private indexContent(file: TAbstractFile, content: string): void {
+    if (!isNote(file)) return;
+    if (isInPluginFolder(file.path, this.plugin.settings)) {
+      this.removeDoc(file.path);
+      return;
+    }
+
+    const terms: Record<string, number> = {};
+    let length = 0;
+    const add = (term: string, count: number) => {
+      terms[term] = getTermFrequency(terms, term) + count;
+      length += count;
+    };
+    tokenize(content).forEach((term) => add(term, 1));
+    tokenize(file.basename).forEach((term) => add(term, TITLE_BOOST));
+
+    this.removeDoc(file.path);
+    this.addDoc(file.path, { mtime: file.stat.mtime, length, terms });
+    this.markDirty();
+  }
+
+  /**
+   * The title is part of the index, so a renamed note is indexed again
+   */
+  private async renameFile(file: TAbstractFile, oldPath: string): Promise<void> {
+    this.removeDoc(oldPath);
+    if (isNote(file)) {
+      this.indexContent(file, await this.plugin.app.vault.cachedRead(file));
+    }
+  }
+
+  private addDoc(path: string, doc: IndexedDoc): void {
+    this.data.docs[path] = doc;
+    this.docCount++;
+    this.totalLength += doc.length;
+    for (const term of Object.keys(doc.terms)) {
+      let paths = this.postings.get(term);
+      if (!paths) {
+        paths = new Set();
+        this.postings.set(term, paths);
+      }
+      paths.add(path);
+    }
+  }
+
+  private removeDoc(path: string): void {
+    const doc = this.data.docs[path];
+    if (!doc) return;
+
+    delete this.data.docs[path];
+    this.docCount--;
+    this.totalLength -= doc.length;
+    for (const term of Object.keys(doc.terms)) {
+      const paths = this.postings.get(term);
+      paths?.delete(path);
+      if (paths?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.markDirty();
+  }
+
+  private scoreTerm(term: string, doc: IndexedDoc): number {
+    const tf = getTermFrequency(doc.terms, term);
+    if (!tf) return 0;
+
+    const df = this.postings.get(term)?.size || 0;
+    const idf = Math.log(1 + (this.docCount - df + 0.5) / (df + 0.5));
+    const averageLength = this.totalLength / this.docCount || 1;
+    const norm = BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / averageLength);
+    return (idf * tf * (BM25_K1 + 1)) / (tf + norm);
+  }
+
+  /**
+   * Vocabulary terms starting with the prefix, most common first. Terms are
+   * stemmed, so "running*" also tries the stem "run".
+   */
+  private expandPrefix(prefix: string): string[] {
+    const stemmed = stem(prefix);
+    const matches: string[] = [];
+    for (const term of this.postings.keys()) {
+      if (term.startsWith(prefix) || term.startsWith(stemmed)) {
+        matches.push(term);
+      }
+    }
+    const df = (term: string) => this.postings.get(term)?.size || 0;
+    return matches.sort((a, b) => df(b) - df(a)).slice(0, MAX_PREFIX_EXPANSIONS);
+  }
+
+  private getDocsWithAll(terms: string[]): Set<string> {
+    const postings = terms.map((term) => this.postings.get(term));
+    if (postings.some((paths) => !paths)) {
+      return new Set();
+    }
+
+    const [first, ...rest] = (postings as Set<string>[]).sort((a, b) => a.size - b.size);
+    return new Set(Array.from(first).filter((path) => rest.every((paths) => paths.has(path))));
+  }
+
+  private async containsPhrases(path: string, phrases: string[][]): Promise<boolean> {
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return false;
+
+    // Join words with single spaces so punctuation and line breaks do not matter
+    const text = ` ${splitWords(await this.plugin.app.vault.cachedRead(file)).join(' ')} `;
+    return phrases.every((phrase) => text.includes(` ${phrase.join(' ')} `));
+  }
+
+  private markDirty(): void {
+    this.dirty = true;
+    this.scheduleSave();
+  }
+
+  private async save(): Promise<void> {
+    if (!this.dirty) return;
+    this.dirty = false;
+
+    try {
+      await this.plugin.app.vault.adapter.write(this.getIndexPath(), JSON.stringify(this.data));
+    } catch (error) {
+      console.error('[Vault AI] Failed to save keyword index:', error);
+    }
+  }
+
+  private getIndexPath(): string {
+    return this.plugin.getPluginFilePath(INDEX_FILE);
+  }
+}
+
+/**
+ * Parse a search query into plain terms, `prefix*` terms and `"quoted phrases"`
+ */
+export function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], prefixes: [], phrases: [] };
+
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const words = splitWords(phrase);
+    if (words.length > 0) {
+      parsed.phrases.push(words);
+    }
+    return ' ';
+  });
+
+  for (const part of rest.split(/\s+/)) {
+    if (part.endsWith('*')) {
+      const [prefix] = splitWords(part);
+      if (prefix) {
+        parsed.prefixes.push(prefix);
+      }
+    } else {
+      parsed.terms.push(...tokenize(part));
+    }
+  }
+
+  parsed.terms = Array.from(new Set(parsed.terms));
+  return parsed;
+}
+
+/**
+ * Number of query parts (terms, prefixes, phrases) found in a line of text
+ */
+export function countQueryMatches(line: string, query: ParsedQuery): number {
+  const words = splitWords(line);
+  if (words.length === 0) return 0;
+
+  const stems = new Set(words.map(stem));
+  const text = ` ${words.join(' ')} `;
+
+  let count = 0;
+  count += query.terms.filter((term) => stems.has(term)).length;
+  count += query.prefixes.filter((prefix) => words.some((word) => word.startsWith(prefix))).length;
+  count += query.phrases.filter((phrase) => text.includes(` ${phrase.join(' ')} `)).length;
+  return count;
+}
+
+// Words like "constructor" must not pick up Object.prototype members
+function getTermFrequency(terms: Record<string, number>, term: string): number {
+  return Object.prototype.hasOwnProperty.call(terms, term) ? terms[term] : 0;
+}
+
+function createIndexData(): IndexData {
+  return { version: INDEX_VERSION, docs: {} };
+}
+
+function isNote(file: TAbstractFile | null): file is TFile {
+  return file instanceof TFile && file.extension === 'md';
+}
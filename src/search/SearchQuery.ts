@@ -0,0 +1,296 @@
+/**
+ * Query language for vault search:
+ *
+ *   meeting "action items" plan*      words, quoted phrases and prefixes
+ *   tag:#project path:Projects/       tag and folder filters
+ *   file:roadmap status:done          file names and frontmatter properties
+ *   modified:>=2024-01 created:>=7d   date ranges on mtime and ctime
+ *   (alpha OR beta) NOT draft -idea   boolean operators and grouping
+ *
+ * Terms next to each other must all match (AND).
+ */
+
+import { ParsedQuery } from './KeywordIndex';
+import { splitWords, tokenize } from './tokenizer';
+
+export type TextKind = 'word' | 'prefix' | 'phrase';
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; kind: TextKind; text: string }
+  // key is lowercase; value keeps its case
+  | { type: 'filter'; key: string; value: string };
+
+export interface DateRange {
+  // Milliseconds since the epoch; start inclusive, end exclusive
+  start: number;
+  end: number;
+}
+
+// Filter keys that are not frontmatter properties
+export const MODIFIED_KEYS = ['modified', 'mtime'];
+export const CREATED_KEYS = ['created', 'ctime'];
+
+const FILTER_PATTERN = /^([A-Za-z_][\w-]*):(.+)$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Token =
+  | { type: 'open' | 'close' | 'and' | 'or' | 'not' }
+  | { type: 'term'; node: QueryNode };
+
+/**
+ * Parse a search query. Returns null for an empty query and throws with a
+ * readable message for malformed ones (e.g. an unclosed parenthesis).
+ */
+export function parseSearchQuery(query: string): QueryNode | null {
+  const tokens = lex(query);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'or') {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    for (let token = peek(); token && token.type !== 'or' && token.type !== 'close'; token = peek()) {
+      if (token.type === 'and') {
+        position++;
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error('Invalid search query: expected a term at the end of the query');
+    }
+
+    switch (token.type) {
+      case 'not':
+        return { type: 'not', child: parseUnary() };
+      case 'open': {
+        const node = parseOr();
+        if (tokens[position++]?.type !== 'close') {
+          throw new Error('Invalid search query: missing ")"');
+        }
+        return node;
+      }
+      case 'term':
+        return token.node;
+      default:
+        throw new Error(`Invalid search query: unexpected ${token.type === 'close' ? '")"' : token.type.toUpperCase()}`);
+    }
+  };
+
+  const node = parseOr();
+  if (position < tokens.length) {
+    throw new Error('Invalid search query: unexpected ")"');
+  }
+  return node;
+}
+
+/**
+ * The query without text that has no searchable terms, e.g. `the` or `"of the"`,
+ * so stop words neither match every note nor, under NOT, exclude every note.
+ * Returns null when nothing is left.
+ */
+export function dropStopWords(node: QueryNode): QueryNode | null {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const children = node.children
+        .map(dropStopWords)
+        .filter((child): child is QueryNode => child !== null);
+      if (children.length <= 1) return children[0] ?? null;
+      return { type: node.type, children };
+    }
+    case 'not': {
+      const child = dropStopWords(node.child);
+      return child ? { type: 'not', child } : null;
+    }
+    case 'text': {
+      const words = node.kind === 'prefix' ? splitWords(node.text) : tokenize(node.text);
+      return words.length > 0 ? node : null;
+    }
+    case 'filter':
+      return node;
+  }
+}
+
+/**
+ * Words, prefixes and phrases the matching notes should contain, for ranking and
+ * highlighting. Terms under NOT are left out.
+ */
+export function getRankingTerms(node: QueryNode): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], prefixes: [], phrases: [] };
+
+  const visit = (current: QueryNode) => {
+    switch (current.type) {
+      case 'and':
+      case 'or':
+        current.children.forEach(visit);
+        break;
+      case 'text':
+        if (current.kind === 'word') {
+          parsed.terms.push(...tokenize(current.text));
+        } else if (current.kind === 'prefix') {
+          parsed.prefixes.push(...splitWords(current.text).slice(0, 1));
+        } else {
+          const words = splitWords(current.text);
+          if (words.length > 0) {
+            parsed.phrases.push(words);
+          }
+        }
+        break;
+    }
+  };
+
+  visit(node);
+  parsed.terms = Array.from(new Set(parsed.terms));
+  return parsed;
+}
+
+/**
+ * Parse a date filter value: `2024-05-01`, `2024-05` or `2024` (the whole day,
+ * month or year), `7d` / `2w` (that many days or weeks ago), `today`, `yesterday`,
+ * a range `A..B`, or a comparison `>A`, `>=A`, `<A`, `<=A`. Returns null if the
+ * value is not a date.
+ */
+export function parseDateRange(value: string, now = Date.now()): DateRange | null {
+  const range = value.match(/^(.+)\.\.(.+)$/);
+  if (range) {
+    const from = parseDate(range[1], now);
+    const to = parseDate(range[2], now);
+    return from && to ? { start: from.start, end: to.end } : null;
+  }
+
+  const comparison = value.match(/^([<>]=?)(.+)$/);
+  if (comparison) {
+    const date = parseDate(comparison[2], now);
+    if (!date) return null;
+    switch (comparison[1]) {
+      case '>':
+        return { start: date.end, end: Infinity };
+      case '>=':
+        return { start: date.start, end: Infinity };
+      case '<':
+        return { start: -Infinity, end: date.start };
+      default:
+        return { start: -Infinity, end: date.end };
+    }
+  }
+
+  return parseDate(value, now);
+}
+
+function parseDate(value: string, now: number): DateRange | null {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  const relative = value.match(/^(\d+)([dw])$/);
+  if (relative || value === 'today' || value === 'yesterday') {
+    let days = value === 'yesterday' ? 1 : 0;
+    if (relative) {
+      days = Number(relative[1]) * (relative[2] === 'w' ? 7 : 1);
+    }
+    const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - days).getTime();
+    return { start, end: start + DAY_MS };
+  }
+
+  const absolute = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!absolute) {
+    return null;
+  }
+
+  const year = Number(absolute[1]);
+  const month = absolute[2] ? Number(absolute[2]) - 1 : null;
+  const day = absolute[3] ? Number(absolute[3]) : null;
+  if (month === null) {
+    return { start: new Date(year, 0, 1).getTime(), end: new Date(year + 1, 0, 1).getTime() };
+  }
+  if (day === null) {
+    return { start: new Date(year, month, 1).getTime(), end: new Date(year, month + 1, 1).getTime() };
+  }
+  return { start: new Date(year, month, day).getTime(), end: new Date(year, month, day + 1).getTime() };
+}
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    // Skip the opening quote; an unclosed quote runs to the end
+    const end = query.indexOf('"', i + 1);
+    const text = query.slice(i + 1, end === -1 ? query.length : end);
+    i = end === -1 ? query.length : end + 1;
+    return text;
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close' });
+      i++;
+    } else if (char === '"') {
+      tokens.push({ type: 'term', node: { type: 'text', kind: 'phrase', text: readQuoted() } });
+    } else if (char === '-' && i + 1 < query.length && !/[\s)]/.test(query[i + 1])) {
+      tokens.push({ type: 'not' });
+      i++;
+    } else {
+      let end = i;
+      while (end < query.length && !/[\s()]/.test(query[end])) {
+        end++;
+        if (query[end] === '"' && query[end - 1] === ':') break;
+      }
+      let word = query.slice(i, end);
+      i = end;
+
+      // key:"quoted value"
+      if (/^[A-Za-z_][\w-]*:$/.test(word) && query[i] === '"') {
+        word += readQuoted();
+      }
+
+      tokens.push(toToken(word));
+    }
+  }
+
+  return tokens;
+}
+
+function toToken(word: string): Token {
+  if (word === 'AND' || word === 'OR' || word === 'NOT') {
+    return { type: word.toLowerCase() as 'and' | 'or' | 'not' };
+  }
+
+  // URLs look like filters but are searched as text
+  const filter = word.match(FILTER_PATTERN);
+  if (filter && !filter[2].startsWith('//')) {
+    return { type: 'term', node: { type: 'filter', key: filter[1].toLowerCase(), value: filter[2] } };
+  }
+
+  if (word.length > 1 && word.endsWith('*')) {
+    return { type: 'term', node: { type: 'text', kind: 'prefix', text: word.slice(0, -1) } };
+  }
+  return { type: 'term', node: { type: 'text', kind: 'word', text: word } };
+}
@@ -0,0 +1,461 @@
+import { TAbstractFile, TFile, arrayBufferToBase64, base64ToArrayBuffer, debounce } from 'obsidian';
+import type VaultAIPlugin from '../main';
+import { SemanticSearchResult } from '../types';
+import { hashContent } from '../operations/contentHash';
+import { isInPluginFolder } from '../tools/helpers';
+import { NoteChunk, chunkNote } from './chunker';
+
+const INDEX_FILE = 'semantic-index.json';
+const INDEX_VERSION = 1;
+// Chunks sent per embedding request
+const EMBED_BATCH_SIZE = 16;
+const MAX_EXCERPT_CHARS = 400;
+
+interface IndexedChunk {
+  heading: string;
+  startLine: number;
+  endLine: number;
+  // Normalized Float32 vector, base64-encoded
+  vector: string;
+}
+
+interface IndexedFile {
+  hash: string;
+  mtime: number;
+  chunks: IndexedChunk[];
+}
+
+interface IndexData {
+  version: number;
+  // Vectors from different models are not comparable
+  model: string;
+  files: Record<string, IndexedFile>;
+}
+
+export interface SemanticIndexStatus {
+  model: string;
+  files: number;
+  chunks: number;
+  // Notes waiting to be (re)embedded
+  pending: number;
+  indexing: boolean;
+  error: string | null;
+}
+
+export interface SemanticSearchOptions {
+  limit?: number;
+  // Only search notes in this folder (and below)
+  folder?: string;
+}
+
+/**
+ * Vector index of note chunks for semantic search, embedded through the LLM server
+ * and stored in the plugin folder. Kept up to date from vault events; only notes
+ * whose content changed are embedded again.
+ */
+export class SemanticIndex {
+  private plugin: VaultAIPlugin;
+  private data: IndexData = createIndexData('');
+  // Decoded vectors by path, parallel to data.files[path].chunks
+  private vectors: Map<string, Float32Array[]> = new Map();
+  private pending: Set<string> = new Set();
+  private processing: Promise<void> | null = null;
+  private lastError: string | null = null;
+  // Changes not yet written to disk
+  private dirty = false;
+  private changeListeners: Set<() => void> = new Set();
+  private scheduleSave = debounce(() => this.save(), 5000, true);
+  // Editing fires modify on every keystroke pause; wait for a quiet moment
+  private scheduleProcessing = debounce(() => this.processQueue(), 2000, true);
+
+  constructor(plugin: VaultAIPlugin) {
+    this.plugin = plugin;
+  }
+
+  async load(): Promise<void> {
+    const adapter = this.plugin.app.vault.adapter;
+    const path = this.getIndexPath();
+
+    if (!(await adapter.exists(path))) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(await adapter.read(path)) as IndexData;
+      if (data.version !== INDEX_VERSION) {
+        return;
+      }
+
+      this.data = data;
+      for (const [filePath, file] of Object.entries(data.files)) {
+        this.vectors.set(filePath, file.chunks.map((chunk) => decodeVector(chunk.vector)));
+      }
+    } catch (error) {
+      // The index can always be rebuilt from the vault
+      console.warn('[Vault AI] Ignoring unreadable semantic index:', error);
+    }
+  }
+
+  /**
+   * Follow vault changes and index notes added or edited since the last run.
+   * Call once the workspace layout is ready, so startup does not fire a create per file.
+   */
+  start(): void {
+    const vault = this.plugin.app.vault;
+    this.plugin.registerEvent(vault.on('create', (file) => this.queueFile(file)));
+    this.plugin.registerEvent(vault.on('modify', (file) => this.queueFile(file)));
+    this.plugin.registerEvent(vault.on('delete', (file) => this.removeFile(file.path)));
+    this.plugin.registerEvent(vault.on('rename', (file, oldPath) => this.renameFile(file, oldPath)));
+
+    this.sync();
+  }
+
+  /**
+   * Queue every note that is new or changed since it was indexed, and drop deleted
+   * ones. Starts over when the embedding model changed.
+   */
+  sync(): void {
+    const model = this.plugin.settings.embeddingModel;
+    if (!model) {
+      this.pending.clear();
+      this.notifyChange();
+      return;
+    }
+
+    if (this.data.model !== model) {
+      this.reset(model);
+    }
+
+    const files = this.plugin.app.vault.getMarkdownFiles().filter((file) => this.isIndexed(file));
+    const existing = new Set(files.map((file) => file.path));
+    for (const path of Object.keys(this.data.files)) {
+      if (!existing.has(path)) {
+        this.removeFile(path);
+      }
+    }
+    for (const file of files) {
+      if (this.data.files[file.path]?.mtime !== file.stat.mtime) {
+        this.pending.add(file.path);
+      }
+    }
+
+    this.notifyChange();
+    this.processQueue();
+  }
+
+  /**
+   * Drop the index and embed every note again
+   */
+  rebuild(): void {
+    this.reset(this.plugin.settings.embeddingModel);
+    this.markDirty();
+    this.sync();
+  }
+
+  /**
+   * Chunks most similar in meaning to the query, best first
+   */
+  async search(query: string, options: SemanticSearchOptions = {}): Promise<SemanticSearchResult[]> {
+    const model = this.plugin.settings.embeddingModel;
+    if (!model) {
+      throw new Error('Semantic search needs an embedding model. Choose one in Settings → Vault AI → Semantic Search.');
+    }
+    if (this.data.model !== model) {
+      this.sync();
+    } else if (this.pending.size > 0) {
+      // Retry notes left over from a failed run
+      this.processQueue();
+    }
+
+    const [queryVector] = await this.embed([query]);
+    const folder = options.folder?.replace(/^\/+|\/+$/g, '');
+
+    const scored: { path: string; chunk: IndexedChunk; score: number }[] = [];
+    for (const [path, vectors] of this.vectors) {
+      if (folder && !path.startsWith(folder + '/')) continue;
+
+      const chunks = this.data.files[path].chunks;
+      vectors.forEach((vector, i) => {
+        scored.push({ path, chunk: chunks[i], score: dotProduct(queryVector, vector) });
+      });
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+    const top = scored.slice(0, options.limit ?? 5);
+
+    const results: SemanticSearchResult[] = [];
+    for (const { path, chunk, score } of top) {
+      results.push({
+        filePath: path,
+        heading: chunk.heading,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        score,
+        excerpt: await this.getExcerpt(path, chunk),
+      });
+    }
+    return results;
+  }
+
+  getStatus(): SemanticIndexStatus {
+    let chunks = 0;
+    for (const file of Object.values(this.data.files)) {
+      chunks += file.chunks.length;
+    }
+
+    return {
+      model: this.data.model,
+      files: Object.keys(this.data.files).length,
+      chunks,
+      pending: this.pending.size,
+      indexing: this.processing !== null,
+      error: this.lastError,
+    };
+  }
+
+  /**
+   * Subscribe to index progress. Returns an unsubscribe function.
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Write pending changes to disk, e.g. when the plugin unloads
+   */
+  async flush(): Promise<void> {
+    this.scheduleSave.cancel();
+    await this.save();
+  }
+
+  // ============================================================================
+  // Internals
+  // ============================================================================
+
+  private queueFile(file: TAbstractFile): void {
+    if (!this.plugin.settings.embeddingModel || !this.isIndexed(file)) return;
+
+    this.pending.add(file.path);
+    this.scheduleProcessing();
+  }
+
+  // Chat notes and exports are left out
+  private isIndexed(file: TAbstractFile | null): file is TFile {
+    return isNote(file) && !isInPluginFolder(file.path, this.plugin.settings);
+  }
+
+  private removeFile(path: string): void {
+    this.pending.delete(path);
+    if (!this.data.files[path]) return;
+
+    delete this.data.files[path];
+    this.vectors.delete(path);
+    this.markDirty();
+    this.notifyChange();
+  }
+
+  /**
+   * Renames keep their vectors; only the path changes
+   */
+  private renameFile(file: TAbstractFile, oldPath: string): void {
+    if (this.pending.delete(oldPath)) {
+      this.pending.add(file.path);
+    }
+
+    const entry = this.data.files[oldPath];
+    if (!entry) {
+      this.queueFile(file);
+      return;
+    }
+
+    this.removeFile(oldPath);
+    if (this.isIndexed(file)) {
+      this.data.files[file.path] = entry;
+      this.vectors.set(file.path, entry.chunks.map((chunk) => decodeVector(chunk.vector)));
+    }
+  }
+
+  /**
+   * Embed queued notes one at a time. On failure (e.g. the server is offline) the
+   * remaining notes stay queued until the next change or sync.
+   */
+  private processQueue(): Promise<void> {
+    if (this.processing) {
+      return this.processing;
+    }
+    if (this.pending.size === 0 || !this.plugin.settings.embeddingModel) {
+      return Promise.resolve();
+    }
+
+    this.processing = (async () => {
+      this.lastError = null;
+      try {
+        while (this.pending.size > 0) {
+          const [path] = this.pending;
+          this.pending.delete(path);
+
+          try {
+            await this.indexFile(path);
+          } catch (error) {
+            this.pending.add(path);
+            throw error;
+          }
+          this.notifyChange();
+        }
+      } catch (error) {
+        console.error('[Vault AI] Semantic indexing failed:', error);
+        this.lastError = error instanceof Error ? error.message : String(error);
+      } finally {
+        this.processing = null;
+        this.notifyChange();
+      }
+    })();
+
+    return this.processing;
+  }
+
+  private async indexFile(path: string): Promise<void> {
+    const model = this.data.model;
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (!this.isIndexed(file)) {
+      this.removeFile(path);
+      return;
+    }
+
+    const content = await this.plugin.app.vault.cachedRead(file);
+    const hash = hashContent(content);
+    const existing = this.data.files[path];
+    if (existing?.hash === hash) {
+      existing.mtime = file.stat.mtime;
+      this.markDirty();
+      return;
+    }
+
+    const chunks = chunkNote(content);
+    const vectors: Float32Array[] = [];
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+      vectors.push(...(await this.embed(batch.map((chunk) => getEmbeddingText(file, chunk)))));
+    }
+
+    // The model changed while embedding; these vectors belong to the old index
+    if (this.data.model !== model) {
+      return;
+    }
+
+    this.markDirty();
+    this.data.files[path] = {
+      hash,
+      mtime: file.stat.mtime,
+      chunks: chunks.map((chunk, i) => ({
+        heading: chunk.heading,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        vector: encodeVector(vectors[i]),
+      })),
+    };
+    this.vectors.set(path, vectors);
+  }
+
+  private async embed(texts: string[]): Promise<Float32Array[]> {
+    const client = this.plugin.llmClient;
+    if (!client) {
+      throw new Error('No LLM server configured');
+    }
+
+    const embeddings = await client.embed(texts, this.plugin.settings.embeddingModel);
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} embeddings, got ${embeddings.length}`);
+    }
+    return embeddings.map(normalize);
+  }
+
+  private async getExcerpt(path: string, chunk: IndexedChunk): Promise<string> {
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return '';
+
+    const lines = (await this.plugin.app.vault.cachedRead(file)).split('\n');
+    const text = lines.slice(chunk.startLine - 1, chunk.endLine).join('\n').trim();
+    return text.length > MAX_EXCERPT_CHARS ? text.slice(0, MAX_EXCERPT_CHARS) + '...' : text;
+  }
+
+  private reset(model: string): void {
+    this.data = createIndexData(model);
+    this.vectors.clear();
+    this.pending.clear();
+  }
+
+  private markDirty(): void {
+    this.dirty = true;
+    this.scheduleSave();
+  }
+
+  private async save(): Promise<void> {
+    if (!this.dirty) return;
+    this.dirty = false;
+
+    try {
+      await this.plugin.app.vault.adapter.write(this.getIndexPath(), JSON.stringify(this.data));
+    } catch (error) {
+      console.error('[Vault AI] Failed to save semantic index:', error);
+    }
+  }
+
+  private getIndexPath(): string {
+    return this.plugin.getPluginFilePath(INDEX_FILE);
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+}
+
+function createIndexData(model: string): IndexData {
+  return { version: INDEX_VERSION, model, files: {} };
+}
+
+function isNote(file: TAbstractFile | null): file is TFile {
+  return file instanceof TFile && file.extension === 'md';
+}
+
+/**
+ * The note title and heading path give short chunks the context they lack on their own
+ */
+function getEmbeddingText(file: TFile, chunk: NoteChunk): string {
+  const title = chunk.heading ? `${file.basename} > ${chunk.heading}` : file.basename;
+  return `${title}\n\n${chunk.text}`;
+}
+
+// Unit length, so cosine similarity is a plain dot product
+function normalize(vector: number[]): Float32Array {
+  const result = new Float32Array(vector);
+  let norm = 0;
+  for (let i = 0; i < result.length; i++) {
+    norm += result[i] * result[i];
+  }
+  norm = Math.sqrt(norm) || 1;
+  for (let i = 0; i < result.length; i++) {
+    result[i] /= norm;
+  }
+  return result;
+}
+
+function dotProduct(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function encodeVector(vector: Float32Array): string {
+  return arrayBufferToBase64(vector.buffer as ArrayBuffer);
+}
+
+function decodeVector(encoded: string): Float32Array {
+  return new Float32Array(base64ToArrayBuffer(encoded));
+}
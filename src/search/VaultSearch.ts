@@ -1,54 +1,180 @@
-import { App, TFile, TFolder } from 'obsidian';
-import { SearchResult, SearchMatch, ContextScope } from '../types';
+import { App, TFile, TFolder, getAllTags } from 'obsidian';
+import { SearchResult, SearchMatch, ContextScope, GraphScopeOptions, VaultAISettings } from '../types';
+import { isInPluginFolder } from '../tools/helpers';
+import { KeywordIndex, ParsedQuery, countQueryMatches } from './KeywordIndex';
+import {
+  CREATED_KEYS,
+  MODIFIED_KEYS,
+  QueryNode,
+  dropStopWords,
+  getRankingTerms,
+  parseDateRange,
+  parseSearchQuery,
+} from './SearchQuery';
+
+// Ranked notes returned by searchFiles
+const MAX_RESULTS = 50;
+// Notes in the 'graph' scope; the farthest, least connected ones are dropped first
+const MAX_GRAPH_NOTES = 200;
+
+const DEFAULT_GRAPH_OPTIONS: GraphScopeOptions = { depth: 2, direction: 'both', sharedTags: false };
 
 export class VaultSearch {
   private app: App;
+  private keywordIndex: KeywordIndex;
+  private settings: VaultAISettings;
 
-  constructor(app: App) {
+  constructor(app: App, keywordIndex: KeywordIndex, settings: VaultAISettings) {
     this.app = app;
+    this.keywordIndex = keywordIndex;
+    this.settings = settings;
   }
 
+  /**
+   * Notes in scope matching a query (see SearchQuery for the syntax), ranked by
+   * the keyword index, with the lines that match best. Notes matched by filters
+   * alone are listed most recently modified first. Throws on malformed queries.
+   */
   async searchFiles(
     query: string,
     scope: ContextScope,
     currentFilePath?: string
   ): Promise<SearchResult[]> {
+    const parsed = parseSearchQuery(query);
+    const node = parsed && dropStopWords(parsed);
+    if (!node) return [];
+
     const files = await this.getFilesInScope(scope, currentFilePath);
+    const matched = await this.evaluate(node, files);
+    const terms = getRankingTerms(node);
+
+    let ranked: { path: string; score?: number }[];
+    if (terms.terms.length + terms.prefixes.length + terms.phrases.length > 0) {
+      ranked = this.keywordIndex.rank(terms, matched);
+    } else {
+      ranked = files
+        .filter((file) => matched.has(file.path))
+        .sort((a, b) => b.stat.mtime - a.stat.mtime)
+        .map((file) => ({ path: file.path }));
+    }
+
     const results: SearchResult[] = [];
-    const queryLower = query.toLowerCase();
-    const searchTerms = queryLower.split(/\s+/).filter((t) => t.length > 2);
+    for (const { path, score } of ranked.slice(0, MAX_RESULTS)) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
 
-    for (const file of files) {
       const content = await this.app.vault.cachedRead(file);
-      const matches = this.findMatches(content, searchTerms);
+      results.push({
+        filePath: file.path,
+        fileName: file.name,
+        // Empty when only the title or the filters matched
+        matches: this.findMatches(content, terms),
+        score,
+      });
+    }
 
-      if (matches.length > 0) {
-        results.push({
-          filePath: file.path,
-          fileName: file.name,
-          matches,
-        });
+    return results;
+  }
+
+  /**
+   * Notes matching a query, e.g. to narrow a regex search. Throws on malformed queries.
+   */
+  async filterFiles(query: string, files: TFile[] = this.app.vault.getMarkdownFiles()): Promise<TFile[]> {
+    const parsed = parseSearchQuery(query);
+    const node = parsed && dropStopWords(parsed);
+    if (!node) return files;
+
+    const matched = await this.evaluate(node, files);
+    return files.filter((file) => matched.has(file.path));
+  }
+
+  /**
+   * Paths of the files matching a query node. Text is looked up in the keyword
+   * index; filters are checked against the metadata cache.
+   */
+  private async evaluate(node: QueryNode, files: TFile[]): Promise<Set<string>> {
+    const all = new Set(files.map((file) => file.path));
+
+    switch (node.type) {
+      case 'and': {
+        let result = all;
+        for (const child of node.children) {
+          if (result.size === 0) break;
+          const narrowed = files.filter((file) => result.has(file.path));
+          result = await this.evaluate(child, narrowed);
+        }
+        return result;
       }
+      case 'or': {
+        const result = new Set<string>();
+        for (const child of node.children) {
+          (await this.evaluate(child, files)).forEach((path) => result.add(path));
+        }
+        return result;
+      }
+      case 'not': {
+        const excluded = await this.evaluate(node.child, files);
+        return new Set(files.filter((file) => !excluded.has(file.path)).map((file) => file.path));
+      }
+      case 'text':
+        // Null only for stop words, which dropStopWords has already removed
+        return (await this.keywordIndex.findDocs(node.kind, node.text, all)) ?? all;
+      case 'filter':
+        return new Set(files.filter((file) => this.matchesFilter(file, node.key, node.value)).map((file) => file.path));
     }
+  }
 
-    // Sort by number of matches (most relevant first)
-    results.sort((a, b) => b.matches.length - a.matches.length);
+  private matchesFilter(file: TFile, key: string, value: string): boolean {
+    const needle = value.toLowerCase();
 
-    return results;
+    if (key === 'tag') {
+      const cache = this.app.metadataCache.getFileCache(file);
+      const tag = needle.replace(/^#/, '');
+      // Nested tags match their parent: tag:project matches #project/alpha
+      return (cache ? getAllTags(cache) || [] : []).some((t) => {
+        const name = t.toLowerCase().replace(/^#/, '');
+        return name === tag || name.startsWith(tag + '/');
+      });
+    }
+    if (key === 'path') {
+      // Match from the start of a path segment: path:Projects/ matches Work/Projects/ but not OldProjects/
+      const path = file.path.toLowerCase();
+      const prefix = needle.replace(/^\/+/, '');
+      return path.startsWith(prefix) || path.includes('/' + prefix);
+    }
+    if (key === 'file') {
+      return file.name.toLowerCase().includes(needle);
+    }
+    if (MODIFIED_KEYS.includes(key) || CREATED_KEYS.includes(key)) {
+      const range = parseDateRange(needle);
+      if (!range) {
+        throw new Error(`Invalid search query: "${value}" is not a date for ${key}: (use e.g. 2024-05-01, >=2024-05, >=7d or 2024-01..2024-03)`);
+      }
+      const time = MODIFIED_KEYS.includes(key) ? file.stat.mtime : file.stat.ctime;
+      return time >= range.start && time < range.end;
+    }
+
+    // Anything else is a frontmatter property; list values match any item
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontmatter) return false;
+
+    const property = Object.keys(frontmatter).find((name) => name.toLowerCase() === key);
+    if (property === undefined) return false;
+
+    const propertyValue = frontmatter[property];
+    const values: unknown[] = Array.isArray(propertyValue) ? propertyValue : [propertyValue];
+    return values.some((item) => item !== null && item !== undefined && String(item).toLowerCase() === needle);
   }
 
-  private findMatches(content: string, searchTerms: string[]): SearchMatch[] {
+  private findMatches(content: string, query: ParsedQuery): SearchMatch[] {
     const lines = content.split('\n');
-    const matches: SearchMatch[] = [];
+    const matches: (SearchMatch & { matchCount: number })[] = [];
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
-      const lineLower = line.toLowerCase();
-
-      // Check if any search term matches
-      const matchedTerms = searchTerms.filter((term) => lineLower.includes(term));
+      const matchCount = countQueryMatches(line, query);
 
-      if (matchedTerms.length > 0) {
+      if (matchCount > 0) {
         // Get context (2 lines before and after)
         const contextStart = Math.max(0, i - 2);
         const contextEnd = Math.min(lines.length - 1, i + 2);
@@ -58,29 +184,48 @@ export class VaultSearch {
           line: i + 1,
           content: line.trim(),
           context: contextLines.join('\n'),
+          matchCount,
         });
       }
     }
 
-    // Limit to top 5 matches per file
-    return matches.slice(0, 5);
+    // Top 5 lines by number of query terms matched, in note order
+    return matches
+      .sort((a, b) => b.matchCount - a.matchCount || a.line - b.line)
+      .slice(0, 5)
+      .sort((a, b) => a.line - b.line)
+      .map(({ line, content, context }) => ({ line, content, context }));
   }
 
+  /**
+   * Notes a scope covers. Chat notes and exports are left out, except as the
+   * current note itself.
+   */
   async getFilesInScope(
     scope: ContextScope,
-    currentFilePath?: string
+    currentFilePath?: string,
+    graphOptions: GraphScopeOptions = DEFAULT_GRAPH_OPTIONS
   ): Promise<TFile[]> {
+    if (scope === 'current') {
+      return this.getCurrentFile(currentFilePath);
+    }
+
+    let files: TFile[];
     switch (scope) {
-      case 'current':
-        return this.getCurrentFile(currentFilePath);
       case 'linked':
-        return this.getLinkedFiles(currentFilePath);
+        files = this.getLinkedFiles(currentFilePath);
+        break;
+      case 'graph':
+        files = this.getGraphFiles(currentFilePath, graphOptions);
+        break;
       case 'folder':
-        return this.getFilesInCurrentFolder(currentFilePath);
+        files = this.getFilesInCurrentFolder(currentFilePath);
+        break;
       case 'vault':
       default:
-        return this.app.vault.getMarkdownFiles();
+        files = this.app.vault.getMarkdownFiles();
     }
+    return files.filter((file) => !isInPluginFolder(file.path, this.settings));
   }
 
   private getCurrentFile(currentFilePath?: string): TFile[] {
@@ -128,6 +273,93 @@ export class VaultSearch {
     return Array.from(linkedFiles);
   }
 
+  /**
+   * Notes within `depth` links of the current note, following outlinks, backlinks
+   * or both. Notes sharing a tag with the current note count as one hop away but
+   * are not followed further. Nearest notes come first; at the same distance, notes
+   * with more links (degree centrality) come first.
+   */
+  private getGraphFiles(currentFilePath: string | undefined, options: GraphScopeOptions): TFile[] {
+    const currentFiles = this.getCurrentFile(currentFilePath);
+    if (currentFiles.length === 0) return [];
+
+    const currentFile = currentFiles[0];
+    const resolvedLinks = this.app.metadataCache.resolvedLinks;
+
+    const backlinks = new Map<string, Set<string>>();
+    for (const [sourcePath, links] of Object.entries(resolvedLinks)) {
+      for (const targetPath of Object.keys(links)) {
+        if (targetPath === sourcePath) continue;
+        let sources = backlinks.get(targetPath);
+        if (!sources) {
+          sources = new Set();
+          backlinks.set(targetPath, sources);
+        }
+        sources.add(sourcePath);
+      }
+    }
+
+    const getOutlinks = (path: string) => Object.keys(resolvedLinks[path] || {}).filter((target) => target !== path);
+    const getBacklinks = (path: string) => Array.from(backlinks.get(path) || []);
+    const getNeighbors = (path: string): string[] => {
+      switch (options.direction) {
+        case 'outlinks':
+          return getOutlinks(path);
+        case 'backlinks':
+          return getBacklinks(path);
+        default:
+          return [...getOutlinks(path), ...getBacklinks(path)];
+      }
+    };
+
+    // Breadth-first, so each note gets its shortest distance
+    const distances = new Map<string, number>([[currentFile.path, 0]]);
+    let frontier = [currentFile.path];
+    for (let hop = 1; hop <= Math.max(1, options.depth) && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const path of frontier) {
+        for (const neighbor of getNeighbors(path)) {
+          if (!distances.has(neighbor)) {
+            distances.set(neighbor, hop);
+            next.push(neighbor);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    if (options.sharedTags) {
+      const tags = new Set(this.getTags(currentFile));
+      if (tags.size > 0) {
+        for (const file of this.app.vault.getMarkdownFiles()) {
+          if (!distances.has(file.path) && this.getTags(file).some((tag) => tags.has(tag))) {
+            distances.set(file.path, 1);
+          }
+        }
+      }
+    }
+
+    const getDegree = (path: string) => new Set([...getOutlinks(path), ...getBacklinks(path)]).size;
+
+    const ranked: { file: TFile; distance: number; degree: number }[] = [];
+    for (const [path, distance] of distances) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile && file.extension === 'md') {
+        ranked.push({ file, distance, degree: getDegree(path) });
+      }
+    }
+
+    return ranked
+      .sort((a, b) => a.distance - b.distance || b.degree - a.degree || a.file.path.localeCompare(b.file.path))
+      .slice(0, MAX_GRAPH_NOTES)
+      .map(({ file }) => file);
+  }
+
+  private getTags(file: TFile): string[] {
+    const cache = this.app.metadataCache.getFileCache(file);
+    return (cache ? getAllTags(cache) || [] : []).map((tag) => tag.toLowerCase().replace(/^#/, ''));
+  }
+
   private getFilesInCurrentFolder(currentFilePath?: string): TFile[] {
     const currentFiles = this.getCurrentFile(currentFilePath);
     if (currentFiles.length === 0) return this.app.vault.getMarkdownFiles();
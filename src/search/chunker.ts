@@ -0,0 +1,138 @@
+/**
+ * Splitting notes into heading-aware chunks for search indexes
+ */
+
+export interface NoteChunk {
+  // Heading path, e.g. "Setup > Install"; empty for text before the first heading
+  heading: string;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+// Sections longer than this are split at blank lines
+const MAX_CHUNK_CHARS = 1500;
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+interface Section {
+  heading: string;
+  // 0-based line indexes, end exclusive
+  start: number;
+  end: number;
+  hasBody: boolean;
+}
+
+/**
+ * Split a note into chunks, one per heading section. Frontmatter is skipped,
+ * headings inside code blocks are ignored, sections without text below their
+ * heading are dropped and long sections are split into paragraphs.
+ */
+export function chunkNote(content: string): NoteChunk[] {
+  const lines = content.split('\n');
+  const sections: Section[] = [];
+  const headingStack: { level: number; text: string }[] = [];
+
+  const start = getBodyStart(lines);
+  let current: Section = { heading: '', start, end: start, hasBody: false };
+  let inFence = false;
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+
+    const match = inFence ? null : line.match(HEADING_PATTERN);
+    if (match) {
+      current.end = i;
+      sections.push(current);
+
+      const level = match[1].length;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, text: match[2] });
+
+      current = { heading: headingStack.map((h) => h.text).join(' > '), start: i, end: i, hasBody: false };
+    } else if (line.trim()) {
+      current.hasBody = true;
+    }
+  }
+
+  current.end = lines.length;
+  sections.push(current);
+
+  const chunks: NoteChunk[] = [];
+  for (const section of sections) {
+    if (section.hasBody) {
+      chunks.push(...splitSection(lines, section));
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Index of the first line after the frontmatter block, if any
+ */
+function getBodyStart(lines: string[]): number {
+  if (lines[0]?.trim() !== '---') {
+    return 0;
+  }
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() === '---') {
+      return i + 1;
+    }
+  }
+  return 0;
+}
+
+function splitSection(lines: string[], section: Section): NoteChunk[] {
+  const chunks: NoteChunk[] = [];
+  let chunkStart = section.start;
+  let size = 0;
+  let inFence = false;
+
+  const flush = (end: number) => {
+    const text = lines.slice(chunkStart, end).join('\n').trim();
+    if (text) {
+      chunks.push({ heading: section.heading, startLine: chunkStart + 1, endLine: end, text });
+    }
+    chunkStart = end;
+    size = 0;
+  };
+
+  for (let i = section.start; i < section.end; i++) {
+    const line = lines[i];
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+
+    // Break at a paragraph boundary once the chunk is full; code blocks stay whole
+    if (!inFence && !line.trim() && size >= MAX_CHUNK_CHARS) {
+      flush(i);
+    }
+    size += line.length + 1;
+  }
+
+  flush(section.end);
+  return trimLineRanges(lines, chunks);
+}
+
+/**
+ * Drop leading and trailing blank lines from each chunk's line range
+ */
+function trimLineRanges(lines: string[], chunks: NoteChunk[]): NoteChunk[] {
+  for (const chunk of chunks) {
+    while (chunk.startLine < chunk.endLine && !lines[chunk.startLine - 1].trim()) {
+      chunk.startLine++;
+    }
+    while (chunk.endLine > chunk.startLine && !lines[chunk.endLine - 1].trim()) {
+      chunk.endLine--;
+    }
+  }
+  return chunks;
+}
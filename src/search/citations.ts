@@ -0,0 +1,138 @@
+import { App } from 'obsidian';
+import { Citation, RetrievedChunk } from '../types';
+
+/**
+ * Prompt rules for citing passages; pairs with the "Cite as" line of formatChunkForPrompt
+ */
+export const CITATION_INSTRUCTIONS = `- Cite your sources inline, right after each statement, using the "Cite as" link of the passage it comes from, e.g. [[Projects/Alpha#Timeline]]
+- To cite a single block marked with ^id in a passage, use the note and block id, e.g. [[Projects/Alpha#^id]]
+- Only cite passages given to you`;
+
+// `^block-id` at the end of a line
+const BLOCK_ID_PATTERN = /\s\^([A-Za-z0-9-]+)\s*$/;
+const WIKILINK_PATTERN = /(!?)\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g;
+
+/**
+ * Link target for citing a chunk: the note path without extension and the
+ * innermost heading, e.g. "Projects/Alpha#Timeline"
+ */
+export function getCitationLink(chunk: RetrievedChunk): string {
+  const note = chunk.filePath.replace(/\.md$/, '');
+  const heading = getLastHeading(chunk.heading);
+  return heading ? `${note}#${heading}` : note;
+}
+
+/**
+ * Block ids (without ^) defined in a chunk's text
+ */
+export function getBlockIds(text: string): string[] {
+  const ids: string[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(BLOCK_ID_PATTERN);
+    if (match) {
+      ids.push(match[1]);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Check the wikilinks in an answer against the chunks the model was given. Links
+ * to a retrieved note, heading or block become citations; other links are
+ * replaced by their plain text so the answer does not point at unverified places.
+ */
+export function validateCitations(
+  app: App,
+  content: string,
+  chunks: RetrievedChunk[]
+): { content: string; citations: Citation[] } {
+  const citations = new Map<string, Citation>();
+
+  const validated = content.replace(WIKILINK_PATTERN, (match, embed: string, target: string, alias?: string) => {
+    if (embed) return match;
+
+    const link = target.trim();
+    const citation = citations.get(link) || resolveCitation(app, link, chunks);
+    if (citation) {
+      citations.set(link, citation);
+      return match;
+    }
+
+    console.warn('[Vault AI] Dropping citation not backed by a retrieved passage:', link);
+    return alias?.trim() || link.replace(/#\^?/g, ' > ');
+  });
+
+  return { content: validated, citations: Array.from(citations.values()) };
+}
+
+function resolveCitation(app: App, link: string, chunks: RetrievedChunk[]): Citation | null {
+  const hashIndex = link.indexOf('#');
+  const linkpath = hashIndex === -1 ? link : link.slice(0, hashIndex);
+  const subpath = hashIndex === -1 ? '' : link.slice(hashIndex + 1);
+
+  const file = app.metadataCache.getFirstLinkpathDest(linkpath, '');
+  const fileChunks = file ? chunks.filter((chunk) => chunk.filePath === file.path) : [];
+  if (!file || fileChunks.length === 0) {
+    return null;
+  }
+
+  // [[note#^block]]: the paragraph ending in the block id
+  if (subpath.startsWith('^')) {
+    const blockId = subpath.slice(1);
+    for (const chunk of fileChunks) {
+      const lines = chunk.text.split('\n');
+      const index = lines.findIndex((line) => line.match(BLOCK_ID_PATTERN)?.[1].toLowerCase() === blockId.toLowerCase());
+      if (index === -1) continue;
+
+      let start = index;
+      while (start > 0 && lines[start - 1].trim() && !/^#{1,6}\s/.test(lines[start - 1])) {
+        start--;
+      }
+      return {
+        link,
+        filePath: file.path,
+        heading: chunk.heading,
+        blockId,
+        startLine: chunk.startLine + start,
+        endLine: chunk.startLine + index,
+      };
+    }
+    return null;
+  }
+
+  // [[note#heading]], possibly written as a heading path [[note#Parent#Child]]
+  if (subpath) {
+    const heading = normalizeHeading(getLastHeading(subpath.replace(/#/g, ' > ')));
+    const matching = fileChunks.filter((chunk) => normalizeHeading(getLastHeading(chunk.heading)) === heading);
+    if (matching.length === 0) {
+      return null;
+    }
+    return {
+      link,
+      filePath: file.path,
+      heading: matching[0].heading,
+      startLine: Math.min(...matching.map((chunk) => chunk.startLine)),
+      endLine: Math.max(...matching.map((chunk) => chunk.endLine)),
+    };
+  }
+
+  // [[note]]: its most relevant passage
+  const [best] = fileChunks;
+  return {
+    link,
+    filePath: file.path,
+    heading: best.heading,
+    startLine: best.startLine,
+    endLine: best.endLine,
+  };
+}
+
+function getLastHeading(headingPath: string): string {
+  const parts = headingPath.split(' > ');
+  return parts[parts.length - 1].trim();
+}
+
+// Obsidian drops some characters from heading links, so compare letters and digits only
+function normalizeHeading(heading: string): string {
+  return heading.toLowerCase().replace(/[^a-z0-9À-￿]+/g, '');
+}
@@ -0,0 +1,194 @@
+/**
+ * Tokenization for the keyword index: lowercase words, stop-word removal and
+ * Porter stemming, so "Projects" and "project" match
+ */
+
+export const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'did',
+  'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'i',
+  'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on',
+  'or', 'our', 'she', 'so', 'such', 'than', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'this', 'those', 'to', 'was', 'we', 'were',
+  'what', 'when', 'where', 'which', 'who', 'will', 'with', 'would', 'you', 'your',
+]);
+
+// Letters (including accented and non-Latin scripts) and digits
+const WORD_PATTERN = /[a-z0-9À-ɏͰ-ϿЀ-ӿ֐-ۿ぀-ヿ一-鿿가-힯]+/g;
+
+/**
+ * Split text into lowercase words, without stemming or stop-word removal
+ */
+export function splitWords(text: string): string[] {
+  return text.toLowerCase().match(WORD_PATTERN) || [];
+}
+
+/**
+ * Index terms of a text: words without stop words, stemmed
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of splitWords(text)) {
+    if (!STOP_WORDS.has(word)) {
+      terms.push(stem(word));
+    }
+  }
+  return terms;
+}
+
+// ============================================================================
+// Porter stemmer (M.F. Porter, 1980)
+// ============================================================================
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize',
+  bli: 'ble', alli: 'al', entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize',
+  ation: 'ate', ator: 'ate', alism: 'al', iveness: 'ive', fulness: 'ful',
+  ousness: 'ous', aliti: 'al', iviti: 'ive', biliti: 'ble', logi: 'log',
+};
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: '',
+};
+
+const STEP4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+  'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+];
+
+/**
+ * Reduce an English word to its stem. Words that are short, contain digits or
+ * non-ASCII letters are returned unchanged.
+ */
+export function stem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+  // A leading y acts as a consonant
+  const startsWithY = w[0] === 'y';
+  if (startsWithY) {
+    w = 'Y' + w.slice(1);
+  }
+
+  // Step 1a: plurals
+  if (w.endsWith('sses') || w.endsWith('ies')) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('s') && !w.endsWith('ss')) {
+    w = w.slice(0, -1);
+  }
+
+  // Step 1b: -ed, -ing
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) {
+      w = w.slice(0, -1);
+    }
+  } else {
+    const suffix = w.endsWith('ed') ? 'ed' : w.endsWith('ing') ? 'ing' : null;
+    if (suffix && hasVowel(w.slice(0, -suffix.length))) {
+      w = w.slice(0, -suffix.length);
+      if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+        w += 'e';
+      } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsWithCVC(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y -> i
+  if (w.endsWith('y') && hasVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + 'i';
+  }
+
+  // Step 2: double suffixes
+  w = replaceSuffix(w, STEP2_SUFFIXES);
+
+  // Step 3: -ic-, -full, -ness etc.
+  w = replaceSuffix(w, STEP3_SUFFIXES);
+
+  // Step 4: remove suffixes when the stem is long enough
+  for (const suffix of STEP4_SUFFIXES) {
+    if (!w.endsWith(suffix)) continue;
+    const base = w.slice(0, -suffix.length);
+    if (measure(base) > 1 && (suffix !== 'ion' || /[st]$/.test(base))) {
+      w = base;
+    }
+    break;
+  }
+
+  // Step 5a: final e
+  if (w.endsWith('e')) {
+    const base = w.slice(0, -1);
+    const m = measure(base);
+    if (m > 1 || (m === 1 && !endsWithCVC(base))) {
+      w = base;
+    }
+  }
+
+  // Step 5b: -ll
+  if (measure(w) > 1 && w.endsWith('ll')) {
+    w = w.slice(0, -1);
+  }
+
+  return startsWithY ? 'y' + w.slice(1) : w;
+}
+
+// Only the first matching suffix counts, even if its stem is too short
+function replaceSuffix(w: string, suffixes: Record<string, string>): string {
+  for (const [suffix, replacement] of Object.entries(suffixes)) {
+    if (w.endsWith(suffix)) {
+      const base = w.slice(0, -suffix.length);
+      return measure(base) > 0 ? base + replacement : w;
+    }
+  }
+  return w;
+}
+
+function isConsonant(w: string, i: number): boolean {
+  const c = w[i];
+  if ('aeiou'.includes(c)) return false;
+  if (c === 'y') return i === 0 || !isConsonant(w, i - 1);
+  return true;
+}
+
+/**
+ * Number of vowel-consonant sequences ("m" in Porter's paper)
+ */
+function measure(w: string): number {
+  let m = 0;
+  let previousVowel = false;
+  for (let i = 0; i < w.length; i++) {
+    const vowel = !isConsonant(w, i);
+    if (previousVowel && !vowel) {
+      m++;
+    }
+    previousVowel = vowel;
+  }
+  return m;
+}
+
+function hasVowel(w: string): boolean {
+  for (let i = 0; i < w.length; i++) {
+    if (!isConsonant(w, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(w: string): boolean {
+  const n = w.length;
+  return n >= 2 && w[n - 1] === w[n - 2] && isConsonant(w, n - 1);
+}
+
+// consonant-vowel-consonant, where the last consonant is not w, x or y
+function endsWithCVC(w: string): boolean {
+  const n = w.length;
+  return (
+    n >= 3 &&
+    isConsonant(w, n - 3) &&
+    !isConsonant(w, n - 2) &&
+    isConsonant(w, n - 1) &&
+    !'wxy'.includes(w[n - 1])
+  );
+}
@@ -1,10 +1,26 @@
-import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, DropdownComponent, FileSystemAdapter, PluginSettingTab, Setting, Notice } from 'obsidian';
 import type VaultAIPlugin from './main';
-import { DEFAULT_SYSTEM_PROMPT } from './types';
+import { generateAuthToken } from './mcp';
+import { getToolAction } from './tools';
+import { normalizeFolderPath } from './tools/helpers';
+import { ChatHistoryStorage, DEFAULT_SETTINGS, DEFAULT_SYSTEM_PROMPT, DEFAULT_SERVER_URLS, GraphDirection, ServerType, ToolCallingMode, ToolPolicyAction } from './types';
+
+const SERVER_TYPE_LABELS: Record<ServerType, string> = {
+  lmstudio: 'LM Studio',
+  ollama: 'Ollama',
+  openai: 'OpenAI-compatible',
+};
+
+const POLICY_LABELS: Record<ToolPolicyAction, string> = {
+  allow: 'Allow',
+  ask: 'Ask',
+  deny: 'Deny',
+};
 
 export class VaultAISettingTab extends PluginSettingTab {
   plugin: VaultAIPlugin;
   private modelDropdown: HTMLSelectElement | null = null;
+  private unsubscribeIndexStatus: (() => void) | null = null;
 
   constructor(app: App, plugin: VaultAIPlugin) {
     super(app, plugin);
@@ -31,19 +47,34 @@ export class VaultAISettingTab extends PluginSettingTab {
     // System Prompt Section
     this.renderSystemPromptSection(containerEl);
 
+    // Semantic Search Section
+    this.renderSemanticSearchSection(containerEl);
+
+    // Link Graph Scope Section
+    this.renderGraphScopeSection(containerEl);
+
+    // Chat History Section
+    this.renderChatHistorySection(containerEl);
+
     // Advanced Section
     this.renderAdvancedSection(containerEl);
   }
 
+  hide(): void {
+    this.unsubscribeIndexStatus?.();
+    this.unsubscribeIndexStatus = null;
+  }
+
   private renderStatusCards(container: HTMLElement): void {
     const cardsContainer = container.createDiv('vault-ai-status-cards');
 
-    // LM Studio Status
+    // LLM Server Status
+    const serverLabel = SERVER_TYPE_LABELS[this.plugin.settings.serverType];
     const lmCard = cardsContainer.createDiv('vault-ai-status-card');
     const lmIcon = lmCard.createDiv('vault-ai-status-card-icon');
     lmIcon.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="3"/><path d="M12 1v6m0 6v10"/><path d="m15.5 3.5-7 7"/><path d="m19.5 7.5-15 9"/><path d="m23 12h-6m-6 0H1"/><path d="m19.5 16.5-15-9"/><path d="m15.5 20.5-7-7"/></svg>`;
     const lmContent = lmCard.createDiv('vault-ai-status-card-content');
-    lmContent.createEl('span', { text: 'LM Studio', cls: 'vault-ai-status-card-label' });
+    lmContent.createEl('span', { text: serverLabel, cls: 'vault-ai-status-card-label' });
     const lmStatus = lmContent.createEl('span', { cls: 'vault-ai-status-card-value' });
 
     this.plugin.llmClient?.isConnected().then(connected => {
@@ -103,13 +134,41 @@ export class VaultAISettingTab extends PluginSettingTab {
     const section = container.createDiv('vault-ai-settings-section');
     section.createEl('h3', { text: 'Connection', cls: 'vault-ai-settings-section-title' });
 
+    const serverType = this.plugin.settings.serverType;
+    const serverLabel = SERVER_TYPE_LABELS[serverType];
+
+    // Server Type
+    new Setting(section)
+      .setName('Server type')
+      .setDesc('Which local LLM server to connect to')
+      .addDropdown((dropdown) => {
+        for (const [value, label] of Object.entries(SERVER_TYPE_LABELS)) {
+          dropdown.addOption(value, label);
+        }
+        dropdown.setValue(serverType);
+        dropdown.onChange(async (value) => {
+          const newType = value as ServerType;
+          // Swap the URL too, unless the user pointed it somewhere custom
+          if (this.plugin.settings.serverUrl === DEFAULT_SERVER_URLS[this.plugin.settings.serverType]) {
+            this.plugin.settings.serverUrl = DEFAULT_SERVER_URLS[newType];
+          }
+          this.plugin.settings.serverType = newType;
+          // Model ids are server specific
+          this.plugin.settings.selectedModel = '';
+          this.plugin.settings.embeddingModel = '';
+          await this.plugin.saveSettings();
+          this.plugin.semanticIndex.sync();
+          this.display();
+        });
+      });
+
     // Server URL
     new Setting(section)
-      .setName('LM Studio URL')
-      .setDesc('URL of your LM Studio server')
+      .setName(`${serverLabel} URL`)
+      .setDesc(`URL of your ${serverLabel} server`)
       .addText((text) =>
         text
-          .setPlaceholder('http://localhost:1234')
+          .setPlaceholder(DEFAULT_SERVER_URLS[serverType])
           .setValue(this.plugin.settings.serverUrl)
           .onChange(async (value) => {
             this.plugin.settings.serverUrl = value;
@@ -117,6 +176,50 @@ export class VaultAISettingTab extends PluginSettingTab {
           })
       );
 
+    // Auth and headers for OpenAI-compatible servers (llama.cpp, vLLM, LocalAI)
+    if (serverType === 'openai') {
+      new Setting(section)
+        .setName('API key')
+        .setDesc('Optional key sent with every request')
+        .addText((text) => {
+          text.inputEl.type = 'password';
+          text
+            .setPlaceholder('sk-...')
+            .setValue(this.plugin.settings.apiKey)
+            .onChange(async (value) => {
+              this.plugin.settings.apiKey = value.trim();
+              await this.plugin.saveSettings();
+            });
+        });
+
+      new Setting(section)
+        .setName('API key header')
+        .setDesc('Header that carries the key. "Authorization" sends it as a Bearer token.')
+        .addText((text) =>
+          text
+            .setPlaceholder('Authorization')
+            .setValue(this.plugin.settings.apiKeyHeader)
+            .onChange(async (value) => {
+              this.plugin.settings.apiKeyHeader = value.trim() || 'Authorization';
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(section)
+        .setName('Extra headers')
+        .setDesc('Additional headers, one "Name: value" per line')
+        .addTextArea((text) => {
+          text.inputEl.rows = 3;
+          text
+            .setPlaceholder('X-Custom-Header: value')
+            .setValue(this.plugin.settings.extraHeaders)
+            .onChange(async (value) => {
+              this.plugin.settings.extraHeaders = value;
+              await this.plugin.saveSettings();
+            });
+        });
+    }
+
     // Model Selection
     const modelSetting = new Setting(section)
       .setName('Model')
@@ -208,6 +311,204 @@ export class VaultAISettingTab extends PluginSettingTab {
     });
   }
 
+  private renderSemanticSearchSection(container: HTMLElement): void {
+    const section = container.createDiv('vault-ai-settings-section');
+    section.createEl('h3', { text: 'Semantic Search', cls: 'vault-ai-settings-section-title' });
+
+    const desc = section.createEl('p', { cls: 'vault-ai-settings-section-desc' });
+    desc.setText('Index your notes with an embedding model so the AI can find passages by meaning (the semantic_search tool). Notes are embedded by your LLM server and the index is kept in the plugin folder.');
+
+    new Setting(section)
+      .setName('Rerank with the chat model')
+      .setDesc('When answering vault questions, ask the chat model to order the retrieved passages by relevance. More accurate, but adds a model call to every question.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.searchRerank)
+          .onChange(async (value) => {
+            this.plugin.settings.searchRerank = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const saveModel = async (value: string) => {
+      this.plugin.settings.embeddingModel = value.trim();
+      await this.plugin.saveSettings();
+      this.plugin.semanticIndex.sync();
+    };
+
+    const modelSetting = new Setting(section)
+      .setName('Embedding model')
+      .setDesc('Changing the model rebuilds the index');
+
+    // LM Studio reports model types; other servers need the model name typed in
+    const embeddingModels = this.plugin.availableModelsInfo.filter((m) => m.type === 'embedding');
+    if (embeddingModels.length > 0) {
+      modelSetting.addDropdown((dropdown) => {
+        dropdown.addOption('', 'Off');
+        for (const model of embeddingModels) {
+          dropdown.addOption(model.key, model.display_name || model.key);
+        }
+        const current = this.plugin.settings.embeddingModel;
+        if (current && !embeddingModels.some((m) => m.key === current)) {
+          dropdown.addOption(current, current);
+        }
+        dropdown.setValue(current).onChange(async (value) => {
+          await saveModel(value);
+          this.display();
+        });
+      });
+    } else {
+      modelSetting.addText((text) => {
+        text
+          .setPlaceholder('e.g. nomic-embed-text (empty to turn off)')
+          .setValue(this.plugin.settings.embeddingModel);
+        // Only apply when editing is done, so every keystroke does not restart indexing
+        text.inputEl.addEventListener('change', async () => {
+          await saveModel(text.getValue());
+          this.display();
+        });
+      });
+    }
+
+    if (!this.plugin.settings.embeddingModel) {
+      return;
+    }
+
+    const statusSetting = new Setting(section)
+      .setName('Index status')
+      .addButton((button) =>
+        button
+          .setButtonText('Rebuild index')
+          .onClick(() => {
+            this.plugin.semanticIndex.rebuild();
+            new Notice('Rebuilding the semantic index');
+          })
+      );
+
+    const updateStatus = () => {
+      const status = this.plugin.semanticIndex.getStatus();
+      let text = `${status.files} notes indexed (${status.chunks} sections)`;
+      if (status.pending > 0) {
+        text += `, ${status.pending} waiting${status.indexing ? '' : ' (paused)'}`;
+      }
+      if (status.error) {
+        text += `. Last error: ${status.error}`;
+      }
+      statusSetting.setDesc(text);
+    };
+
+    updateStatus();
+    this.unsubscribeIndexStatus?.();
+    this.unsubscribeIndexStatus = this.plugin.semanticIndex.onChange(updateStatus);
+  }
+
+  private renderGraphScopeSection(container: HTMLElement): void {
+    const section = container.createDiv('vault-ai-settings-section');
+    section.createEl('h3', { text: 'Link Graph Scope', cls: 'vault-ai-settings-section-title' });
+
+    const desc = section.createEl('p', { cls: 'vault-ai-settings-section-desc' });
+    desc.setText('The "Link Graph" context searches the notes around the current note: the closest and most connected notes come first.');
+
+    new Setting(section)
+      .setName('Depth')
+      .setDesc('How many links away from the current note to go')
+      .addText((text) =>
+        text
+          .setPlaceholder('2')
+          .setValue(String(this.plugin.settings.graphScopeDepth))
+          .onChange(async (value) => {
+            const depth = parseInt(value, 10);
+            if (!isNaN(depth) && depth >= 1) {
+              this.plugin.settings.graphScopeDepth = depth;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(section)
+      .setName('Direction')
+      .setDesc('Which links to follow')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('both', 'Outgoing links and backlinks')
+          .addOption('outlinks', 'Outgoing links')
+          .addOption('backlinks', 'Backlinks')
+          .setValue(this.plugin.settings.graphScopeDirection)
+          .onChange(async (value) => {
+            this.plugin.settings.graphScopeDirection = value as GraphDirection;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(section)
+      .setName('Include notes with shared tags')
+      .setDesc('Also include notes that have a tag in common with the current note, as if they were linked')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.graphScopeSharedTags)
+          .onChange(async (value) => {
+            this.plugin.settings.graphScopeSharedTags = value;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  private renderChatHistorySection(container: HTMLElement): void {
+    const section = container.createDiv('vault-ai-settings-section');
+    section.createEl('h3', { text: 'Chat History', cls: 'vault-ai-settings-section-title' });
+
+    const desc = section.createEl('p', { cls: 'vault-ai-settings-section-desc' });
+    desc.setText('Conversations are kept in the plugin\'s data file, or as one markdown note each in a vault folder. Chat notes can be searched, synced and edited like any note; edits, renames and deletions show up in the chat history.');
+
+    new Setting(section)
+      .setName('Save conversations')
+      .setDesc('Switching moves the existing conversations over. Switching back to the plugin data leaves the notes in place.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('plugin', 'In the plugin data')
+          .addOption('vault', 'As notes in the vault')
+          .setValue(this.plugin.settings.chatHistoryStorage)
+          .onChange(async (value) => {
+            this.plugin.settings.chatHistoryStorage = value as ChatHistoryStorage;
+            await this.plugin.saveSettings();
+            await this.plugin.chatHistory.applyStorageSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.chatHistoryStorage === 'vault') {
+      new Setting(section)
+        .setName('Chat notes folder')
+        .setDesc('Existing chat notes are moved when the folder changes')
+        .addText((text) => {
+          text
+            .setPlaceholder('AI Chats')
+            .setValue(this.plugin.settings.chatHistoryFolder);
+          // Only apply when editing is done, so notes are not moved on every keystroke
+          text.inputEl.addEventListener('change', async () => {
+            const folder = normalizeFolderPath(text.getValue()) || DEFAULT_SETTINGS.chatHistoryFolder;
+            this.plugin.settings.chatHistoryFolder = folder;
+            await this.plugin.saveSettings();
+            await this.plugin.chatHistory.applyStorageSettings();
+            text.setValue(folder);
+          });
+        });
+    }
+
+    new Setting(section)
+      .setName('Export folder')
+      .setDesc('Where exported conversations are saved (Markdown, JSON or HTML)')
+      .addText((text) =>
+        text
+          .setPlaceholder('AI Exports')
+          .setValue(this.plugin.settings.chatExportFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.chatExportFolder = normalizeFolderPath(value) || DEFAULT_SETTINGS.chatExportFolder;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
   private renderAdvancedSection(container: HTMLElement): void {
     const section = container.createDiv('vault-ai-settings-section');
 
@@ -231,6 +532,74 @@ export class VaultAISettingTab extends PluginSettingTab {
           })
       );
 
+    // MCP Authentication
+    new Setting(section)
+      .setName('Require MCP access token')
+      .setDesc('External MCP clients must send the token below as "Authorization: Bearer <token>". Only turn this off if you trust every program running on this computer.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.mcpRequireAuth)
+          .onChange(async (value) => {
+            this.plugin.settings.mcpRequireAuth = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(section)
+      .setName('MCP access token')
+      .setDesc('Regenerating disconnects clients using the old token')
+      .addText((text) => {
+        text.inputEl.type = 'password';
+        text.inputEl.readOnly = true;
+        text.setValue(this.plugin.settings.mcpAuthToken);
+      })
+      .addExtraButton((button) =>
+        button
+          .setIcon('copy')
+          .setTooltip('Copy token')
+          .onClick(async () => {
+            await navigator.clipboard.writeText(this.plugin.settings.mcpAuthToken);
+            new Notice('MCP access token copied to clipboard');
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('refresh-cw')
+          .setTooltip('Regenerate token')
+          .onClick(async () => {
+            this.plugin.settings.mcpAuthToken = generateAuthToken();
+            await this.plugin.saveSettings();
+            new Notice('Generated a new MCP access token');
+            this.display();
+          })
+      );
+
+    new Setting(section)
+      .setName('Allowed MCP clients')
+      .setDesc('Client names (as reported by the client on connect), one per line. Leave empty to allow any client with the token.')
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('claude-ai\ncursor')
+          .setValue(this.plugin.settings.mcpAllowedClients)
+          .onChange(async (value) => {
+            this.plugin.settings.mcpAllowedClients = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // stdio bridge for MCP clients that cannot connect over HTTP
+    new Setting(section)
+      .setName('MCP stdio bridge')
+      .setDesc('For MCP clients that only launch stdio servers. Copies a client config entry that runs mcp-bridge.js from the plugin folder with Node.')
+      .addButton((button) =>
+        button
+          .setButtonText('Copy config')
+          .onClick(async () => {
+            await navigator.clipboard.writeText(this.buildBridgeConfig());
+            new Notice('MCP client config copied to clipboard');
+          })
+      );
+
     // Show Thinking
     new Setting(section)
       .setName('Show thinking process')
@@ -244,31 +613,188 @@ export class VaultAISettingTab extends PluginSettingTab {
           })
       );
 
-    // Available Tools Info
+    // Tool Calling Mode
+    new Setting(section)
+      .setName('Tool calling')
+      .setDesc('How the chat agent calls vault tools. Auto uses native function calling when the server and model support it, otherwise JSON in the reply text.')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('auto', 'Auto')
+          .addOption('native', 'Native function calling')
+          .addOption('text', 'JSON in text')
+          .setValue(this.plugin.settings.toolCallingMode)
+          .onChange(async (value) => {
+            this.plugin.settings.toolCallingMode = value as ToolCallingMode;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(section)
+      .setName('Max search iterations')
+      .setDesc('Most search rounds for a vault question (the AI can search again or open linked notes until it can answer), and most tool-calling rounds for the chat agent')
+      .addText((text) =>
+        text
+          .setPlaceholder('5')
+          .setValue(String(this.plugin.settings.maxSearchIterations))
+          .onChange(async (value) => {
+            const iterations = parseInt(value, 10);
+            if (!isNaN(iterations) && iterations >= 1) {
+              this.plugin.settings.maxSearchIterations = iterations;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(section)
+      .setName('Summarize long conversations')
+      .setDesc('When a chat outgrows its share of the context window, condense older messages into a running summary so long chats keep working on small context lengths and after switching models. Each condensing step is a model call.')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.summarizeHistory)
+          .onChange(async (value) => {
+            this.plugin.settings.summarizeHistory = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Undo History
+    new Setting(section)
+      .setName('Undo history size')
+      .setDesc('Number of changes kept in the undo history (0 for no limit)')
+      .addText((text) =>
+        text
+          .setPlaceholder('100')
+          .setValue(String(this.plugin.settings.undoHistoryLimit))
+          .onChange(async (value) => {
+            const limit = parseInt(value, 10);
+            if (!isNaN(limit) && limit >= 0) {
+              this.plugin.settings.undoHistoryLimit = limit;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(section)
+      .setName('Undo history retention')
+      .setDesc('Days to keep changes in the undo history (0 to keep them until the size limit is reached)')
+      .addText((text) =>
+        text
+          .setPlaceholder('30')
+          .setValue(String(this.plugin.settings.undoRetentionDays))
+          .onChange(async (value) => {
+            const days = parseInt(value, 10);
+            if (!isNaN(days) && days >= 0) {
+              this.plugin.settings.undoRetentionDays = days;
+              await this.plugin.saveSettings();
+            }
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('Clear history')
+          .onClick(async () => {
+            await this.plugin.undoJournal.clear();
+            new Notice('Undo history cleared');
+          })
+      );
+
+    // Available Tools and their policies
     const toolsInfo = section.createDiv('vault-ai-tools-info');
     toolsInfo.createEl('h4', { text: 'Available Tools' });
+    toolsInfo.createEl('p', {
+      text: 'Choose whether each tool runs automatically, asks for confirmation first, or is blocked. Applies to the chat agent and MCP clients.',
+      cls: 'setting-item-description',
+    });
     const toolsList = toolsInfo.createDiv('vault-ai-tools-grid');
 
-    const tools = [
-      { name: 'search_vault', desc: 'Search notes' },
-      { name: 'read_note', desc: 'Read content' },
-      { name: 'create_note', desc: 'Create notes' },
-      { name: 'append_to_note', desc: 'Append content' },
-      { name: 'edit_section', desc: 'Edit sections' },
-      { name: 'replace_text', desc: 'Find & replace' },
-      { name: 'delete_note', desc: 'Delete notes' },
-      { name: 'grep_vault', desc: 'Regex search' },
-      { name: 'list_folder', desc: 'List folders' },
-      { name: 'create_folder', desc: 'Create folders' },
-      { name: 'rename_file', desc: 'Rename files' },
-      { name: 'move_file', desc: 'Move files' },
-    ];
-
-    for (const tool of tools) {
+    for (const tool of this.plugin.toolRegistry.list()) {
       const toolEl = toolsList.createDiv('vault-ai-tool-item');
       toolEl.createSpan({ text: tool.name, cls: 'vault-ai-tool-name' });
-      toolEl.createSpan({ text: tool.desc, cls: 'vault-ai-tool-desc' });
+      toolEl.createSpan({ text: tool.title, cls: 'vault-ai-tool-desc' });
+      toolEl.setAttr('title', `${tool.description} (${tool.permission})`);
+
+      new DropdownComponent(toolEl)
+        .addOptions(POLICY_LABELS)
+        .setValue(getToolAction(tool, this.plugin.settings.toolPolicies))
+        .onChange(async (value) => {
+          this.plugin.settings.toolPolicies[tool.name] = value as ToolPolicyAction;
+          await this.plugin.saveSettings();
+        })
+        .selectEl.addClass('vault-ai-tool-policy-select');
     }
+
+    this.renderFolderRules(section);
+  }
+
+  private renderFolderRules(section: HTMLElement): void {
+    const rulesInfo = section.createDiv('vault-ai-tools-info');
+    rulesInfo.createEl('h4', { text: 'Folder Rules' });
+    rulesInfo.createEl('p', {
+      text: 'Override tool policies for matching paths, e.g. "Private/**" → Deny. * matches within a folder, ** across folders. The first matching rule wins; a tool set to Deny stays denied.',
+      cls: 'setting-item-description',
+    });
+
+    const rules = this.plugin.settings.folderPolicies;
+    rules.forEach((rule, index) => {
+      new Setting(rulesInfo)
+        .addText((text) =>
+          text
+            .setPlaceholder('Folder/**')
+            .setValue(rule.pattern)
+            .onChange(async (value) => {
+              rule.pattern = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(POLICY_LABELS)
+            .setValue(rule.action)
+            .onChange(async (value) => {
+              rule.action = value as ToolPolicyAction;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('Remove rule')
+            .onClick(async () => {
+              rules.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    new Setting(rulesInfo)
+      .addButton((button) =>
+        button
+          .setButtonText('Add rule')
+          .onClick(async () => {
+            rules.push({ pattern: '', action: 'ask' });
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+  }
+
+  private buildBridgeConfig(): string {
+    const adapter = this.app.vault.adapter;
+    const pluginDir = this.plugin.manifest.dir || '.obsidian/plugins/vault-ai';
+    const bridgePath = adapter instanceof FileSystemAdapter
+      ? `${adapter.getBasePath()}/${pluginDir}/mcp-bridge.js`
+      : `${pluginDir}/mcp-bridge.js`;
+
+    const serverConfig: Record<string, unknown> = {
+      command: 'node',
+      args: [bridgePath, '--port', String(this.plugin.settings.mcpPort)],
+    };
+    if (this.plugin.settings.mcpRequireAuth) {
+      serverConfig.env = { VAULT_AI_MCP_TOKEN: this.plugin.settings.mcpAuthToken };
+    }
+
+    return JSON.stringify({ mcpServers: { 'vault-ai': serverConfig } }, null, 2);
   }
 
   private async refreshModels(): Promise<void> {
@@ -299,7 +825,7 @@ export class VaultAISettingTab extends PluginSettingTab {
 
         new Notice(`Found ${models.length} model(s)`);
       } else {
-        new Notice('No models found. Make sure LM Studio is running.');
+        new Notice(`No models found. Make sure ${SERVER_TYPE_LABELS[this.plugin.settings.serverType]} is running.`);
       }
     } catch (error) {
       console.error('[Vault AI Settings] Error refreshing models:', error);
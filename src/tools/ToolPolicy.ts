@@ -0,0 +1,110 @@
+import { FolderPolicyRule, ToolPolicyAction } from '../types';
+import { ToolDefinition, ToolPermission } from './types';
+
+// Used for tools without an entry in settings.toolPolicies
+const DEFAULT_ACTIONS: Record<ToolPermission, ToolPolicyAction> = {
+  read: 'allow',
+  write: 'allow',
+  destructive: 'ask',
+};
+
+const STRICTNESS: Record<ToolPolicyAction, number> = {
+  allow: 0,
+  ask: 1,
+  deny: 2,
+};
+
+export interface ToolPolicySettings {
+  toolPolicies: Record<string, ToolPolicyAction>;
+  folderPolicies: FolderPolicyRule[];
+}
+
+export interface ToolPolicyDecision {
+  action: ToolPolicyAction;
+  // Human-readable source of the decision, e.g. 'folder rule "Private/**"'
+  reason: string;
+}
+
+export function getToolAction(tool: ToolDefinition, toolPolicies: Record<string, ToolPolicyAction>): ToolPolicyAction {
+  return toolPolicies[tool.name] ?? DEFAULT_ACTIONS[tool.permission];
+}
+
+/**
+ * Decide whether a call may run:
+ * - a tool set to deny is always denied
+ * - otherwise the first folder rule matching each path decides for that path,
+ *   falling back to the tool's own action
+ * - when a call touches several paths, the strictest decision wins
+ */
+export function resolveToolPolicy(
+  tool: ToolDefinition,
+  paths: string[],
+  settings: ToolPolicySettings
+): ToolPolicyDecision {
+  const toolAction = getToolAction(tool, settings.toolPolicies);
+  const toolDecision: ToolPolicyDecision = { action: toolAction, reason: `the ${tool.name} tool policy` };
+
+  if (toolAction === 'deny' || paths.length === 0) {
+    return toolDecision;
+  }
+
+  let strictest: ToolPolicyDecision | null = null;
+  for (const path of paths) {
+    const rule = settings.folderPolicies.find((r) => r.pattern.trim() && matchesGlob(path, r.pattern));
+    const decision = rule
+      ? { action: rule.action, reason: `folder rule "${rule.pattern}" (${path})` }
+      : toolDecision;
+
+    if (!strictest || STRICTNESS[decision.action] > STRICTNESS[strictest.action]) {
+      strictest = decision;
+    }
+  }
+
+  return strictest!;
+}
+
+/**
+ * Match a vault path against a folder glob. Patterns without wildcards match the
+ * path itself and everything below it, so "Private" covers "Private/notes/a.md".
+ * Matching ignores case, as most desktop file systems do.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const normalizedPattern = pattern.trim().replace(/^\/+|\/+$/g, '');
+  const normalizedPath = path.replace(/^\/+/, '');
+
+  if (!/[*?]/.test(normalizedPattern)) {
+    const lowerPath = normalizedPath.toLowerCase();
+    const lowerPattern = normalizedPattern.toLowerCase();
+    return lowerPath === lowerPattern || lowerPath.startsWith(lowerPattern + '/');
+  }
+
+  return globToRegExp(normalizedPattern).test(normalizedPath);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '/' && pattern.slice(i + 1) === '**') {
+      // A trailing "/**" also matches the folder itself
+      source += '(?:/.*)?';
+      break;
+    } else if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches zero folders, so "a/**/b.md" matches "a/b.md"
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,193 @@
+import type VaultAIPlugin from '../main';
+import { VaultSearch } from '../search/VaultSearch';
+import { resolveToolPolicy } from './ToolPolicy';
+import {
+  ToolArgs,
+  ToolConfirmHandler,
+  ToolConfirmRequest,
+  ToolContext,
+  ToolDefinition,
+  ToolExecuteOptions,
+  ToolResult,
+} from './types';
+
+/**
+ * Single catalog of vault tools shared by the in-process ChatAgent and the MCP server.
+ * Each tool declares its schema, permission class and handler once.
+ *
+ * Every call passes the tool policy from settings first: allowed calls run, denied
+ * calls return a permission error, and "ask" calls wait for the confirm handler.
+ */
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+  private context: Omit<ToolContext, 'reportProgress' | 'recordUndo' | 'isDenied'>;
+  private changeListeners: Set<() => void> = new Set();
+  private confirmHandler: ToolConfirmHandler | null = null;
+  // One confirmation prompt at a time, even when several clients call at once
+  private confirmQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(plugin: VaultAIPlugin) {
+    this.context = {
+      plugin,
+      app: plugin.app,
+      vaultSearch: new VaultSearch(plugin.app, plugin.keywordIndex, plugin.settings),
+    };
+  }
+
+  /**
+   * Subscribe to tool list changes. Returns an unsubscribe function.
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Set how "ask" calls are confirmed. Without a handler they are refused.
+   */
+  setConfirmHandler(handler: ToolConfirmHandler | null): void {
+    this.confirmHandler = handler;
+  }
+
+  register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+    this.notifyChange();
+  }
+
+  registerAll(tools: ToolDefinition[]): void {
+    for (const tool of tools) {
+      this.register(tool);
+    }
+  }
+
+  unregister(name: string): boolean {
+    const removed = this.tools.delete(name);
+    if (removed) {
+      this.notifyChange();
+    }
+    return removed;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Whether the policy denies a tool on a path. Tools and handlers that return
+   * many paths use this to leave out the ones a call on them could not reach.
+   */
+  isPathDenied(name: string, path: string): boolean {
+    const tool = this.tools.get(name);
+    return !tool || resolveToolPolicy(tool, [path], this.context.plugin.settings).action === 'deny';
+  }
+
+  async execute(name: string, args: ToolArgs, options: ToolExecuteOptions = {}): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { success: false, result: `Unknown tool: ${name}` };
+    }
+
+    const context: ToolContext = {
+      ...this.context,
+      reportProgress: options.onProgress || (() => {}),
+      recordUndo: (operation) => this.context.plugin.undoJournal.push(operation, options.transactionId, options.caller),
+      isDenied: (path) => this.isPathDenied(name, path),
+    };
+
+    try {
+      const refusal = await this.checkPolicy(tool, args || {}, context, options.caller);
+      if (refusal) {
+        return refusal;
+      }
+      return await tool.handler(args || {}, context);
+    } catch (error) {
+      console.error(`[Vault AI] Tool ${name} failed:`, error);
+      return { success: false, result: `Error executing tool ${name}: ${error}` };
+    }
+  }
+
+  /**
+   * Returns a permission error when the call may not run, or null to proceed
+   */
+  private async checkPolicy(
+    tool: ToolDefinition,
+    args: ToolArgs,
+    context: ToolContext,
+    caller?: string
+  ): Promise<ToolResult | null> {
+    const paths = (tool.targetPaths?.(args) ?? []).filter((p) => p);
+    const decision = resolveToolPolicy(tool, paths, this.context.plugin.settings);
+
+    if (decision.action === 'allow') {
+      return null;
+    }
+
+    if (decision.action === 'deny') {
+      console.log(`[Vault AI] Denied ${tool.name} by ${decision.reason}`);
+      return permissionError('permission_denied', tool, paths, decision.reason,
+        `Permission denied: ${tool.name} is blocked by ${decision.reason}. Do not retry this call; tell the user the action is not allowed by their Vault AI tool policy.`);
+    }
+
+    if (!this.confirmHandler) {
+      return permissionError('permission_denied', tool, paths, decision.reason,
+        `Permission denied: ${tool.name} requires user confirmation (${decision.reason}), but no confirmation prompt is available.`);
+    }
+
+    // A failed preview should not block the prompt; the arguments are still shown
+    let preview = null;
+    try {
+      preview = tool.preview ? await tool.preview(args, context) : null;
+    } catch (error) {
+      console.warn(`[Vault AI] Could not preview ${tool.name}:`, error);
+    }
+
+    const approved = await this.confirm({ tool, args, paths, reason: decision.reason, caller, preview });
+    if (!approved) {
+      return permissionError('user_declined', tool, paths, decision.reason,
+        `The user declined ${tool.name}. Do not retry the same call; ask the user how they would like to proceed.`);
+    }
+
+    return null;
+  }
+
+  private confirm(request: ToolConfirmRequest): Promise<boolean> {
+    const handler = this.confirmHandler!;
+    const result = this.confirmQueue.then(() => handler(request));
+    this.confirmQueue = result.catch(() => false);
+    return result;
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Refusals carry a machine-readable code in data so callers can tell them apart from tool failures
+ */
+function permissionError(
+  code: 'permission_denied' | 'user_declined',
+  tool: ToolDefinition,
+  paths: string[],
+  reason: string,
+  message: string
+): ToolResult {
+  return {
+    success: false,
+    result: message,
+    data: { error: code, tool: tool.name, paths, reason },
+  };
+}
@@ -0,0 +1,211 @@
+import { Notice, TFile } from 'obsidian';
+import { ToolDefinition } from './types';
+import { normalizeNotePath, normalizeFolderPath, buildStructureFileList } from './helpers';
+import { LLMMessage, FormatSuggestion, FileOperation } from '../types';
+import { FORMAT_OUTPUT_SHARE, FORMAT_SYSTEM_PROMPT, buildFittedFormatPrompt } from '../prompts/format';
+import { STRUCTURE_SYSTEM_PROMPT, buildFittedStructurePrompt } from '../prompts/structure';
+import { ContextBudget } from '../llm/ContextBudget';
+
+interface StructureSuggestion {
+  type: string;
+  description: string;
+  reasoning: string;
+  affectedFiles: string[];
+  operations: FileOperation[];
+}
+
+// Tools that ask the LLM to analyze notes or folder structure
+export const ANALYSIS_TOOLS: ToolDefinition[] = [
+  {
+    name: 'format_note',
+    title: 'Format notes',
+    description: 'Analyze and apply formatting improvements to a note. Returns formatting suggestions and can automatically apply them.',
+    permission: 'write',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'The path to the note to format (e.g., "folder/note.md")' },
+        apply: { type: 'boolean', description: 'Whether to automatically apply the formatting suggestions (default: false)' },
+        instructions: { type: 'string', description: 'Optional custom instructions for formatting (e.g., "Focus on headings")' },
+      },
+      required: ['path'],
+    },
+    targetPaths: ({ path }) => [path ? normalizeNotePath(path) : ''],
+    handler: async ({ path, apply = false, instructions }, { app, plugin, recordUndo }) => {
+      if (!path) {
+        return { success: false, result: 'Note path is required' };
+      }
+
+      const normalizedPath = normalizeNotePath(path);
+      const file = app.vault.getAbstractFileByPath(normalizedPath);
+      if (!file || !(file instanceof TFile)) {
+        return { success: false, result: `Note not found: ${path}` };
+      }
+
+      const content = await app.vault.read(file);
+
+      const budget = ContextBudget.forPlugin(plugin, plugin.settings.modelContextLength * FORMAT_OUTPUT_SHARE);
+      const messages: LLMMessage[] = [
+        { role: 'system', content: FORMAT_SYSTEM_PROMPT },
+        { role: 'user', content: buildFittedFormatPrompt(budget, content, instructions || '') },
+      ];
+      const partial = budget.getBreakdown().trimmed.length > 0
+        ? '\n\nThe note is too long for the model\'s context window, so only its first part was checked.'
+        : '';
+
+      const response = await plugin.llmClient?.chat(messages);
+      if (!response) {
+        return { success: false, result: 'Failed to get formatting suggestions from LLM' };
+      }
+
+      const suggestions = parseFormatResponse(response);
+
+      if (suggestions.length === 0) {
+        return {
+          success: true,
+          result: `No formatting improvements needed for ${normalizedPath}. The note is already well-formatted.${partial}`,
+        };
+      }
+
+      if (apply) {
+        let modifiedContent = content;
+        let appliedCount = 0;
+
+        for (const suggestion of suggestions) {
+          if (suggestion.before && suggestion.after !== undefined) {
+            const newContent = modifiedContent.replace(suggestion.before, suggestion.after);
+            if (newContent !== modifiedContent) {
+              modifiedContent = newContent;
+              appliedCount++;
+            }
+          }
+        }
+
+        if (appliedCount > 0) {
+          await app.vault.modify(file, modifiedContent);
+          await recordUndo({
+            id: `format-${Date.now()}`,
+            timestamp: Date.now(),
+            description: `Formatted note: ${normalizedPath}`,
+            operations: [{ type: 'modify', sourcePath: normalizedPath, content: modifiedContent }],
+            reverseOperations: [{ type: 'modify', sourcePath: normalizedPath, content }],
+          });
+
+          new Notice(`Applied ${appliedCount} formatting change(s) to ${normalizedPath}`);
+
+          return {
+            success: true,
+            result: `Applied ${appliedCount} formatting improvement(s) to ${normalizedPath}:\n${suggestions.map(s => `- ${s.description}`).join('\n')}${partial}`,
+            data: { path: normalizedPath, appliedCount },
+          };
+        }
+      }
+
+      const suggestionList = suggestions.map(s => `- [${s.category}] ${s.description}`).join('\n');
+      return {
+        success: true,
+        result: `Found ${suggestions.length} formatting suggestion(s) for ${normalizedPath}:\n${suggestionList}\n\nUse apply=true to automatically apply these changes.${partial}`,
+        data: { path: normalizedPath, suggestions },
+      };
+    },
+  },
+  {
+    name: 'suggest_restructure',
+    title: 'Suggest structure',
+    description: 'Analyze vault or folder structure and suggest reorganization improvements like moving files, creating folders, or renaming for better organization.',
+    permission: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder: { type: 'string', description: 'The folder to analyze (use "/" for entire vault)' },
+      },
+      required: ['folder'],
+    },
+    targetPaths: ({ folder }) => [normalizeFolderPath(folder)],
+    handler: async ({ folder }, { app, plugin, isDenied }) => {
+      const basePath = folder === '/' ? '' : (folder || '');
+      const scopeLabel = basePath ? folder : 'the vault';
+
+      const fileList = buildStructureFileList(app, basePath, (path) => !isDenied(path));
+
+      if (!fileList) {
+        return {
+          success: true,
+          result: `No files found in ${scopeLabel} to analyze.`,
+        };
+      }
+
+      const messages: LLMMessage[] = [
+        { role: 'system', content: STRUCTURE_SYSTEM_PROMPT },
+        { role: 'user', content: buildFittedStructurePrompt(ContextBudget.forPlugin(plugin), fileList, folder || '/') },
+      ];
+
+      const response = await plugin.llmClient?.chat(messages);
+      if (!response) {
+        return { success: false, result: 'Failed to get restructure suggestions from LLM' };
+      }
+
+      const suggestions = parseStructureResponse(response);
+
+      if (suggestions.length === 0) {
+        return {
+          success: true,
+          result: `No restructuring suggestions for ${scopeLabel}. The organization looks good.`,
+        };
+      }
+
+      const suggestionList = suggestions.map((s, i) =>
+        `${i + 1}. [${s.type}] ${s.description}\n   Reason: ${s.reasoning}\n   Files affected: ${s.affectedFiles.join(', ') || 'none'}`
+      ).join('\n\n');
+
+      return {
+        success: true,
+        result: `Found ${suggestions.length} restructuring suggestion(s) for ${scopeLabel}:\n\n${suggestionList}\n\nYou can use rename_file, rename_folder, move_file, or create_note tools to implement these suggestions.`,
+        data: { folder, suggestions },
+      };
+    },
+  },
+];
+
+function parseFormatResponse(response: string): FormatSuggestion[] {
+  try {
+    const jsonMatch = response.match(/```json\n?([\s\S]*?)\n?```/);
+    const jsonStr = jsonMatch ? jsonMatch[1] : response;
+    const data = JSON.parse(jsonStr);
+
+    const suggestions = Array.isArray(data) ? data : (data.suggestions || []);
+    return suggestions.map((s: any, i: number) => ({
+      id: `suggestion-${i}`,
+      description: s.description || 'Formatting improvement',
+      category: s.category || 'other',
+      before: s.before || '',
+      after: s.after || '',
+      lineStart: s.lineStart || 0,
+      lineEnd: s.lineEnd || 0,
+      applied: false,
+    }));
+  } catch (error) {
+    console.error('Failed to parse format response:', error);
+    return [];
+  }
+}
+
+function parseStructureResponse(response: string): StructureSuggestion[] {
+  try {
+    const jsonMatch = response.match(/```json\n?([\s\S]*?)\n?```/);
+    const jsonStr = jsonMatch ? jsonMatch[1] : response;
+    const data = JSON.parse(jsonStr);
+
+    const suggestions = Array.isArray(data) ? data : (data.suggestions || []);
+    return suggestions.map((s: any) => ({
+      type: s.type || 'move',
+      description: s.description || 'Reorganization',
+      reasoning: s.reasoning || '',
+      affectedFiles: s.affectedFiles || [],
+      operations: s.operations || [],
+    }));
+  } catch (error) {
+    console.error('Failed to parse structure response:', error);
+    return [];
+  }
+}
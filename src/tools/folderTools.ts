@@ -0,0 +1,333 @@
+import { Notice, TFile, TFolder } from 'obsidian';
+import { ToolDefinition } from './types';
+import { ensureFolder, joinPath, normalizeFolderPath, normalizeNotePath, parentPath } from './helpers';
+
+export const FOLDER_TOOLS: ToolDefinition[] = [
+  {
+    name: 'list_folder',
+    title: 'List folders',
+    description: 'List all files and subfolders in a folder. Use "/" for vault root.',
+    permission: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'The folder path to list' },
+      },
+      required: ['path'],
+    },
+    targetPaths: ({ path }) => [normalizeFolderPath(path)],
+    handler: async ({ path }, { app, isDenied }) => {
+      const folderPath = normalizeFolderPath(path);
+
+      let folder: TFolder | null = null;
+
+      if (!folderPath) {
+        folder = app.vault.getRoot();
+      } else {
+        const abstractFile = app.vault.getAbstractFileByPath(folderPath);
+        if (abstractFile instanceof TFolder) {
+          folder = abstractFile;
+        }
+      }
+
+      if (!folder) {
+        return { success: false, result: `Folder not found: ${path}` };
+      }
+
+      const items: string[] = [];
+
+      for (const child of folder.children) {
+        // A deny rule hides what a folder holds, not only the text of its notes
+        if (isDenied(child.path)) {
+          continue;
+        }
+        if (child instanceof TFolder) {
+          items.push(`[folder] ${child.name}/`);
+        } else if (child instanceof TFile) {
+          items.push(`[file] ${child.name}`);
+        }
+      }
+
+      if (items.length === 0) {
+        return {
+          success: true,
+          result: `Folder "${path || '/'}" is empty`,
+          data: [],
+        };
+      }
+
+      return {
+        success: true,
+        result: `Contents of "${path || '/'}":\n${items.join('\n')}`,
+        data: items,
+      };
+    },
+  },
+  {
+    name: 'create_folder',
+    title: 'Create folders',
+    description: 'Create a new folder in the vault.',
+    permission: 'write',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'The path for the new folder (e.g., "Projects/NewFolder")' },
+      },
+      required: ['path'],
+    },
+    targetPaths: ({ path }) => [normalizeFolderPath(path)],
+    handler: async ({ path }, { app, recordUndo }) => {
+      if (!path) {
+        return { success: false, result: 'Folder path is required' };
+      }
+
+      const folderPath = normalizeFolderPath(path);
+      if (!folderPath) {
+        return { success: false, result: 'Cannot create root folder' };
+      }
+
+      if (app.vault.getAbstractFileByPath(folderPath)) {
+        return { success: false, result: `Folder already exists: ${folderPath}` };
+      }
+
+      await ensureFolder(app, folderPath);
+
+      await recordUndo({
+        id: `create-folder-${Date.now()}`,
+        timestamp: Date.now(),
+        description: `Created folder: ${folderPath}`,
+        operations: [{ type: 'create-folder', sourcePath: folderPath }],
+        reverseOperations: [{ type: 'delete', sourcePath: folderPath }],
+      });
+
+      new Notice(`Created folder: ${folderPath}`);
+
+      return {
+        success: true,
+        result: `Successfully created folder: ${folderPath}`,
+        data: { path: folderPath },
+      };
+    },
+  },
+  {
+    name: 'delete_folder',
+    title: 'Delete folders',
+    description: 'Delete an empty folder. The folder must be empty.',
+    permission: 'destructive',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'The path to the folder to delete' },
+      },
+      required: ['path'],
+    },
+    targetPaths: ({ path }) => [normalizeFolderPath(path)],
+    handler: async ({ path }, { app, recordUndo }) => {
+      if (!path) {
+        return { success: false, result: 'Folder path is required' };
+      }
+
+      const folder = app.vault.getAbstractFileByPath(path);
+      if (!folder || !(folder instanceof TFolder)) {
+        return { success: false, result: `Folder not found: ${path}` };
+      }
+
+      if (folder.children.length > 0) {
+        return { success: false, result: `Folder is not empty: ${path}. Delete or move its contents first.` };
+      }
+
+      await app.vault.delete(folder);
+      await recordUndo({
+        id: `delete-folder-${Date.now()}`,
+        timestamp: Date.now(),
+        description: `Deleted folder: ${path}`,
+        operations: [{ type: 'delete', sourcePath: path }],
+        reverseOperations: [{ type: 'create-folder', sourcePath: path }],
+      });
+
+      new Notice(`Deleted folder: ${path}`);
+
+      return {
+        success: true,
+        result: `Successfully deleted folder: ${path}`,
+        data: { path },
+      };
+    },
+  },
+  {
+    name: 'rename_file',
+    title: 'Rename files',
+    description: 'Rename a file in the vault.',
+    permission: 'write',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Current path to the file (e.g., "folder/old-name.md")' },
+        newName: { type: 'string', description: 'New name for the file (without path, e.g., "new-name.md")' },
+      },
+      required: ['path', 'newName'],
+    },
+    targetPaths: ({ path, newName }) => {
+      if (!path) return [];
+      const source = normalizeNotePath(path);
+      return [source, newName ? joinPath(parentPath(source), normalizeNotePath(newName)) : ''];
+    },
+    handler: async ({ path, newName }, { app, recordUndo }) => {
+      if (!path) {
+        return { success: false, result: 'File path is required' };
+      }
+      if (!newName) {
+        return { success: false, result: 'New name is required' };
+      }
+
+      const normalizedPath = normalizeNotePath(path);
+      const file = app.vault.getAbstractFileByPath(normalizedPath);
+      if (!file || !(file instanceof TFile)) {
+        return { success: false, result: `File not found: ${path}` };
+      }
+
+      const normalizedNewName = normalizeNotePath(newName);
+      const folder = file.parent?.path || '';
+      const newPath = folder && folder !== '/' ? `${folder}/${normalizedNewName}` : normalizedNewName;
+
+      if (app.vault.getAbstractFileByPath(newPath)) {
+        return { success: false, result: `A file already exists at ${newPath}` };
+      }
+
+      const oldName = file.name;
+      await app.fileManager.renameFile(file, newPath);
+      await recordUndo({
+        id: `rename-file-${Date.now()}`,
+        timestamp: Date.now(),
+        description: `Renamed file: ${normalizedPath} → ${newPath}`,
+        operations: [{ type: 'rename', sourcePath: normalizedPath, targetPath: newPath }],
+        reverseOperations: [{ type: 'rename', sourcePath: newPath, targetPath: normalizedPath }],
+      });
+
+      new Notice(`Renamed: ${oldName} → ${normalizedNewName}`);
+
+      return {
+        success: true,
+        result: `Successfully renamed file from ${normalizedPath} to ${newPath}`,
+        data: { oldPath: normalizedPath, newPath },
+      };
+    },
+  },
+  {
+    name: 'rename_folder',
+    title: 'Rename folders',
+    description: 'Rename a folder in the vault.',
+    permission: 'write',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'Current path to the folder (e.g., "old-folder-name")' },
+        newName: { type: 'string', description: 'New name for the folder (without path)' },
+      },
+      required: ['path', 'newName'],
+    },
+    targetPaths: ({ path, newName }) => {
+      if (!path) return [];
+      return [path, newName ? joinPath(parentPath(path), newName) : ''];
+    },
+    handler: async ({ path, newName }, { app, recordUndo }) => {
+      if (!path) {
+        return { success: false, result: 'Folder path is required' };
+      }
+      if (!newName) {
+        return { success: false, result: 'New name is required' };
+      }
+
+      const folder = app.vault.getAbstractFileByPath(path);
+      if (!folder || !(folder instanceof TFolder)) {
+        return { success: false, result: `Folder not found: ${path}` };
+      }
+
+      const parent = folder.parent?.path || '';
+      const newPath = parent && parent !== '/' ? `${parent}/${newName}` : newName;
+
+      if (app.vault.getAbstractFileByPath(newPath)) {
+        return { success: false, result: `A folder already exists at ${newPath}` };
+      }
+
+      const oldName = folder.name;
+      await app.fileManager.renameFile(folder, newPath);
+      await recordUndo({
+        id: `rename-folder-${Date.now()}`,
+        timestamp: Date.now(),
+        description: `Renamed folder: ${path} → ${newPath}`,
+        operations: [{ type: 'rename', sourcePath: path, targetPath: newPath }],
+        reverseOperations: [{ type: 'rename', sourcePath: newPath, targetPath: path }],
+      });
+
+      new Notice(`Renamed folder: ${oldName} → ${newName}`);
+
+      return {
+        success: true,
+        result: `Successfully renamed folder from ${path} to ${newPath}`,
+        data: { oldPath: path, newPath },
+      };
+    },
+  },
+  {
+    name: 'move_file',
+    title: 'Move files',
+    description: 'Move a file to a different folder in the vault.',
+    permission: 'write',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sourcePath: { type: 'string', description: 'Current path to the file (e.g., "folder/note.md")' },
+        targetFolder: { type: 'string', description: 'Target folder path (e.g., "new-folder" or "/" for root)' },
+      },
+      required: ['sourcePath', 'targetFolder'],
+    },
+    targetPaths: ({ sourcePath, targetFolder }) => {
+      if (!sourcePath) return [];
+      const source = normalizeNotePath(sourcePath);
+      const fileName = source.slice(source.lastIndexOf('/') + 1);
+      return [source, joinPath(normalizeFolderPath(targetFolder), fileName)];
+    },
+    handler: async ({ sourcePath, targetFolder }, { app, recordUndo }) => {
+      if (!sourcePath) {
+        return { success: false, result: 'Source file path is required' };
+      }
+      if (targetFolder === undefined) {
+        return { success: false, result: 'Target folder is required' };
+      }
+
+      const normalizedSource = normalizeNotePath(sourcePath);
+      const file = app.vault.getAbstractFileByPath(normalizedSource);
+      if (!file || !(file instanceof TFile)) {
+        return { success: false, result: `File not found: ${sourcePath}` };
+      }
+
+      const normalizedTarget = normalizeFolderPath(targetFolder);
+      await ensureFolder(app, normalizedTarget);
+
+      const newPath = normalizedTarget ? `${normalizedTarget}/${file.name}` : file.name;
+
+      if (app.vault.getAbstractFileByPath(newPath)) {
+        return { success: false, result: `A file already exists at ${newPath}` };
+      }
+
+      const fileName = file.name;
+      await app.fileManager.renameFile(file, newPath);
+      await recordUndo({
+        id: `move-file-${Date.now()}`,
+        timestamp: Date.now(),
+        description: `Moved file: ${normalizedSource} → ${newPath}`,
+        operations: [{ type: 'move', sourcePath: normalizedSource, targetPath: newPath }],
+        reverseOperations: [{ type: 'move', sourcePath: newPath, targetPath: normalizedSource }],
+      });
+
+      new Notice(`Moved: ${fileName} → ${normalizedTarget || '/'}`);
+
+      return {
+        success: true,
+        result: `Successfully moved file from ${normalizedSource} to ${newPath}`,
+        data: { oldPath: normalizedSource, newPath },
+      };
+    },
+  },
+];
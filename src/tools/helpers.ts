@@ -0,0 +1,86 @@
+import { App } from 'obsidian';
+import { VaultAISettings } from '../types';
+
+/**
+ * Add the .md extension to note paths given without one
+ */
+export function normalizeNotePath(path: string): string {
+  return path.endsWith('.md') ? path : `${path}.md`;
+}
+
+/**
+ * Treat "/", "." and empty strings as the vault root
+ */
+export function normalizeFolderPath(path: string | undefined): string {
+  const trimmed = path?.trim() || '';
+  return trimmed === '/' || trimmed === '.' ? '' : trimmed;
+}
+
+/**
+ * Whether a path is in a folder the plugin writes its own notes to: chat notes
+ * and conversation exports. Those are kept out of the search indexes and the
+ * context scopes, so past answers are not retrieved and cited as sources.
+ */
+export function isInPluginFolder(
+  path: string,
+  settings: Pick<VaultAISettings, 'chatHistoryFolder' | 'chatExportFolder'>
+): boolean {
+  return [settings.chatHistoryFolder, settings.chatExportFolder]
+    .map(normalizeFolderPath)
+    .some((folder) => folder !== '' && path.startsWith(`${folder}/`));
+}
+
+/**
+ * Create a folder and any missing parents
+ */
+export async function ensureFolder(app: App, folderPath: string): Promise<void> {
+  if (!folderPath || app.vault.getAbstractFileByPath(folderPath)) {
+    return;
+  }
+
+  const parts = folderPath.split('/').filter(p => p);
+  let currentPath = '';
+  for (const part of parts) {
+    currentPath = currentPath ? `${currentPath}/${part}` : part;
+    if (!app.vault.getAbstractFileByPath(currentPath)) {
+      await app.vault.createFolder(currentPath);
+    }
+  }
+}
+
+/**
+ * List markdown files under a folder, one per line with their tags, for the structure prompt.
+ * include leaves out files the caller may not see, e.g. those a deny rule covers.
+ */
+export function buildStructureFileList(
+  app: App,
+  basePath: string,
+  include: (path: string) => boolean = () => true
+): string {
+  const folder = basePath.replace(/^\/+|\/+$/g, '');
+  return app.vault.getMarkdownFiles()
+    .filter(f => (folder === '' || f.path.startsWith(`${folder}/`)) && include(f.path))
+    .map(f => {
+      const cache = app.metadataCache.getFileCache(f);
+      const tags = cache?.tags?.map(t => t.tag).join(', ') || '';
+      const frontmatterTags = cache?.frontmatter?.tags || [];
+      const allTags = tags || (Array.isArray(frontmatterTags) ? frontmatterTags.join(', ') : frontmatterTags);
+      return `- ${f.path}${allTags ? ` [tags: ${allTags}]` : ''}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Join a folder and a name, treating "" and "/" as the vault root
+ */
+export function joinPath(folder: string, name: string): string {
+  return folder && folder !== '/' ? `${folder}/${name}` : name;
+}
+
+/**
+ * Folder part of a vault path ("" for files in the root)
+ */
+export function parentPath(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
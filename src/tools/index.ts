@@ -0,0 +1,26 @@
+import type VaultAIPlugin from '../main';
+import { ToolRegistry } from './ToolRegistry';
+import { SEARCH_TOOLS } from './searchTools';
+import { NOTE_TOOLS } from './noteTools';
+import { FOLDER_TOOLS } from './folderTools';
+import { ANALYSIS_TOOLS } from './analysisTools';
+
+export { ToolRegistry } from './ToolRegistry';
+export { getToolAction, matchesGlob } from './ToolPolicy';
+export * from './types';
+
+export const BUILTIN_TOOLS = [
+  ...SEARCH_TOOLS,
+  ...NOTE_TOOLS,
+  ...FOLDER_TOOLS,
+  ...ANALYSIS_TOOLS,
+];
+
+/**
+ * Create a registry with all built-in vault tools registered
+ */
+export function createToolRegistry(plugin: VaultAIPlugin): ToolRegistry {
+  const registry = new ToolRegistry(plugin);
+  registry.registerAll(BUILTIN_TOOLS);
+  return registry;
+}
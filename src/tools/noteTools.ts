@@ -0,0 +1,414 @@
+import { App, Notice, TFile } from 'obsidian';
+import { ToolArgs, ToolDefinition, ToolPreview } from './types';
+import { ensureFolder, joinPath, normalizeFolderPath, normalizeNotePath } from './helpers';
+
+// Most note tools take a single "path" argument
+const notePath = ({ path }: ToolArgs) => [path ? normalizeNotePath(path) : ''];
+
+export const NOTE_TOOLS: ToolDefinition[] = [
+  {
+    name: 'read_note',
+    title: 'Read content',
+    description: 'Read the full content of a specific note. Use this to get more details from a note found in search results.',
+    permission: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'The path to the note (e.g., "folder/note.md")' },
+      },
+      required: ['path'],
+    },
+    targetPaths: notePath,
+    handler: async ({ path }, { app }) => {
+      if (!path) {
+        return { success: false, result: 'Note path is required' };
+      }
+
+      const normalizedPath = normalizeNotePath(path);
+      const file = app.vault.getAbstractFileByPath(normalizedPath);
+
+      if (!file) {
+        return { success: false, result: `Note not found: ${path}` };
+      }
+
+      if (!(file instanceof TFile)) {
+        return { success: false, result: `Path is not a file: ${path}` };
+      }
+
+      const content = await app.vault.read(file);
+      const truncated = content.length > 3000
+        ? content.slice(0, 3000) + '\n\n[Content truncated...]'
+        : content;
+
+      return {
+        success: true,
+        result: `Content of ${normalizedPath}:\n\n${truncated}`,
+        data: { path: normalizedPath, content },
+      };
+    },
+  },
+  {
+    name: 'create_note',
+    title: 'Create notes',
+    description: 'Create a new note in the vault. Use this when the user asks to create, write, or add a new note.',
+    permission: 'write',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        folder: { type: 'string', description: 'The folder path where to create the note (e.g., "Projects" or "Daily Notes"). Use empty string for vault root.' },
+        name: { type: 'string', description: 'The name of the note (without .md extension)' },
+        content: { type: 'string', description: 'The markdown content of the note' },
+      },
+      required: ['folder', 'name', 'content'],
+    },
+    targetPaths: ({ folder, name }) => [name ? newNotePath(folder, name) : ''],
+    preview: async ({ folder, name, content }) => {
+      return name ? { path: newNotePath(folder, name), before: '', after: content || '' } : null;
+    },
+    handler: async ({ folder, name, content }, { app, recordUndo }) => {
+      if (!name) {
+        return { success: false, result: 'Note name is required' };
+      }
+
+      const folderPath = normalizeFolderPath(folder);
+      const fullPath = newNotePath(folder, name);
+
+      if (app.vault.getAbstractFileByPath(fullPath)) {
+        return {
+          success: false,
+          result: `A note already exists at ${fullPath}. Use append_to_note to add content to it, or choose a different name.`,
+        };
+      }
+
+      await ensureFolder(app, folderPath);
+
+      const noteContent = content || '';
+      await app.vault.create(fullPath, noteContent);
+
+      await recordUndo({
+        id: `create-${Date.now()}`,
+        timestamp: Date.now(),
+        description: `Created note: ${fullPath}`,
+        operations: [{ type: 'create-file', sourcePath: fullPath, content: noteContent }],
+        reverseOperations: [{ type: 'delete', sourcePath: fullPath }],
+      });
+
+      new Notice(`Created note: ${fullPath}`);
+
+      return {
+        success: true,
+        result: `Successfully created note at ${fullPath}`,
+        data: { path: fullPath },
+      };
+    },
+  },
+  {
+    name: 'append_to_note',
+    title: 'Append content',
+    description: 'Append content to an existing note. Use this to add information to an existing note.',
+    permission: 'write',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'The path to the note (e.g., "folder/note.md")' },
+        content: { type: 'string', description: 'The content to append' },
+      },
+      required: ['path', 'content'],
+    },
+    targetPaths: notePath,
+    preview: async ({ path, content }, { app }) => {
+      return previewEdit(app, path, (current) => appendContent(current, content || ''));
+    },
+    handler: async ({ path, content }, { app, recordUndo }) => {
+      if (!path) {
+        return { success: false, result: 'Note path is required' };
+      }
+      if (!content) {
+        return { success: false, result: 'Content to append is required' };
+      }
+
+      const normalizedPath = normalizeNotePath(path);
+      const file = app.vault.getAbstractFileByPath(normalizedPath);
+
+      if (!file || !(file instanceof TFile)) {
+        return { success: false, result: `Note not found: ${path}` };
+      }
+
+      const currentContent = await app.vault.read(file);
+      const newContent = appendContent(currentContent, content);
+
+      await app.vault.modify(file, newContent);
+      await recordUndo({
+        id: `append-${Date.now()}`,
+        timestamp: Date.now(),
+        description: `Appended to note: ${normalizedPath}`,
+        operations: [{ type: 'modify', sourcePath: normalizedPath, content: newContent }],
+        reverseOperations: [{ type: 'modify', sourcePath: normalizedPath, content: currentContent }],
+      });
+
+      new Notice(`Updated note: ${normalizedPath}`);
+
+      return {
+        success: true,
+        result: `Successfully appended content to ${normalizedPath}`,
+        data: { path: normalizedPath },
+      };
+    },
+  },
+  {
+    name: 'edit_section',
+    title: 'Edit sections',
+    description: 'Edit content under a specific heading in a note. Replaces all content from the heading to the next heading of same or higher level.',
+    permission: 'write',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'The path to the note' },
+        heading: { type: 'string', description: 'The heading text to find (without # prefix)' },
+        newContent: { type: 'string', description: 'The new content to replace the section with' },
+      },
+      required: ['path', 'heading', 'newContent'],
+    },
+    targetPaths: notePath,
+    preview: async ({ path, heading, newContent }, { app }) => {
+      return previewEdit(app, path, (current) => replaceSection(current, heading || '', newContent || ''));
+    },
+    handler: async ({ path, heading, newContent }, { app, recordUndo }) => {
+      if (!path) {
+        return { success: false, result: 'Note path is required' };
+      }
+      if (!heading) {
+        return { success: false, result: 'Heading is required' };
+      }
+
+      const normalizedPath = normalizeNotePath(path);
+      const file = app.vault.getAbstractFileByPath(normalizedPath);
+
+      if (!file || !(file instanceof TFile)) {
+        return { success: false, result: `Note not found: ${path}` };
+      }
+
+      const content = await app.vault.read(file);
+      const newFileContent = replaceSection(content, heading, newContent || '');
+
+      if (newFileContent === null) {
+        return { success: false, result: `Heading "${heading}" not found in ${path}` };
+      }
+
+      await app.vault.modify(file, newFileContent);
+      await recordUndo({
+        id: `edit-section-${Date.now()}`,
+        timestamp: Date.now(),
+        description: `Edited section "${heading}" in ${normalizedPath}`,
+        operations: [{ type: 'modify', sourcePath: normalizedPath, content: newFileContent }],
+        reverseOperations: [{ type: 'modify', sourcePath: normalizedPath, content }],
+      });
+
+      new Notice(`Updated section "${heading}" in ${normalizedPath}`);
+
+      return {
+        success: true,
+        result: `Successfully updated section "${heading}" in ${normalizedPath}`,
+        data: { path: normalizedPath },
+      };
+    },
+  },
+  {
+    name: 'replace_text',
+    title: 'Find & replace',
+    description: 'Find and replace text in a note.',
+    permission: 'write',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'The path to the note' },
+        search: { type: 'string', description: 'The text to search for' },
+        replace: { type: 'string', description: 'The text to replace with' },
+        replaceAll: { type: 'boolean', description: 'Whether to replace all occurrences (default: false, replaces first only)' },
+      },
+      required: ['path', 'search', 'replace'],
+    },
+    targetPaths: notePath,
+    preview: async ({ path, search, replace, replaceAll }, { app }) => {
+      return previewEdit(app, path, (current) => replaceText(current, search || '', replace ?? '', !!replaceAll)?.content ?? null);
+    },
+    handler: async ({ path, search, replace, replaceAll }, { app, recordUndo }) => {
+      if (!path) {
+        return { success: false, result: 'Note path is required' };
+      }
+      if (!search) {
+        return { success: false, result: 'Search text is required' };
+      }
+
+      const normalizedPath = normalizeNotePath(path);
+      const file = app.vault.getAbstractFileByPath(normalizedPath);
+
+      if (!file || !(file instanceof TFile)) {
+        return { success: false, result: `Note not found: ${path}` };
+      }
+
+      const content = await app.vault.read(file);
+
+      const replacement = replace ?? '';
+      const replaced = replaceText(content, search, replacement, !!replaceAll);
+
+      if (!replaced) {
+        return { success: false, result: `Text "${search}" not found in ${path}` };
+      }
+
+      const { content: newContent, count } = replaced;
+
+      await app.vault.modify(file, newContent);
+      await recordUndo({
+        id: `replace-text-${Date.now()}`,
+        timestamp: Date.now(),
+        description: `Replaced text in ${normalizedPath}`,
+        operations: [{ type: 'modify', sourcePath: normalizedPath, content: newContent }],
+        reverseOperations: [{ type: 'modify', sourcePath: normalizedPath, content }],
+      });
+
+      new Notice(`Replaced ${count} occurrence(s) in ${normalizedPath}`);
+
+      return {
+        success: true,
+        result: `Successfully replaced ${count} occurrence(s) of "${search}" with "${replacement}" in ${normalizedPath}`,
+        data: { path: normalizedPath, count },
+      };
+    },
+  },
+  {
+    name: 'delete_note',
+    title: 'Delete notes',
+    description: 'Delete a note (move to trash). This is reversible through system trash.',
+    permission: 'destructive',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: 'The path to the note to delete (e.g., "folder/note.md")' },
+      },
+      required: ['path'],
+    },
+    targetPaths: notePath,
+    handler: async ({ path }, { app, recordUndo }) => {
+      if (!path) {
+        return { success: false, result: 'Note path is required' };
+      }
+
+      const normalizedPath = normalizeNotePath(path);
+      const file = app.vault.getAbstractFileByPath(normalizedPath);
+
+      if (!file || !(file instanceof TFile)) {
+        return { success: false, result: `Note not found: ${path}` };
+      }
+
+      // Read content before deleting for undo
+      const content = await app.vault.read(file);
+
+      await app.vault.trash(file, true);
+      await recordUndo({
+        id: `delete-note-${Date.now()}`,
+        timestamp: Date.now(),
+        description: `Deleted note: ${normalizedPath}`,
+        operations: [{ type: 'delete', sourcePath: normalizedPath }],
+        reverseOperations: [{ type: 'create-file', sourcePath: normalizedPath, content }],
+      });
+
+      new Notice(`Deleted note: ${normalizedPath}`);
+
+      return {
+        success: true,
+        result: `Successfully deleted note: ${normalizedPath}`,
+        data: { path: normalizedPath },
+      };
+    },
+  },
+];
+
+// ============================================================================
+// Edit helpers (shared by handlers and confirmation previews)
+// ============================================================================
+
+function newNotePath(folder: string | undefined, name: string): string {
+  return joinPath(normalizeFolderPath(folder), normalizeNotePath(name));
+}
+
+function appendContent(current: string, content: string): string {
+  return current + '\n\n' + content;
+}
+
+/**
+ * Replace everything under a heading up to the next heading of the same or higher level.
+ * Returns null when the heading does not exist.
+ */
+function replaceSection(content: string, heading: string, newContent: string): string | null {
+  const lines = content.split('\n');
+
+  // Find the heading
+  let headingLineIndex = -1;
+  let headingLevel = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^(#{1,6})\s+(.+)$/);
+    if (match && match[2].trim().toLowerCase() === heading.trim().toLowerCase()) {
+      headingLineIndex = i;
+      headingLevel = match[1].length;
+      break;
+    }
+  }
+
+  if (headingLineIndex === -1) {
+    return null;
+  }
+
+  // Find the end of the section (next heading of same or higher level)
+  let sectionEndIndex = lines.length;
+  for (let i = headingLineIndex + 1; i < lines.length; i++) {
+    const match = lines[i].match(/^(#{1,6})\s+/);
+    if (match && match[1].length <= headingLevel) {
+      sectionEndIndex = i;
+      break;
+    }
+  }
+
+  const beforeSection = lines.slice(0, headingLineIndex + 1);
+  const afterSection = lines.slice(sectionEndIndex);
+  return [...beforeSection, '', newContent, '', ...afterSection].join('\n');
+}
+
+/**
+ * Returns null when the search text does not occur
+ */
+function replaceText(
+  content: string,
+  search: string,
+  replacement: string,
+  replaceAll: boolean
+): { content: string; count: number } | null {
+  if (!search || !content.includes(search)) {
+    return null;
+  }
+
+  if (replaceAll) {
+    const parts = content.split(search);
+    return { content: parts.join(replacement), count: parts.length - 1 };
+  }
+
+  // Function replacer so "$" sequences in the replacement stay literal
+  return { content: content.replace(search, () => replacement), count: 1 };
+}
+
+async function previewEdit(
+  app: App,
+  path: string | undefined,
+  edit: (current: string) => string | null
+): Promise<ToolPreview | null> {
+  if (!path) return null;
+
+  const normalizedPath = normalizeNotePath(path);
+  const file = app.vault.getAbstractFileByPath(normalizedPath);
+  if (!(file instanceof TFile)) return null;
+
+  const before = await app.vault.read(file);
+  const after = edit(before);
+  return after === null ? null : { path: normalizedPath, before, after };
+}
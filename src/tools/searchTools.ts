@@ -0,0 +1,201 @@
+import { ToolDefinition } from './types';
+import { normalizeFolderPath } from './helpers';
+
+export const SEARCH_TOOLS: ToolDefinition[] = [
+  {
+    name: 'search_vault',
+    title: 'Search notes',
+    description: 'Search for notes in the vault, ranked by relevance (BM25). Words are matched by stem, so "project" also finds "projects", and all terms must match. Supports "quoted phrases", prefix*, OR, NOT / -term, parentheses, and filters: tag:#project, path:Projects/, file:name, any frontmatter property (status:done), and dates modified:/created: (2024-05-01, >=2024-05, <2024, 7d for 7 days ago, >=7d for the past week, 2024-01..2024-03). Returns file paths and matching excerpts.',
+    permission: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'The search query, e.g. "action items" tag:#meeting modified:>=7d -draft' },
+      },
+      required: ['query'],
+    },
+    handler: async ({ query }, { vaultSearch, isDenied }) => {
+      if (!query) {
+        return { success: false, result: 'Search query is required' };
+      }
+
+      let results;
+      try {
+        results = await vaultSearch.searchFiles(query, 'vault', undefined);
+      } catch (e) {
+        return { success: false, result: e instanceof Error ? e.message : String(e) };
+      }
+      results = results.filter((r) => !isDenied(r.filePath));
+
+      if (results.length === 0) {
+        return {
+          success: true,
+          result: `No files found matching "${query}"`,
+          data: [],
+        };
+      }
+
+      const summary = results.slice(0, 5).map(r => {
+        const matchSummary = r.matches.slice(0, 2).map(m =>
+          `  - Line ${m.line}: ${m.content.slice(0, 100)}...`
+        ).join('\n');
+        return `- ${r.filePath}\n${matchSummary}`;
+      }).join('\n\n');
+
+      return {
+        success: true,
+        result: `Found ${results.length} file(s) matching "${query}":\n\n${summary}`,
+        data: results,
+      };
+    },
+  },
+  {
+    name: 'semantic_search',
+    title: 'Semantic search',
+    description: 'Search notes by meaning rather than exact words, using the vault\'s embedding index. Returns the best matching note sections with their heading and line range. Use this for questions and concepts; use search_vault or grep_vault for exact terms.',
+    permission: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'What to look for, e.g. a question or a description of the topic' },
+        limit: { type: 'number', description: 'Maximum number of sections to return (default: 5, max: 20)', default: 5 },
+        folder: { type: 'string', description: 'Optional folder to limit search scope (default: entire vault)' },
+      },
+      required: ['query'],
+    },
+    targetPaths: ({ folder }) => [normalizeFolderPath(folder)],
+    handler: async ({ query, limit, folder }, { plugin, isDenied }) => {
+      if (!query) {
+        return { success: false, result: 'Search query is required' };
+      }
+      if (!plugin.settings.embeddingModel) {
+        return {
+          success: false,
+          result: 'Semantic search is not set up: no embedding model is selected in the Vault AI settings. Use search_vault instead.',
+        };
+      }
+
+      const maxResults = Math.min(Math.max(Number(limit) || 5, 1), 20);
+      const results = (await plugin.semanticIndex.search(query, {
+        limit: maxResults,
+        folder: normalizeFolderPath(folder),
+      })).filter((r) => !isDenied(r.filePath));
+
+      const { pending } = plugin.semanticIndex.getStatus();
+      const indexingNote = pending > 0 ? `\n\n(${pending} note(s) are still being indexed and may be missing.)` : '';
+
+      if (results.length === 0) {
+        return {
+          success: true,
+          result: `No indexed notes match "${query}"${indexingNote}`,
+          data: [],
+        };
+      }
+
+      const summary = results.map(r => {
+        const location = r.heading ? `${r.filePath} > ${r.heading}` : r.filePath;
+        const excerpt = r.excerpt.replace(/\s+/g, ' ').slice(0, 200);
+        return `- ${location} (lines ${r.startLine}-${r.endLine}, similarity ${r.score.toFixed(2)})\n  ${excerpt}`;
+      }).join('\n\n');
+
+      return {
+        success: true,
+        result: `Found ${results.length} section(s) related to "${query}":\n\n${summary}${indexingNote}`,
+        data: results,
+      };
+    },
+  },
+  {
+    name: 'grep_vault',
+    title: 'Regex search',
+    description: 'Search for content in the vault using a regex pattern. More powerful than search_vault for complex patterns. Use filter to only search notes matching a search_vault query, e.g. tag:#project modified:>=2024-01-01.',
+    permission: 'read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pattern: { type: 'string', description: 'The regex pattern to search for' },
+        folder: { type: 'string', description: 'Optional folder to limit search scope (default: entire vault)' },
+        filter: { type: 'string', description: 'Optional search_vault query selecting the notes to search, e.g. tag:#project status:active' },
+      },
+      required: ['pattern'],
+    },
+    targetPaths: ({ folder }) => [normalizeFolderPath(folder)],
+    handler: async ({ pattern, folder, filter }, { app, vaultSearch, reportProgress, isDenied }) => {
+      if (!pattern) {
+        return { success: false, result: 'Pattern is required' };
+      }
+
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern, 'i');
+      } catch (e) {
+        return { success: false, result: `Invalid regex pattern: ${pattern}` };
+      }
+
+      let files = app.vault.getMarkdownFiles();
+      if (filter) {
+        try {
+          files = await vaultSearch.filterFiles(filter, files);
+        } catch (e) {
+          return { success: false, result: e instanceof Error ? e.message : String(e) };
+        }
+      }
+
+      const results: { file: string; matches: { line: number; content: string }[] }[] = [];
+
+      for (let index = 0; index < files.length; index++) {
+        const file = files[index];
+        if (index % 100 === 0) {
+          reportProgress(index, files.length, `Searched ${index} of ${files.length} notes`);
+        }
+
+        // Filter by folder if specified
+        if (folder && folder !== '/' && !file.path.startsWith(folder)) {
+          continue;
+        }
+        if (isDenied(file.path)) {
+          continue;
+        }
+
+        const content = await app.vault.cachedRead(file);
+        const lines = content.split('\n');
+        const fileMatches: { line: number; content: string }[] = [];
+
+        for (let i = 0; i < lines.length; i++) {
+          if (regex.test(lines[i])) {
+            fileMatches.push({
+              line: i + 1,
+              content: lines[i].slice(0, 100),
+            });
+          }
+        }
+
+        if (fileMatches.length > 0) {
+          results.push({
+            file: file.path,
+            matches: fileMatches.slice(0, 5), // Limit matches per file
+          });
+        }
+      }
+
+      if (results.length === 0) {
+        return {
+          success: true,
+          result: `No matches found for pattern "${pattern}"`,
+          data: [],
+        };
+      }
+
+      const summary = results.slice(0, 10).map(r => {
+        const matchSummary = r.matches.map(m => `  Line ${m.line}: ${m.content}`).join('\n');
+        return `- ${r.file}\n${matchSummary}`;
+      }).join('\n\n');
+
+      return {
+        success: true,
+        result: `Found ${results.length} file(s) matching pattern "${pattern}":\n\n${summary}`,
+        data: results,
+      };
+    },
+  },
+];
@@ -0,0 +1,96 @@
+import type { App } from 'obsidian';
+import type VaultAIPlugin from '../main';
+import type { VaultSearch } from '../search/VaultSearch';
+import type { UndoableOperation } from '../types';
+
+// ============================================================================
+// Tool Registry Types
+// ============================================================================
+
+/**
+ * How much a tool can change the vault:
+ * - read: only inspects the vault
+ * - write: creates or modifies content (undoable)
+ * - destructive: deletes content
+ */
+export type ToolPermission = 'read' | 'write' | 'destructive';
+
+export interface ToolPropertySchema {
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  description: string;
+  default?: unknown;
+  enum?: string[];
+  items?: ToolPropertySchema;
+}
+
+export interface ToolInputSchema {
+  type: 'object';
+  properties: Record<string, ToolPropertySchema>;
+  required: string[];
+}
+
+export type ToolArgs = Record<string, any>;
+
+export interface ToolResult {
+  success: boolean;
+  result: string;
+  data?: any;
+}
+
+export type ToolProgressCallback = (progress: number, total?: number, message?: string) => void;
+
+export interface ToolContext {
+  plugin: VaultAIPlugin;
+  app: App;
+  vaultSearch: VaultSearch;
+  // Lets long-running tools report progress (e.g. MCP progress notifications)
+  reportProgress: ToolProgressCallback;
+  // Records a change in the undo journal, inside the caller's transaction if it has one
+  recordUndo: (operation: UndoableOperation) => Promise<void>;
+  // Whether a folder rule denies this tool on a path; results in denied folders are left out
+  isDenied: (path: string) => boolean;
+}
+
+export interface ToolExecuteOptions {
+  onProgress?: ToolProgressCallback;
+  // Who is calling (e.g. "Chat agent"), shown when the user is asked to confirm
+  caller?: string;
+  // Undo journal transaction that changes from this call should join
+  transactionId?: string;
+}
+
+/**
+ * The change an edit would make, shown as a diff before the user confirms it
+ */
+export interface ToolPreview {
+  path: string;
+  before: string;
+  after: string;
+}
+
+export interface ToolConfirmRequest {
+  tool: ToolDefinition;
+  args: ToolArgs;
+  paths: string[];
+  // What triggered the prompt, e.g. 'folder rule "Journal/**"'
+  reason: string;
+  caller?: string;
+  preview: ToolPreview | null;
+}
+
+// Resolves true when the user approves the call
+export type ToolConfirmHandler = (request: ToolConfirmRequest) => Promise<boolean>;
+
+export interface ToolDefinition {
+  name: string;
+  // Short human-readable label for settings and UI
+  title: string;
+  description: string;
+  permission: ToolPermission;
+  inputSchema: ToolInputSchema;
+  handler: (args: ToolArgs, context: ToolContext) => Promise<ToolResult>;
+  // Vault paths the call reads or changes, checked against folder policy rules
+  targetPaths?: (args: ToolArgs) => string[];
+  // Computes the edit without applying it, for the confirmation prompt
+  preview?: (args: ToolArgs, context: ToolContext) => Promise<ToolPreview | null>;
+}
@@ -2,21 +2,90 @@
 // Settings
 // ============================================================================
 
-export type ContextScope = 'current' | 'linked' | 'folder' | 'vault';
+export type ContextScope = 'current' | 'linked' | 'graph' | 'folder' | 'vault';
+export const CONTEXT_SCOPE_LABELS: Record<ContextScope, string> = {
+  current: 'Current Note',
+  linked: 'Linked Notes',
+  graph: 'Link Graph',
+  folder: 'Current Folder',
+  vault: 'Entire Vault',
+};
+
+export type GraphDirection = 'outlinks' | 'backlinks' | 'both';
+
+export type ChatHistoryStorage = 'plugin' | 'vault';
+
+// How far the 'graph' scope reaches from the current note
+export interface GraphScopeOptions {
+  depth: number;
+  direction: GraphDirection;
+  // Also include notes sharing a tag with the current note
+  sharedTags: boolean;
+}
 export type ConnectionStatus = 'ready' | 'thinking' | 'offline';
 
 export type ReasoningLevel = 'auto' | 'off' | 'low' | 'medium' | 'high' | 'on';
 
+export type ServerType = 'lmstudio' | 'ollama' | 'openai';
+
+export const DEFAULT_SERVER_URLS: Record<ServerType, string> = {
+  lmstudio: 'http://localhost:1234',
+  ollama: 'http://localhost:11434',
+  openai: 'http://localhost:8080',
+};
+
+// What happens when a tool is called: run it, ask the user first, or refuse
+export type ToolPolicyAction = 'allow' | 'ask' | 'deny';
+
+export interface FolderPolicyRule {
+  // Glob matched against vault paths: * stays within a folder, ** spans folders
+  pattern: string;
+  action: ToolPolicyAction;
+}
+
 export interface VaultAISettings {
+  serverType: ServerType;
   serverUrl: string;
+  apiKey: string;
+  apiKeyHeader: string;
+  extraHeaders: string;
   selectedModel: string;
   showThinkingProcess: boolean;
   mcpEnabled: boolean;
   mcpPort: number;
+  mcpRequireAuth: boolean;
+  mcpAuthToken: string;
+  // Client names (from MCP clientInfo) allowed to connect, one per line; empty allows any
+  mcpAllowedClients: string;
   systemPrompt: string;
   reasoning: ReasoningLevel;
   modelContextLength: number;
   modelFlashAttention: boolean;
+  toolCallingMode: ToolCallingMode;
+  // Per-tool overrides; tools not listed fall back to a default based on their permission
+  toolPolicies: Record<string, ToolPolicyAction>;
+  // Checked in order; the first rule matching a path decides for that path
+  folderPolicies: FolderPolicyRule[];
+  // Undo journal retention: transactions kept, and days kept (0 keeps them until the limit)
+  undoHistoryLimit: number;
+  undoRetentionDays: number;
+  // Embedding model for the semantic search index; empty disables the index
+  embeddingModel: string;
+  // Let the chat model reorder retrieved passages before answering vault questions
+  searchRerank: boolean;
+  // Search hops for vault questions, and tool-calling rounds for the chat agent
+  maxSearchIterations: number;
+  // Condense older chat messages into a running summary when they outgrow the context
+  summarizeHistory: boolean;
+  // Link graph scope: hops from the current note, link direction, and notes sharing tags
+  graphScopeDepth: number;
+  graphScopeDirection: GraphDirection;
+  graphScopeSharedTags: boolean;
+  // Where conversations are kept: the plugin's data.json, or one markdown note each in a vault folder
+  chatHistoryStorage: ChatHistoryStorage;
+  chatHistoryFolder: string;
+  // Vault folder conversation exports are saved in
+  chatExportFolder: string;
 }
 
 export const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant with access to the user's Obsidian vault through MCP tools.
@@ -29,15 +98,40 @@ When helping the user:
 - If you can't find relevant information, say so honestly`;
 
 export const DEFAULT_SETTINGS: VaultAISettings = {
-  serverUrl: 'http://localhost:1234',
+  serverType: 'lmstudio',
+  serverUrl: DEFAULT_SERVER_URLS.lmstudio,
+  apiKey: '',
+  apiKeyHeader: 'Authorization',
+  extraHeaders: '',
   selectedModel: '',
   showThinkingProcess: true,
   mcpEnabled: true,
   mcpPort: 3456,
+  mcpRequireAuth: true,
+  mcpAuthToken: '',
+  mcpAllowedClients: '',
   systemPrompt: DEFAULT_SYSTEM_PROMPT,
   reasoning: 'auto',
   modelContextLength: 16384,
   modelFlashAttention: true,
+  toolCallingMode: 'auto',
+  toolPolicies: {
+    move_file: 'ask',
+    replace_text: 'ask',
+  },
+  folderPolicies: [],
+  undoHistoryLimit: 100,
+  undoRetentionDays: 30,
+  embeddingModel: '',
+  searchRerank: false,
+  maxSearchIterations: 5,
+  summarizeHistory: true,
+  graphScopeDepth: 2,
+  graphScopeDirection: 'both',
+  graphScopeSharedTags: false,
+  chatHistoryStorage: 'plugin',
+  chatHistoryFolder: 'AI Chats',
+  chatExportFolder: 'AI Exports',
 };
 
 // ============================================================================
@@ -46,16 +140,32 @@ export const DEFAULT_SETTINGS: VaultAISettings = {
 
 export type MessageRole = 'user' | 'assistant' | 'system';
 
-export interface ChatMessage {
+/**
+ * Alternative versions of what follows a message (or the start of a
+ * conversation), kept when a message is edited or a reply regenerated. The
+ * version shown is the rest of the messages array; the others are here.
+ */
+export interface MessageBranches {
+  // The versions not shown, each the messages it consists of
+  branches?: ChatMessage[][];
+  // Position of the version shown among all versions
+  branchIndex?: number;
+}
+
+export interface ChatMessage extends MessageBranches {
   role: MessageRole;
   content: string;
   timestamp: number;
   sources?: string[];
+  // Validated inline citations in content
+  citations?: Citation[];
   searchSteps?: SearchStep[];
   reasoning?: string;
   agentSteps?: AgentStep[];
   actionsPerformed?: string[];
   toolCalls?: ToolCallInfo[];
+  // How the prompt for this answer used the model's context window
+  contextBudget?: BudgetBreakdown;
 }
 
 export interface ToolCallInfo {
@@ -94,14 +204,31 @@ export interface SearchStep {
 // Chat History
 // ============================================================================
 
-export interface Conversation {
+export interface Conversation extends MessageBranches {
   id: string;
   title: string;
   messages: ChatMessage[];
   contextScope: ContextScope;
   createdAt: number;
   updatedAt: number;
+  // Chat model of the latest answer
+  model?: string;
+  // Pinned conversations are listed first
+  pinned?: boolean;
+  // Folder in the chat history list; none for the top level
+  folder?: string;
   lmStudioResponseId?: string;
+  // Model that produced lmStudioResponseId; a response chain only continues on the same model
+  lmStudioResponseModel?: string;
+  // Running summary of the older messages, sent in their place
+  summary?: ConversationSummary;
+}
+
+export interface ConversationSummary {
+  text: string;
+  // messages[0..messageCount) are covered by the summary
+  messageCount: number;
+  updatedAt: number;
 }
 
 export interface ChatHistory {
@@ -113,6 +240,8 @@ export interface SearchResult {
   filePath: string;
   fileName: string;
   matches: SearchMatch[];
+  // BM25 relevance from the keyword index
+  score?: number;
 }
 
 export interface SearchMatch {
@@ -121,10 +250,57 @@ export interface SearchMatch {
   context: string;
 }
 
-export interface AgenticSearchResult {
-  answer: string;
+export interface SemanticSearchResult {
+  filePath: string;
+  // Heading path of the matching chunk, e.g. "Setup > Install"
+  heading: string;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  // Cosine similarity to the query
+  score: number;
+  excerpt: string;
+}
+
+export type RetrievalSource = 'keyword' | 'semantic' | 'graph';
+
+export interface RetrievedChunk {
+  filePath: string;
+  // Heading path of the chunk, e.g. "Setup > Install"
+  heading: string;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  text: string;
+  // Reciprocal rank fusion score
+  score: number;
+  // Retrievers that found this chunk
+  foundBy: RetrievalSource[];
+}
+
+// A [[note#heading]] or [[note#^block]] link in an answer, checked against the retrieved chunks
+export interface Citation {
+  // Link target as written in the answer, e.g. "Projects/Alpha#Timeline"
+  link: string;
+  filePath: string;
+  heading: string;
+  blockId?: string;
+  // 1-based, inclusive lines of the cited passage
+  startLine: number;
+  endLine: number;
+}
+
+export interface SearchContext {
   sources: string[];
   steps: SearchStep[];
+  // Chunks for the model's prompt, in order
+  chunks: RetrievedChunk[];
+  budget: BudgetBreakdown;
+}
+
+export interface AgenticSearchResult extends SearchContext {
+  answer: string;
+  citations: Citation[];
 }
 
 // ============================================================================
@@ -210,13 +386,80 @@ export interface UndoableOperation {
   reverseOperations: FileOperation[];
 }
 
+export type UndoTransactionState = 'applied' | 'undone';
+
+/**
+ * An entry in the undo journal: all changes from one agent turn, tool call or structure action
+ */
+export interface UndoTransaction extends UndoableOperation {
+  // Who made the change, e.g. "Chat agent" or 'MCP client "cursor"'
+  source?: string;
+  state: UndoTransactionState;
+  // Hash of each touched path after the last apply or undo (null: path absent).
+  // A mismatch means the path was edited since, so reverting would lose changes.
+  fingerprints: Record<string, string | null>;
+}
+
+/**
+ * A note edited after the change being undone or redone. `base` is the content the
+ * change left, `current` what is on disk now and `target` what undo/redo would write.
+ */
+export interface UndoMergeRequest {
+  action: 'undo' | 'redo';
+  transaction: UndoTransaction;
+  path: string;
+  base: string;
+  current: string;
+  target: string;
+}
+
+// Resolves to the content to write, or null to cancel the undo/redo
+export type UndoMergeHandler = (request: UndoMergeRequest) => Promise<string | null>;
+
 // ============================================================================
 // LLM
 // ============================================================================
 
+export type ToolCallingMode = 'auto' | 'native' | 'text';
+
 export interface LLMMessage {
-  role: MessageRole;
+  role: MessageRole | 'tool';
   content: string;
+  // Set on assistant messages that requested native tool calls
+  toolCalls?: LLMToolCall[];
+  // Set on 'tool' messages: the id of the call this result answers
+  toolCallId?: string;
+  // Set on 'tool' messages: the name of the tool that produced the result
+  toolName?: string;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema object
+}
+
+export interface LLMToolChatResult {
+  content: string;
+  reasoning?: string;
+  toolCalls: LLMToolCall[];
+}
+
+// Parts of a prompt tracked by the context budget; output is the space kept for the reply
+export type BudgetSection = 'system' | 'history' | 'context' | 'input' | 'output';
+
+export interface BudgetBreakdown {
+  contextLength: number;
+  // Estimated tokens per section
+  sections: Record<BudgetSection, number>;
+  // Inputs that were cut or summarized to fit
+  trimmed: string[];
 }
 
 export interface LMStudioModelsResponse {
@@ -335,6 +578,7 @@ export interface LMStudioMCPIntegration {
   type: 'ephemeral_mcp';
   server_label: string;
   server_url: string;
+  headers?: Record<string, string>;
 }
 
 export interface LMStudioChatRequest {
@@ -439,6 +683,184 @@ export interface LMStudioStreamCallbacks {
   onChatEnd?: (result: LMStudioNewChatResponse) => void;
 }
 
+// ============================================================================
+// Ollama API Types (GET /api/tags, POST /api/chat, POST /api/embed)
+// ============================================================================
+
+export interface OllamaModel {
+  name: string;
+  model: string;
+  modified_at: string;
+  size: number;
+  digest: string;
+  details?: {
+    format?: string;
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+}
+
+export interface OllamaTagsResponse {
+  models: OllamaModel[];
+}
+
+export interface OllamaToolCall {
+  id?: string;
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+export interface OllamaChatMessage {
+  role: string;
+  content: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+export interface OllamaChatRequest {
+  model: string;
+  messages: OllamaChatMessage[];
+  stream: boolean;
+  tools?: OpenAIToolDefinition[];
+  options?: {
+    temperature?: number;
+    num_ctx?: number;
+  };
+}
+
+// With stream: true the server sends one of these per line (NDJSON);
+// the final chunk has done: true and carries the timing stats.
+export interface OllamaChatChunk {
+  model: string;
+  created_at: string;
+  message?: {
+    role: string;
+    content: string;
+    thinking?: string;
+    tool_calls?: OllamaToolCall[];
+  };
+  done: boolean;
+  done_reason?: string;
+  total_duration?: number;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+export interface OllamaEmbedRequest {
+  model: string;
+  input: string[];
+}
+
+export interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+}
+
+// ============================================================================
+// OpenAI-compatible API Types (/v1/models, /v1/chat/completions, /v1/embeddings)
+// Used by llama.cpp server, vLLM, LocalAI and similar servers
+// ============================================================================
+
+export interface OpenAIToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string; // JSON-encoded
+  };
+}
+
+export interface OpenAIChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+export interface OpenAIChatCompletionRequest {
+  model: string;
+  messages: OpenAIChatMessage[];
+  stream: boolean;
+  temperature?: number;
+  max_tokens?: number;
+  tools?: OpenAIToolDefinition[];
+  tool_choice?: 'auto' | 'none' | 'required';
+}
+
+export interface OpenAIChatCompletionResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    message: OpenAIChatMessage & { reasoning_content?: string };
+    finish_reason: string | null;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// Streamed tool calls arrive in fragments keyed by index; only the first
+// fragment carries the id and name, later ones append to the arguments.
+export interface OpenAIToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+export interface OpenAIChatCompletionChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+      reasoning_content?: string | null;
+      tool_calls?: OpenAIToolCallDelta[];
+    };
+    finish_reason: string | null;
+  }[];
+}
+
+export interface OpenAIEmbeddingRequest {
+  model: string;
+  input: string[];
+}
+
+export interface OpenAIEmbeddingResponse {
+  object: string;
+  model: string;
+  data: {
+    object: string;
+    index: number;
+    embedding: number[];
+  }[];
+}
+
 // ============================================================================
 // UI
 // ============================================================================
@@ -1,18 +1,44 @@
 import { MarkdownRenderer, Notice, TFile, setIcon, Menu, setTooltip, Modal, App } from 'obsidian';
 import type VaultAIPlugin from '../main';
 import type { VaultAIView } from './SidebarView';
-import { ChatMessage, SearchStep, Conversation, LMStudioStreamCallbacks, AgentStep, ToolCallInfo, ReasoningLevel, LMStudioModelInfo } from '../types';
+import { ChatMessage, CONTEXT_SCOPE_LABELS, ContextScope, SearchStep, Conversation, ConversationSummary, LMStudioStreamCallbacks, AgentStep, ToolCallInfo, ReasoningLevel, LMStudioModelInfo, LLMMessage } from '../types';
 import { AgenticSearch } from '../search/AgenticSearch';
+import { formatChunkForPrompt } from '../search/HybridRetriever';
+import { CITATION_INSTRUCTIONS, validateCitations } from '../search/citations';
+import { linkCitations } from './citationLinks';
+import { ContextBudget, formatBudgetBreakdown } from '../llm/ContextBudget';
+import { formatHistorySummary, formatPromptHistory } from '../chat/ChatHistoryManager';
+import { ConversationFilter, ConversationMatch, isFilterEmpty } from '../chat/conversationSearch';
+import { parseDateRange } from '../search/SearchQuery';
 import { LMStudioClient, LMStudioChatResult } from '../llm/LMStudioClient';
 import { ChatAgent } from '../agent/ChatAgent';
+import { ExportModal } from './ExportModal';
+import { ImportModal } from './ImportModal';
+import { MCP_TRANSACTION_HEADER } from '../mcp/types';
+
+// Date filters of the history list, as parseDateRange values
+const HISTORY_DATE_FILTERS: Record<string, string> = {
+  '': 'Any time',
+  today: 'Today',
+  '>=7d': 'Past week',
+  '>=30d': 'Past month',
+  '>=365d': 'Past year',
+};
 
 export class ChatTab {
   private plugin: VaultAIPlugin;
   private view: VaultAIView;
   private containerEl: HTMLElement | null = null;
   private historyListEl: HTMLElement | null = null;
+  private historyFiltersEl: HTMLElement | null = null;
+  private historyFilterBtn: HTMLElement | null = null;
+  // Search and filters of the history list; the date filter is a HISTORY_DATE_FILTERS key
+  private historyFilter: ConversationFilter = { query: '' };
+  private historyDateFilter = '';
+  private collapsedFolders = new Set<string>();
   private messagesEl: HTMLElement | null = null;
   private inputEl: HTMLTextAreaElement | null = null;
+  private scopeDropdown: HTMLSelectElement | null = null;
   private modelDropdown: HTMLSelectElement | null = null;
   private reasoningDropdown: HTMLSelectElement | null = null;
   private isProcessing = false;
@@ -49,6 +75,20 @@ export class ChatTab {
 
     // Load active conversation or show empty state
     this.loadActiveConversation();
+
+    // Chat notes edited, renamed or deleted outside the view, or loaded after it opened
+    this.view.register(this.plugin.chatHistory.onChange(() => this.onHistoryChanged()));
+  }
+
+  private onHistoryChanged(): void {
+    if (!this.currentConversationId || !this.plugin.chatHistory.getConversation(this.currentConversationId)) {
+      this.currentConversationId = this.plugin.chatHistory.getActiveConversation()?.id ?? null;
+    }
+    // Keep the answer being streamed on screen
+    if (!this.isProcessing) {
+      this.renderMessages();
+    }
+    this.renderHistoryList();
   }
 
   private renderHistorySidebar(sidebar: HTMLElement): void {
@@ -56,6 +96,13 @@ export class ChatTab {
     const header = sidebar.createDiv('vault-ai-history-header');
     header.createSpan({ text: 'Chat History', cls: 'vault-ai-history-title' });
 
+    const historyMenuBtn = header.createEl('button', {
+      cls: 'vault-ai-history-menu-btn clickable-icon',
+      attr: { 'aria-label': 'More options' },
+    });
+    setIcon(historyMenuBtn, 'more-horizontal');
+    historyMenuBtn.addEventListener('click', (e) => this.showHistoryMenu(e));
+
     const newChatBtn = header.createEl('button', {
       cls: 'vault-ai-new-chat-btn',
       attr: { 'aria-label': 'New Chat' },
@@ -63,15 +110,106 @@ export class ChatTab {
     setIcon(newChatBtn, 'plus');
     newChatBtn.addEventListener('click', () => this.createNewConversation());
 
+    // Search over titles and messages
+    const searchEl = sidebar.createDiv('vault-ai-history-search');
+    const searchInput = searchEl.createEl('input', {
+      type: 'search',
+      cls: 'vault-ai-history-search-input',
+      attr: { placeholder: 'Search chats...' },
+    });
+    searchInput.addEventListener('input', () => {
+      this.historyFilter.query = searchInput.value;
+      this.renderHistoryList();
+    });
+
+    this.historyFilterBtn = searchEl.createEl('button', {
+      cls: 'vault-ai-history-filter-btn',
+      attr: { 'aria-label': 'Filters' },
+    });
+    setIcon(this.historyFilterBtn, 'filter');
+    this.historyFilterBtn.addEventListener('click', () => {
+      if (!this.historyFiltersEl) return;
+      if (this.historyFiltersEl.isShown()) {
+        this.historyFiltersEl.hide();
+      } else {
+        this.renderHistoryFilters();
+        this.historyFiltersEl.show();
+      }
+    });
+
+    this.historyFiltersEl = sidebar.createDiv('vault-ai-history-filters');
+    this.historyFiltersEl.hide();
+
     // Conversation list
     this.historyListEl = sidebar.createDiv('vault-ai-history-list');
     this.renderHistoryList();
   }
 
+  private renderHistoryFilters(): void {
+    if (!this.historyFiltersEl) return;
+    this.historyFiltersEl.empty();
+    const filter = this.historyFilter;
+
+    const addSelect = (options: Record<string, string>, value: string, onChange: (value: string) => void) => {
+      const select = this.historyFiltersEl!.createEl('select', { cls: 'vault-ai-history-filter' });
+      for (const [key, label] of Object.entries(options)) {
+        select.createEl('option', { value: key, text: label });
+      }
+      select.value = value;
+      select.addEventListener('change', () => {
+        onChange(select.value);
+        this.renderHistoryList();
+      });
+    };
+
+    addSelect({ '': 'Any scope', ...CONTEXT_SCOPE_LABELS }, filter.scope || '', (value) => {
+      filter.scope = (value as ContextScope) || undefined;
+    });
+
+    const models: Record<string, string> = { '': 'Any model' };
+    for (const model of this.plugin.chatHistory.getModels()) {
+      models[model] = model;
+    }
+    addSelect(models, filter.model || '', (value) => {
+      filter.model = value || undefined;
+    });
+
+    addSelect(HISTORY_DATE_FILTERS, this.historyDateFilter, (value) => {
+      this.historyDateFilter = value;
+    });
+
+    const noteInput = this.historyFiltersEl.createEl('input', {
+      type: 'text',
+      cls: 'vault-ai-history-filter',
+      attr: { placeholder: 'Touched note...' },
+    });
+    noteInput.value = filter.note || '';
+    setTooltip(noteInput, 'Conversations that cited, read or changed a note whose path contains this');
+    noteInput.addEventListener('input', () => {
+      filter.note = noteInput.value;
+      this.renderHistoryList();
+    });
+  }
+
+  private getHistoryFilter(): ConversationFilter {
+    return {
+      ...this.historyFilter,
+      updated: parseDateRange(this.historyDateFilter) ?? undefined,
+    };
+  }
+
   private renderHistoryList(): void {
     if (!this.historyListEl) return;
     this.historyListEl.empty();
 
+    const filter = this.getHistoryFilter();
+    const filtered = !isFilterEmpty(filter);
+    this.historyFilterBtn?.toggleClass('is-active', !!(filter.scope || filter.model || filter.updated || filter.note?.trim()));
+    if (filtered) {
+      this.renderSearchResults(this.historyListEl, this.plugin.chatHistory.search(filter));
+      return;
+    }
+
     const conversations = this.plugin.chatHistory.getConversations();
 
     if (conversations.length === 0) {
@@ -80,27 +218,85 @@ export class ChatTab {
       return;
     }
 
-    for (const conversation of conversations) {
-      this.renderHistoryItem(conversation);
+    // Pinned first, then folders, then the rest
+    const pinned = conversations.filter((c) => c.pinned);
+    if (pinned.length > 0) {
+      this.renderHistoryGroup(this.historyListEl, 'Pinned', pinned);
+    }
+    for (const folder of this.plugin.chatHistory.getFolders()) {
+      const inFolder = conversations.filter((c) => !c.pinned && c.folder === folder);
+      if (inFolder.length > 0) {
+        this.renderHistoryGroup(this.historyListEl, folder, inFolder, folder);
+      }
+    }
+    for (const conversation of conversations.filter((c) => !c.pinned && !c.folder)) {
+      this.renderHistoryItem(this.historyListEl, conversation);
     }
   }
 
-  private renderHistoryItem(conversation: Conversation): void {
-    if (!this.historyListEl) return;
+  private renderHistoryGroup(parent: HTMLElement, name: string, conversations: Conversation[], folder?: string): void {
+    const group = parent.createDiv('vault-ai-history-group');
+    const collapsed = folder !== undefined && this.collapsedFolders.has(folder);
+
+    const header = group.createDiv('vault-ai-history-group-header');
+    const icon = header.createSpan('vault-ai-history-group-icon');
+    setIcon(icon, folder === undefined ? 'pin' : collapsed ? 'folder-closed' : 'folder-open');
+    header.createSpan({ text: name, cls: 'vault-ai-history-group-name' });
+    header.createSpan({ text: String(conversations.length), cls: 'vault-ai-history-group-count' });
+
+    if (folder !== undefined) {
+      header.addClass('is-collapsible');
+      header.addEventListener('click', () => {
+        if (collapsed) {
+          this.collapsedFolders.delete(folder);
+        } else {
+          this.collapsedFolders.add(folder);
+        }
+        this.renderHistoryList();
+      });
+    }
+
+    if (!collapsed) {
+      for (const conversation of conversations) {
+        this.renderHistoryItem(group, conversation);
+      }
+    }
+  }
+
+  private renderSearchResults(parent: HTMLElement, matches: ConversationMatch[]): void {
+    if (matches.length === 0) {
+      const emptyEl = parent.createDiv('vault-ai-history-empty');
+      emptyEl.createSpan({ text: 'No matching conversations' });
+      return;
+    }
+
+    parent.createDiv({
+      cls: 'vault-ai-history-result-count',
+      text: `${matches.length} conversation${matches.length === 1 ? '' : 's'}`,
+    });
+    for (const match of matches) {
+      this.renderHistoryItem(parent, match.conversation, match);
+    }
+  }
 
-    const item = this.historyListEl.createDiv({
+  private renderHistoryItem(parent: HTMLElement, conversation: Conversation, match?: ConversationMatch): void {
+    const item = parent.createDiv({
       cls: `vault-ai-history-item ${conversation.id === this.currentConversationId ? 'active' : ''}`,
     });
 
     const titleEl = item.createDiv('vault-ai-history-item-title');
     titleEl.setText(conversation.title);
 
+    if (match?.snippet) {
+      item.createDiv({ cls: 'vault-ai-history-item-snippet', text: match.snippet });
+    }
+
     const dateEl = item.createDiv('vault-ai-history-item-date');
     dateEl.setText(this.formatDate(conversation.updatedAt));
 
-    // Click to select conversation
+    // Click to select conversation, at the matching message for search results
     item.addEventListener('click', () => {
-      this.switchToConversation(conversation.id);
+      this.switchToConversation(conversation.id, match?.messageIndex);
     });
 
     // Right-click context menu
@@ -110,6 +306,38 @@ export class ChatTab {
     });
   }
 
+  private showHistoryMenu(e: MouseEvent): void {
+    const menu = new Menu();
+    const all = this.plugin.chatHistory.getConversations();
+    const filter = this.getHistoryFilter();
+
+    if (!isFilterEmpty(filter)) {
+      const shown = this.plugin.chatHistory.search(filter).map((match) => match.conversation);
+      menu.addItem((item) => {
+        item.setTitle(`Export ${shown.length} shown conversation${shown.length === 1 ? '' : 's'}...`);
+        item.setIcon('download');
+        item.setDisabled(shown.length === 0);
+        item.onClick(() => new ExportModal(this.plugin.app, this.plugin, shown).open());
+      });
+    }
+
+    menu.addItem((item) => {
+      item.setTitle('Export all conversations...');
+      item.setIcon('download');
+      item.setDisabled(all.length === 0);
+      item.onClick(() => new ExportModal(this.plugin.app, this.plugin, all).open());
+    });
+
+    menu.addSeparator();
+    menu.addItem((item) => {
+      item.setTitle('Import conversations...');
+      item.setIcon('upload');
+      item.onClick(() => new ImportModal(this.plugin.app, this.plugin).open());
+    });
+
+    menu.showAtMouseEvent(e);
+  }
+
   private showConversationMenu(e: MouseEvent, conversation: Conversation): void {
     const menu = new Menu();
 
@@ -125,6 +353,29 @@ export class ChatTab {
       });
     });
 
+    menu.addItem((item) => {
+      item.setTitle(conversation.pinned ? 'Unpin' : 'Pin');
+      item.setIcon(conversation.pinned ? 'pin-off' : 'pin');
+      item.onClick(async () => {
+        await this.plugin.chatHistory.setPinned(conversation.id, !conversation.pinned);
+        this.renderHistoryList();
+      });
+    });
+
+    menu.addItem((item) => {
+      item.setTitle('Move to folder...');
+      item.setIcon('folder-input');
+      item.onClick(async () => {
+        const folders = this.plugin.chatHistory.getFolders();
+        const hint = folders.length > 0 ? ` (existing: ${folders.join(', ')})` : '';
+        const folder = prompt(`Folder name, empty for none${hint}:`, conversation.folder || '');
+        if (folder !== null) {
+          await this.plugin.chatHistory.moveToFolder(conversation.id, folder);
+          this.renderHistoryList();
+        }
+      });
+    });
+
     menu.addItem((item) => {
       item.setTitle('Open in new window');
       item.setIcon('external-link');
@@ -133,6 +384,14 @@ export class ChatTab {
       });
     });
 
+    menu.addItem((item) => {
+      item.setTitle('Export...');
+      item.setIcon('download');
+      item.onClick(() => {
+        new ExportModal(this.plugin.app, this.plugin, [conversation]).open();
+      });
+    });
+
     menu.addSeparator();
 
     menu.addItem((item) => {
@@ -154,9 +413,30 @@ export class ChatTab {
   }
 
   private renderChatArea(chatArea: HTMLElement): void {
-    // Controls container for model selector
+    // Controls container for scope and model selectors
     const controlsContainer = chatArea.createDiv('vault-ai-controls-container');
 
+    // Scope selector
+    const scopeContainer = controlsContainer.createDiv('vault-ai-scope-container');
+    scopeContainer.createSpan({ text: 'Context: ' });
+
+    this.scopeDropdown = scopeContainer.createEl('select', {
+      cls: 'vault-ai-scope-dropdown',
+    });
+
+    for (const [value, label] of Object.entries(CONTEXT_SCOPE_LABELS)) {
+      this.scopeDropdown.createEl('option', { text: label, value });
+    }
+    this.scopeDropdown.value = 'vault';
+
+    // Without a conversation the choice applies to the next one created
+    this.scopeDropdown.addEventListener('change', async () => {
+      const scope = this.scopeDropdown?.value as ContextScope;
+      if (this.currentConversationId) {
+        await this.plugin.chatHistory.updateConversationScope(this.currentConversationId, scope);
+      }
+    });
+
     // Model selector
     const modelContainer = controlsContainer.createDiv('vault-ai-model-container');
     modelContainer.createSpan({ text: 'Model: ' });
@@ -245,21 +525,64 @@ export class ChatTab {
     this.renderHistoryList();
   }
 
-  private async switchToConversation(conversationId: string): Promise<void> {
+  private async switchToConversation(conversationId: string, messageIndex?: number): Promise<void> {
     this.currentConversationId = conversationId;
     await this.plugin.chatHistory.setActiveConversation(conversationId);
     this.renderMessages();
     this.renderHistoryList();
+    if (messageIndex !== undefined) {
+      this.scrollToMessage(messageIndex);
+    }
+  }
+
+  private scrollToMessage(index: number): void {
+    // By index attribute, not position: the streaming message is a .vault-ai-message too
+    const messageEl = this.messagesEl?.querySelector(`.vault-ai-message[data-index="${index}"]`);
+    if (!(messageEl instanceof HTMLElement)) return;
+
+    messageEl.scrollIntoView({ block: 'center' });
+    messageEl.addClass('vault-ai-message-highlight');
+    window.setTimeout(() => messageEl.removeClass('vault-ai-message-highlight'), 2000);
   }
 
   private async createNewConversation(): Promise<void> {
-    const conversation = await this.plugin.chatHistory.createConversation('vault');
+    const conversation = await this.plugin.chatHistory.createConversation(this.getScope());
     this.currentConversationId = conversation.id;
     this.renderMessages();
     this.renderHistoryList();
     this.inputEl?.focus();
   }
 
+  /**
+   * Budget for an LM Studio answer: the system prompt, the history sent with it
+   * and the message are reserved. When LM Studio carries the conversation on
+   * (previousResponseId), the turns it holds since the summary are counted.
+   */
+  private createContextBudget(systemPrompt: string, history: string, input: string, previousResponseId?: string): ContextBudget {
+    const budget = ContextBudget.forPlugin(this.plugin);
+    budget.reserve('system', systemPrompt);
+    budget.reserve('history', history);
+    budget.reserve('input', input);
+
+    const conversation = this.plugin.chatHistory.getConversation(this.currentConversationId!);
+    if (previousResponseId && conversation) {
+      // The last message is the one being answered
+      const turns = conversation.messages.slice(conversation.summary?.messageCount || 0, -1);
+      budget.reserve('history', formatHistorySummary(conversation.summary?.text));
+      budget.fitMessages(turns.map((m) => ({ role: m.role, content: m.content })));
+    }
+    return budget;
+  }
+
+
+  private getScope(): ContextScope {
+    if (this.currentConversationId) {
+      const conversation = this.plugin.chatHistory.getConversation(this.currentConversationId);
+      if (conversation) return conversation.contextScope;
+    }
+    return (this.scopeDropdown?.value as ContextScope) || 'vault';
+  }
+
   private getCurrentMessages(): ChatMessage[] {
     if (!this.currentConversationId) return [];
     const conversation = this.plugin.chatHistory.getConversation(this.currentConversationId);
@@ -270,6 +593,10 @@ export class ChatTab {
     if (!this.messagesEl) return;
     this.messagesEl.empty();
 
+    if (this.scopeDropdown && this.currentConversationId) {
+      this.scopeDropdown.value = this.getScope();
+    }
+
     const messages = this.getCurrentMessages();
 
     if (messages.length === 0) {
@@ -292,20 +619,119 @@ export class ChatTab {
       return;
     }
 
-    for (const message of messages) {
-      this.renderMessage(message);
-    }
+    const conversation = this.currentConversationId ? this.plugin.chatHistory.getConversation(this.currentConversationId) : undefined;
+    messages.forEach((message, index) => {
+      if (conversation?.summary && index === conversation.summary.messageCount) {
+        this.renderSummaryMarker(conversation.summary);
+      }
+      this.renderMessage(message, index);
+    });
 
     // Scroll to bottom
     this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
   }
 
-  private renderMessage(message: ChatMessage): void {
+  /**
+   * "‹ 2/3 ›" to switch between versions of the conversation from a message on,
+   * if it was edited or regenerated
+   */
+  private renderBranchNav(parent: HTMLElement, index: number): void {
+    if (!this.currentConversationId) return;
+    const conversationId = this.currentConversationId;
+    const { count, current } = this.plugin.chatHistory.getBranchInfo(conversationId, index);
+    if (count < 2) return;
+
+    const navEl = parent.createDiv('vault-ai-branch-nav');
+    const switchTo = async (branch: number) => {
+      if (this.isProcessing) return;
+      await this.plugin.chatHistory.switchBranch(conversationId, index, branch);
+      this.renderMessages();
+      this.scrollToMessage(index);
+    };
+
+    const prevBtn = navEl.createEl('button', { cls: 'vault-ai-branch-btn clickable-icon', attr: { 'aria-label': 'Previous version' } });
+    setIcon(prevBtn, 'chevron-left');
+    prevBtn.disabled = current === 0;
+    prevBtn.addEventListener('click', () => switchTo(current - 1));
+
+    navEl.createSpan({ text: `${current + 1}/${count}`, cls: 'vault-ai-branch-count' });
+
+    const nextBtn = navEl.createEl('button', { cls: 'vault-ai-branch-btn clickable-icon', attr: { 'aria-label': 'Next version' } });
+    setIcon(nextBtn, 'chevron-right');
+    nextBtn.disabled = current === count - 1;
+    nextBtn.addEventListener('click', () => switchTo(current + 1));
+  }
+
+  private addMessageAction(parent: HTMLElement, icon: string, label: string, onClick: () => void): void {
+    const button = parent.createEl('button', {
+      cls: 'vault-ai-message-action-btn clickable-icon',
+      attr: { 'aria-label': label },
+    });
+    setIcon(button, icon);
+    setTooltip(button, label);
+    button.addEventListener('click', (e) => {
+      e.stopPropagation();
+      if (!this.isProcessing) onClick();
+    });
+  }
+
+  /**
+   * Swap a user message's text for an editor; sending starts a new version of
+   * the conversation from that message
+   */
+  private startEditing(messageEl: HTMLElement, message: ChatMessage, index: number): void {
+    const contentEl = messageEl.querySelector<HTMLElement>('.vault-ai-message-content');
+    if (!contentEl) return;
+    contentEl.empty();
+
+    const textarea = contentEl.createEl('textarea', { cls: 'vault-ai-edit-input' });
+    textarea.value = message.content;
+
+    const buttons = contentEl.createDiv('vault-ai-edit-buttons');
+    const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+    const sendBtn = buttons.createEl('button', { text: 'Send', cls: 'mod-cta' });
+
+    const send = () => {
+      const content = textarea.value.trim();
+      if (content) {
+        this.resend(index, content);
+      }
+    };
+    cancelBtn.addEventListener('click', () => this.renderMessages());
+    sendBtn.addEventListener('click', send);
+    textarea.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        send();
+      } else if (e.key === 'Escape') {
+        this.renderMessages();
+      }
+    });
+
+    textarea.focus();
+  }
+
+  /**
+   * Marks where the model's view of the conversation starts: messages above are
+   * sent as the summary, which can be expanded here
+   */
+  private renderSummaryMarker(summary: ConversationSummary): void {
+    if (!this.messagesEl) return;
+
+    const details = this.messagesEl.createEl('details', { cls: 'vault-ai-summary-marker' });
+    details.createEl('summary', {
+      text: `Earlier messages are summarized for the model (${summary.messageCount})`,
+    });
+    details.createDiv({ cls: 'vault-ai-summary-text', text: summary.text });
+  }
+
+  private renderMessage(message: ChatMessage, index: number): void {
     if (!this.messagesEl) return;
 
     const messageEl = this.messagesEl.createDiv(
       `vault-ai-message vault-ai-message-${message.role}`
     );
+    messageEl.dataset.index = String(index);
 
     // Add message header with copy button
     const headerEl = messageEl.createDiv('vault-ai-message-header');
@@ -313,8 +739,16 @@ export class ChatTab {
     const roleLabel = headerEl.createSpan('vault-ai-message-role');
     roleLabel.setText(message.role === 'user' ? 'You' : 'AI');
 
+    this.renderBranchNav(headerEl, index);
+
     const actionsEl = headerEl.createDiv('vault-ai-message-actions');
 
+    if (message.role === 'user') {
+      this.addMessageAction(actionsEl, 'pencil', 'Edit and resend', () => this.startEditing(messageEl, message, index));
+    } else if (message.role === 'assistant' && this.getCurrentMessages()[index - 1]?.role === 'user') {
+      this.addMessageAction(actionsEl, 'refresh-cw', 'Regenerate', () => this.resend(index));
+    }
+
     const copyBtn = actionsEl.createEl('button', {
       cls: 'vault-ai-copy-btn clickable-icon',
       attr: { 'aria-label': 'Copy message' },
@@ -360,6 +794,7 @@ export class ChatTab {
       '',
       this.view
     );
+    linkCitations(this.plugin.app, contentEl, message.citations);
 
     // Render actions performed if present (for agent mode)
     if (message.actionsPerformed && message.actionsPerformed.length > 0) {
@@ -395,6 +830,13 @@ export class ChatTab {
       }
     }
 
+    if (message.contextBudget) {
+      messageEl.createDiv({
+        cls: 'vault-ai-context-budget',
+        text: formatBudgetBreakdown(message.contextBudget),
+      });
+    }
+
     // Render search steps thinking process if enabled and present
     if (
       this.plugin.settings.showThinkingProcess &&
@@ -516,7 +958,7 @@ export class ChatTab {
 
       if (step.results && step.results.length > 0) {
         stepEl.createEl('p', {
-          text: `Found ${step.results.length} file(s) with matches`,
+          text: `Found ${step.results.length} file(s): ${step.results.map((r) => r.fileName).join(', ')}`,
           cls: 'results-count',
         });
       }
@@ -580,6 +1022,17 @@ export class ChatTab {
       });
     });
 
+    const conversation = this.currentConversationId ? this.plugin.chatHistory.getConversation(this.currentConversationId) : undefined;
+    if (conversation) {
+      menu.addItem((item) => {
+        item.setTitle('Export conversation...');
+        item.setIcon('download');
+        item.onClick(() => {
+          new ExportModal(this.plugin.app, this.plugin, [conversation]).open();
+        });
+      });
+    }
+
     menu.showAtMouseEvent(e);
   }
 
@@ -833,30 +1286,14 @@ export class ChatTab {
     if (!this.inputEl || this.isProcessing) return;
 
     const userMessage = this.inputEl.value.trim();
-    if (!userMessage) return;
-
-    if (this.plugin.connectionStatus === 'offline') {
-      new Notice('Not connected to LLM server. Check your settings.');
-      return;
-    }
-
-    if (!this.plugin.settings.selectedModel) {
-      new Notice('No model selected. Please select a model in settings.');
-      return;
-    }
+    if (!userMessage || !this.canSend()) return;
 
     // Set processing state early and wrap everything in try/finally
     this.isProcessing = true;
     this.view.setConnectionStatus('thinking');
 
     try {
-      // Ensure selected model is loaded (auto unload/load)
-      try {
-        await this.plugin.ensureModelLoaded();
-      } catch (error) {
-        console.error('[Vault AI] Failed to ensure model loaded:', error);
-        new Notice(`Failed to load model: ${error}`);
-      }
+      await this.loadSelectedModel();
 
       // Create conversation if none exists
       if (!this.currentConversationId) {
@@ -889,20 +1326,98 @@ export class ChatTab {
         );
       }
 
-      // Check if MCP is enabled and server is running
-      const mcpUrl = this.plugin.getMCPServerUrl();
+      await this.generateReply(userMessage);
+    } catch (error) {
+      console.error('Error in sendMessage:', error);
+      new Notice(`Error sending message: ${error}`);
+    } finally {
+      this.isProcessing = false;
+      this.view.setConnectionStatus('ready');
+    }
+  }
 
-      if (mcpUrl && this.plugin.settings.mcpEnabled) {
-        await this.sendMessageWithMCP(userMessage, mcpUrl);
-      } else {
-        await this.sendMessageLMStudio(userMessage);
+  /**
+   * Start a new version of the conversation at message index and answer it.
+   * With edited text, the user message there is replaced (edit and resend);
+   * without, the reply there is generated again. The version shown before is
+   * kept and can be switched back to.
+   */
+  private async resend(index: number, edited?: string): Promise<void> {
+    const conversationId = this.currentConversationId;
+    if (!conversationId || this.isProcessing || !this.canSend()) return;
+
+    this.isProcessing = true;
+    this.view.setConnectionStatus('thinking');
+
+    try {
+      await this.loadSelectedModel();
+
+      const previous = await this.plugin.chatHistory.branchAt(conversationId, index);
+      if (edited !== undefined) {
+        await this.plugin.chatHistory.addMessage(conversationId, {
+          role: 'user',
+          content: edited,
+          timestamp: Date.now(),
+        });
+      }
+      this.renderMessages();
+
+      const messages = this.getCurrentMessages();
+      try {
+        await this.generateReply(messages[messages.length - 1].content);
+      } finally {
+        // No new reply to show: go back to the one that was there
+        if (edited === undefined && this.getCurrentMessages().length === index) {
+          await this.plugin.chatHistory.switchBranch(conversationId, index, previous);
+        }
       }
     } catch (error) {
-      console.error('Error in sendMessage:', error);
+      console.error('[Vault AI] Failed to resend message:', error);
       new Notice(`Error sending message: ${error}`);
     } finally {
       this.isProcessing = false;
       this.view.setConnectionStatus('ready');
+      this.renderMessages();
+    }
+  }
+
+  private canSend(): boolean {
+    if (this.plugin.connectionStatus === 'offline') {
+      new Notice('Not connected to LLM server. Check your settings.');
+      return false;
+    }
+
+    if (!this.plugin.settings.selectedModel) {
+      new Notice('No model selected. Please select a model in settings.');
+      return false;
+    }
+    return true;
+  }
+
+  private async loadSelectedModel(): Promise<void> {
+    // Ensure selected model is loaded (auto unload/load)
+    try {
+      await this.plugin.ensureModelLoaded();
+    } catch (error) {
+      console.error('[Vault AI] Failed to ensure model loaded:', error);
+      new Notice(`Failed to load model: ${error}`);
+    }
+  }
+
+  /**
+   * Answer the last message of the current conversation
+   */
+  private async generateReply(userMessage: string): Promise<void> {
+    // Check if MCP is enabled and server is running
+    const mcpUrl = this.plugin.getMCPServerUrl();
+
+    if (this.plugin.settings.serverType !== 'lmstudio') {
+      // Servers without LM Studio's /api/v1/chat go through the in-process agent
+      await this.sendMessageWithAgent(userMessage);
+    } else if (mcpUrl && this.plugin.settings.mcpEnabled) {
+      await this.sendMessageWithMCP(userMessage, mcpUrl);
+    } else {
+      await this.sendMessageLMStudio(userMessage);
     }
   }
 
@@ -918,25 +1433,29 @@ If the user's request relates to "this note" or seems to reference their current
   private async sendMessageWithMCP(userMessage: string, mcpUrl: string): Promise<void> {
     const lmClient = this.plugin.llmClient as LMStudioClient;
 
-    // Get the previous response ID for conversation continuity
-    const previousResponseId = this.plugin.chatHistory.getLMStudioResponseId(
-      this.currentConversationId!
-    );
+    // Continue LM Studio's stored conversation, or start a new one from the summary and recent turns
+    const { previousResponseId, history } = await this.plugin.chatHistory.getLMStudioHistory(this.currentConversationId!);
+    const historyPrompt = formatPromptHistory(history);
 
     // Create streaming message UI
     this.createStreamingMessage();
 
     // Include current note context in system prompt
     const currentNoteContext = this.getCurrentNoteContext();
-    const systemPrompt = this.plugin.settings.systemPrompt + currentNoteContext;
+    const systemPrompt = this.plugin.settings.systemPrompt + currentNoteContext + historyPrompt;
 
     // Get reasoning setting (only pass if not 'auto')
     const reasoning = this.plugin.settings.reasoning !== 'auto'
       ? this.plugin.settings.reasoning as 'off' | 'low' | 'medium' | 'high' | 'on'
       : undefined;
 
+    // LM Studio's tool calls come back through the MCP server; the header makes them one undo step
+    const summary = userMessage.length > 60 ? userMessage.slice(0, 60) + '...' : userMessage;
+    const transactionId = this.plugin.undoJournal.beginTransaction(`Chat: ${summary}`, 'LM Studio chat');
+
     try {
       const result = await lmClient.chatWithMCP(userMessage, mcpUrl, {
+        mcpHeaders: { ...this.plugin.getMCPAuthHeaders(), [MCP_TRANSACTION_HEADER]: transactionId },
         systemPrompt,
         previousResponseId,
         store: true,
@@ -984,7 +1503,8 @@ If the user's request relates to "this note" or seems to reference their current
       if (result.responseId) {
         await this.plugin.chatHistory.updateLMStudioResponseId(
           this.currentConversationId!,
-          result.responseId
+          result.responseId,
+          this.plugin.settings.selectedModel
         );
       }
 
@@ -1027,6 +1547,7 @@ If the user's request relates to "this note" or seems to reference their current
 
       await this.plugin.chatHistory.addMessage(this.currentConversationId!, errorMsg);
     } finally {
+      await this.plugin.undoJournal.commitTransaction(transactionId);
       this.isProcessing = false;
       this.view.setConnectionStatus('ready');
       this.renderMessages();
@@ -1036,10 +1557,9 @@ If the user's request relates to "this note" or seems to reference their current
   private async sendMessageLMStudio(userMessage: string): Promise<void> {
     const lmClient = this.plugin.llmClient as LMStudioClient;
 
-    // Get the previous response ID for conversation continuity
-    const previousResponseId = this.plugin.chatHistory.getLMStudioResponseId(
-      this.currentConversationId!
-    );
+    // Continue LM Studio's stored conversation, or start a new one from the summary and recent turns
+    const { previousResponseId, history } = await this.plugin.chatHistory.getLMStudioHistory(this.currentConversationId!);
+    const historyPrompt = formatPromptHistory(history);
 
     // Create streaming message UI
     this.createStreamingMessage();
@@ -1055,28 +1575,32 @@ Be concise and helpful. When answering:
 - Directly answer the question based on the provided notes
 - Mention which notes contain the relevant information
 - If the notes don't contain enough information to fully answer, say so
-- Do not make up information that isn't in the notes${currentNoteInfo}`;
-
-    // Build context from vault search
-    const search = new AgenticSearch(this.plugin);
-    const searchResult = await search.search(userMessage, 'vault');
-
-    // Build input with context
-    let input = userMessage;
+- Do not make up information that isn't in the notes
+${CITATION_INSTRUCTIONS}${currentNoteInfo}`;
 
     // Add current note context to the input
     const currentNoteContext = currentFile ? `\n\n(Currently open note: "${currentFile.path}")` : '';
 
-    if (searchResult.sources.length > 0) {
-      input = `Based on the following notes from my vault, please answer this question: "${userMessage}"${currentNoteContext}
+    const withNotes = (notes: string) => `Based on the following notes from my vault, please answer this question: "${userMessage}"${currentNoteContext}
 
 --- NOTES FROM VAULT ---
 
-${searchResult.sources.map((s) => `Source: ${s}`).join('\n')}
+${notes}
 
 --- END OF NOTES ---
 
 Please answer the question based on the information found.`;
+
+    // Build context from vault search, filling what the prompt and history leave
+    const budget = this.createContextBudget(systemPrompt, historyPrompt, withNotes(''), previousResponseId);
+    const search = new AgenticSearch(this.plugin);
+    const searchResult = await search.retrieveContext(userMessage, this.getScope(), budget);
+
+    // Build input with context
+    let input = userMessage;
+
+    if (searchResult.sources.length > 0) {
+      input = withNotes(searchResult.chunks.map(formatChunkForPrompt).join('\n\n---\n\n'));
     } else if (currentFile) {
       input = `${userMessage}${currentNoteContext}`;
     }
@@ -1088,7 +1612,7 @@ Please answer the question based on the information found.`;
 
     try {
       const result = await lmClient.chatV1(input, {
-        systemPrompt,
+        systemPrompt: systemPrompt + historyPrompt,
         previousResponseId,
         store: true,
         reasoning,
@@ -1119,18 +1643,24 @@ Please answer the question based on the information found.`;
       if (result.responseId) {
         await this.plugin.chatHistory.updateLMStudioResponseId(
           this.currentConversationId!,
-          result.responseId
+          result.responseId,
+          this.plugin.settings.selectedModel
         );
       }
 
+      // Keep only citations backed by the retrieved passages
+      const { content, citations } = validateCitations(this.plugin.app, result.content, searchResult.chunks);
+
       // Add assistant message with results
       const assistantMsg: ChatMessage = {
         role: 'assistant',
-        content: result.content,
+        content,
         timestamp: Date.now(),
         sources: searchResult.sources,
+        citations,
         searchSteps: searchResult.steps,
         reasoning: result.reasoning,
+        contextBudget: searchResult.budget,
       };
 
       await this.plugin.chatHistory.addMessage(this.currentConversationId!, assistantMsg);
@@ -1160,6 +1690,46 @@ Please answer the question based on the information found.`;
     }
   }
 
+  private async sendMessageWithAgent(userMessage: string): Promise<void> {
+    this.createStreamingMessage();
+
+    try {
+      // Replay earlier turns since these servers keep no conversation state
+      const history = await this.plugin.chatHistory.getPromptHistory(this.currentConversationId!);
+      const agent = new ChatAgent(this.plugin);
+      const result = await agent.execute(userMessage, this.getScope(), history.messages, history.summary);
+
+      this.finalizeStreamingMessage();
+
+      const assistantMsg: ChatMessage = {
+        role: 'assistant',
+        content: result.answer,
+        timestamp: Date.now(),
+        sources: result.sources,
+        agentSteps: result.steps,
+        actionsPerformed: result.actionsPerformed,
+        contextBudget: result.budget,
+      };
+
+      await this.plugin.chatHistory.addMessage(this.currentConversationId!, assistantMsg);
+    } catch (error) {
+      console.error('Agent chat error:', error);
+      this.finalizeStreamingMessage();
+
+      const errorMsg: ChatMessage = {
+        role: 'assistant',
+        content: `I encountered an error: ${error}. Please try again.`,
+        timestamp: Date.now(),
+      };
+
+      await this.plugin.chatHistory.addMessage(this.currentConversationId!, errorMsg);
+    } finally {
+      this.isProcessing = false;
+      this.view.setConnectionStatus('ready');
+      this.renderMessages();
+    }
+  }
+
   focusInput(): void {
     this.inputEl?.focus();
   }
@@ -1362,7 +1932,7 @@ class ModelManagementModal extends Modal {
       const val = parseInt(this.contextLengthInput!.value, 10);
       if (!isNaN(val) && val >= 512) {
         this.plugin.settings.modelContextLength = val;
-        await this.plugin.saveData(this.plugin.settings);
+        await this.plugin.writeSettings();
       }
     });
 
@@ -1388,7 +1958,7 @@ class ModelManagementModal extends Modal {
 
     this.flashAttentionToggle.addEventListener('change', async () => {
       this.plugin.settings.modelFlashAttention = this.flashAttentionToggle!.checked;
-      await this.plugin.saveData(this.plugin.settings);
+      await this.plugin.writeSettings();
     });
   }
 
@@ -1421,7 +1991,9 @@ class ModelManagementModal extends Modal {
       // Legacy API mode - show basic list without load/unload
       const notice = container.createDiv('vault-ai-model-legacy-notice');
       notice.createEl('p', {
-        text: 'Model management requires LM Studio 0.3.6 or later.',
+        text: this.plugin.settings.serverType === 'lmstudio'
+          ? 'Model management requires LM Studio 0.3.6 or later.'
+          : 'Model management is only available with LM Studio.',
         cls: 'vault-ai-model-empty',
       });
       notice.createEl('p', {
@@ -1,7 +1,12 @@
 import { ItemView, WorkspaceLeaf, MarkdownRenderer, Notice, TFile, setIcon, Menu, setTooltip } from 'obsidian';
 import type VaultAIPlugin from '../main';
-import { ChatMessage, ContextScope, SearchStep, Conversation, LMStudioStreamCallbacks, AgentStep, ReasoningLevel } from '../types';
+import { ChatMessage, CONTEXT_SCOPE_LABELS, ContextScope, SearchStep, Conversation, ConversationSummary, LMStudioStreamCallbacks, AgentStep, ReasoningLevel } from '../types';
 import { AgenticSearch } from '../search/AgenticSearch';
+import { formatChunkForPrompt } from '../search/HybridRetriever';
+import { CITATION_INSTRUCTIONS, validateCitations } from '../search/citations';
+import { linkCitations } from './citationLinks';
+import { ContextBudget, formatBudgetBreakdown } from '../llm/ContextBudget';
+import { formatHistorySummary, formatPromptHistory } from '../chat/ChatHistoryManager';
 import { LMStudioClient, LMStudioChatResult } from '../llm/LMStudioClient';
 import { ChatAgent } from '../agent/ChatAgent';
 
@@ -76,18 +81,8 @@ export class ChatWindowView extends ItemView {
       cls: 'vault-ai-scope-dropdown',
     });
 
-    const scopes: { value: ContextScope; label: string }[] = [
-      { value: 'current', label: 'Current Note' },
-      { value: 'linked', label: 'Linked Notes' },
-      { value: 'folder', label: 'Current Folder' },
-      { value: 'vault', label: 'Entire Vault' },
-    ];
-
-    for (const scope of scopes) {
-      this.scopeDropdown.createEl('option', {
-        text: scope.label,
-        value: scope.value,
-      });
+    for (const [value, label] of Object.entries(CONTEXT_SCOPE_LABELS)) {
+      this.scopeDropdown.createEl('option', { text: label, value });
     }
 
     this.scopeDropdown.addEventListener('change', async () => {
@@ -164,6 +159,15 @@ export class ChatWindowView extends ItemView {
 
     // Load conversation if set
     this.renderMessages();
+
+    // Chat notes edited outside the view
+    this.register(this.plugin.chatHistory.onChange(() => {
+      // Keep the answer being streamed on screen
+      if (!this.isProcessing) {
+        this.renderMessages();
+      }
+      this.updateDisplayedTitle();
+    }));
   }
 
   async onClose(): Promise<void> {
@@ -185,6 +189,32 @@ export class ChatWindowView extends ItemView {
     return this.plugin.chatHistory.getConversation(this.conversationId);
   }
 
+  /**
+   * Budget for an LM Studio answer: the system prompt, the history sent with it
+   * and the message are reserved. When LM Studio carries the conversation on
+   * (previousResponseId), the turns it holds since the summary are counted.
+   */
+  private createContextBudget(systemPrompt: string, history: string, input: string, previousResponseId?: string): ContextBudget {
+    const budget = ContextBudget.forPlugin(this.plugin);
+    budget.reserve('system', systemPrompt);
+    budget.reserve('history', history);
+    budget.reserve('input', input);
+
+    const conversation = this.getConversation();
+    if (previousResponseId && conversation) {
+      // The last message is the one being answered
+      const turns = conversation.messages.slice(conversation.summary?.messageCount || 0, -1);
+      budget.reserve('history', formatHistorySummary(conversation.summary?.text));
+      budget.fitMessages(turns.map((m) => ({ role: m.role, content: m.content })));
+    }
+    return budget;
+  }
+
+
+  private getScope(): ContextScope {
+    return this.getConversation()?.contextScope || 'vault';
+  }
+
   private async renameConversation(): Promise<void> {
     const conversation = this.getConversation();
     if (!conversation) return;
@@ -310,14 +340,31 @@ export class ChatWindowView extends ItemView {
       return;
     }
 
-    for (const message of messages) {
+    messages.forEach((message, index) => {
+      if (conversation?.summary && index === conversation.summary.messageCount) {
+        this.renderSummaryMarker(conversation.summary);
+      }
       this.renderMessage(message);
-    }
+    });
 
     // Scroll to bottom
     this.messagesEl.scrollTop = this.messagesEl.scrollHeight;
   }
 
+  /**
+   * Marks where the model's view of the conversation starts: messages above are
+   * sent as the summary, which can be expanded here
+   */
+  private renderSummaryMarker(summary: ConversationSummary): void {
+    if (!this.messagesEl) return;
+
+    const details = this.messagesEl.createEl('details', { cls: 'vault-ai-summary-marker' });
+    details.createEl('summary', {
+      text: `Earlier messages are summarized for the model (${summary.messageCount})`,
+    });
+    details.createDiv({ cls: 'vault-ai-summary-text', text: summary.text });
+  }
+
   private renderMessage(message: ChatMessage): void {
     if (!this.messagesEl) return;
 
@@ -369,6 +416,7 @@ export class ChatWindowView extends ItemView {
       '',
       this
     );
+    linkCitations(this.plugin.app, contentEl, message.citations);
 
     // Render actions performed if present (for agent mode)
     if (message.actionsPerformed && message.actionsPerformed.length > 0) {
@@ -404,6 +452,13 @@ export class ChatWindowView extends ItemView {
       }
     }
 
+    if (message.contextBudget) {
+      messageEl.createDiv({
+        cls: 'vault-ai-context-budget',
+        text: formatBudgetBreakdown(message.contextBudget),
+      });
+    }
+
     // Render search steps thinking process if enabled and present
     if (
       this.plugin.settings.showThinkingProcess &&
@@ -477,7 +532,7 @@ export class ChatWindowView extends ItemView {
 
       if (step.results && step.results.length > 0) {
         stepEl.createEl('p', {
-          text: `Found ${step.results.length} file(s) with matches`,
+          text: `Found ${step.results.length} file(s): ${step.results.map((r) => r.fileName).join(', ')}`,
           cls: 'results-count',
         });
       }
@@ -756,10 +811,9 @@ export class ChatWindowView extends ItemView {
   private async sendMessageLMStudio(userMessage: string): Promise<void> {
     const lmClient = this.plugin.llmClient as LMStudioClient;
 
-    // Get the previous response ID for conversation continuity
-    const previousResponseId = this.plugin.chatHistory.getLMStudioResponseId(
-      this.conversationId!
-    );
+    // Continue LM Studio's stored conversation, or start a new one from the summary and recent turns
+    const { previousResponseId, history } = await this.plugin.chatHistory.getLMStudioHistory(this.conversationId!);
+    const historyPrompt = formatPromptHistory(history);
 
     // Create streaming message UI
     this.createStreamingMessage();
@@ -769,24 +823,28 @@ Be concise and helpful. When answering:
 - Directly answer the question based on the provided notes
 - Mention which notes contain the relevant information
 - If the notes don't contain enough information to fully answer, say so
-- Do not make up information that isn't in the notes`;
+- Do not make up information that isn't in the notes
+${CITATION_INSTRUCTIONS}`;
 
-    // Build context from vault search
-    const search = new AgenticSearch(this.plugin);
-    const searchResult = await search.search(userMessage, 'vault');
-
-    // Build input with context
-    let input = userMessage;
-    if (searchResult.sources.length > 0) {
-      input = `Based on the following notes from my vault, please answer this question: "${userMessage}"
+    const withNotes = (notes: string) => `Based on the following notes from my vault, please answer this question: "${userMessage}"
 
 --- NOTES FROM VAULT ---
 
-${searchResult.sources.map((s) => `Source: ${s}`).join('\n')}
+${notes}
 
 --- END OF NOTES ---
 
 Please answer the question based on the information found.`;
+
+    // Build context from vault search, filling what the prompt and history leave
+    const budget = this.createContextBudget(systemPrompt, historyPrompt, withNotes(''), previousResponseId);
+    const search = new AgenticSearch(this.plugin);
+    const searchResult = await search.retrieveContext(userMessage, this.getScope(), budget);
+
+    // Build input with context
+    let input = userMessage;
+    if (searchResult.sources.length > 0) {
+      input = withNotes(searchResult.chunks.map(formatChunkForPrompt).join('\n\n---\n\n'));
     }
 
     // Get reasoning setting (only pass if not 'auto')
@@ -796,7 +854,7 @@ Please answer the question based on the information found.`;
 
     try {
       const result = await lmClient.chatV1(input, {
-        systemPrompt,
+        systemPrompt: systemPrompt + historyPrompt,
         previousResponseId,
         store: true,
         reasoning,
@@ -827,18 +885,24 @@ Please answer the question based on the information found.`;
       if (result.responseId) {
         await this.plugin.chatHistory.updateLMStudioResponseId(
           this.conversationId!,
-          result.responseId
+          result.responseId,
+          this.plugin.settings.selectedModel
         );
       }
 
+      // Keep only citations backed by the retrieved passages
+      const { content, citations } = validateCitations(this.plugin.app, result.content, searchResult.chunks);
+
       // Add assistant message with results
       const assistantMsg: ChatMessage = {
         role: 'assistant',
-        content: result.content,
+        content,
         timestamp: Date.now(),
         sources: searchResult.sources,
+        citations,
         searchSteps: searchResult.steps,
         reasoning: result.reasoning,
+        contextBudget: searchResult.budget,
       };
 
       await this.plugin.chatHistory.addMessage(this.conversationId!, assistantMsg);
@@ -871,8 +935,9 @@ Please answer the question based on the information found.`;
   private async sendMessageLegacy(userMessage: string): Promise<void> {
     try {
       // Use the ChatAgent with tool capabilities
+      const history = await this.plugin.chatHistory.getPromptHistory(this.conversationId!);
       const agent = new ChatAgent(this.plugin);
-      const result = await agent.execute(userMessage, 'vault');
+      const result = await agent.execute(userMessage, this.getScope(), history.messages, history.summary);
 
       const assistantMsg: ChatMessage = {
         role: 'assistant',
@@ -881,6 +946,7 @@ Please answer the question based on the information found.`;
         sources: result.sources,
         agentSteps: result.steps,
         actionsPerformed: result.actionsPerformed,
+        contextBudget: result.budget,
       };
 
       await this.plugin.chatHistory.addMessage(this.conversationId!, assistantMsg);
@@ -1,4 +1,5 @@
 import { App, Modal } from 'obsidian';
+import { longestCommonSubsequence } from '../operations/merge';
 
 /**
  * Represents a diff operation type
@@ -25,6 +26,15 @@ interface CharDiff {
   text: string;
 }
 
+export interface DiffModalOptions {
+  // Label of the confirm button (default "Apply Changes")
+  applyText?: string;
+  // Called when the modal is closed without applying
+  onCancel?: () => void;
+  // Extra content rendered between the header and the diff
+  renderDetails?: (container: HTMLElement) => void;
+}
+
 /**
  * Enhanced Diff Modal with VS Code-like visual diff checking
  */
@@ -33,6 +43,8 @@ export class DiffModal extends Modal {
   private after: string;
   private title: string;
   private onApply: () => void;
+  private options: DiffModalOptions;
+  private applied = false;
   private lineDiffs: LineDiff[] = [];
   private viewMode: 'side-by-side' | 'unified' = 'side-by-side';
 
@@ -41,13 +53,15 @@ export class DiffModal extends Modal {
     before: string,
     after: string,
     title: string,
-    onApply: () => void
+    onApply: () => void,
+    options: DiffModalOptions = {}
   ) {
     super(app);
     this.before = before;
     this.after = after;
     this.title = title;
     this.onApply = onApply;
+    this.options = options;
     this.lineDiffs = this.computeDiff(before, after);
   }
 
@@ -72,6 +86,8 @@ export class DiffModal extends Modal {
       statsEl.createSpan({ text: `~${stats.modified}`, cls: 'stat-modified' });
     }
 
+    this.options.renderDetails?.(contentEl);
+
     // View toggle buttons
     const viewToggle = contentEl.createDiv('vault-ai-diff-toggle');
     const sideBySideBtn = viewToggle.createEl('button', {
@@ -115,10 +131,11 @@ export class DiffModal extends Modal {
     cancelBtn.addEventListener('click', () => this.close());
 
     const applyBtn = buttonRow.createEl('button', {
-      text: 'Apply Changes',
+      text: this.options.applyText || 'Apply Changes',
       cls: 'mod-cta',
     });
     applyBtn.addEventListener('click', () => {
+      this.applied = true;
       this.onApply();
       this.close();
     });
@@ -391,7 +408,7 @@ export class DiffModal extends Modal {
     const diffs: LineDiff[] = [];
 
     // Use LCS to find matching lines
-    const lcs = this.longestCommonSubsequence(oldLines, newLines);
+    const lcs = longestCommonSubsequence(oldLines, newLines);
 
     let oldIdx = 0;
     let newIdx = 0;
@@ -462,46 +479,6 @@ export class DiffModal extends Modal {
     return diffs;
   }
 
-  /**
-   * Compute longest common subsequence of lines
-   */
-  private longestCommonSubsequence(a: string[], b: string[]): string[] {
-    const m = a.length;
-    const n = b.length;
-
-    // DP table
-    const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-
-    for (let i = 1; i <= m; i++) {
-      for (let j = 1; j <= n; j++) {
-        if (a[i - 1] === b[j - 1]) {
-          dp[i][j] = dp[i - 1][j - 1] + 1;
-        } else {
-          dp[i][j] = Math.max(dp[i - 1][j], dp[i][j - 1]);
-        }
-      }
-    }
-
-    // Backtrack to find LCS
-    const lcs: string[] = [];
-    let i = m;
-    let j = n;
-
-    while (i > 0 && j > 0) {
-      if (a[i - 1] === b[j - 1]) {
-        lcs.unshift(a[i - 1]);
-        i--;
-        j--;
-      } else if (dp[i - 1][j] > dp[i][j - 1]) {
-        i--;
-      } else {
-        j--;
-      }
-    }
-
-    return lcs;
-  }
-
   /**
    * Compute character-level diff for modified lines
    */
@@ -512,7 +489,7 @@ export class DiffModal extends Modal {
     const oldWords = this.tokenize(oldText);
     const newWords = this.tokenize(newText);
 
-    const lcs = this.longestCommonSubsequence(oldWords, newWords);
+    const lcs = longestCommonSubsequence(oldWords, newWords);
 
     let oldIdx = 0;
     let newIdx = 0;
@@ -629,5 +606,9 @@ export class DiffModal extends Modal {
   onClose(): void {
     const { contentEl } = this;
     contentEl.empty();
+
+    if (!this.applied) {
+      this.options.onCancel?.();
+    }
   }
 }
@@ -0,0 +1,202 @@
+import { App, Component, MarkdownRenderer, Modal, Notice, Setting, TFile, normalizePath } from 'obsidian';
+import type VaultAIPlugin from '../main';
+import { Conversation } from '../types';
+import { ensureFolder, normalizeFolderPath } from '../tools/helpers';
+import { getConversationFileName } from '../chat/conversationMarkdown';
+import {
+  EXPORT_EXTENSIONS,
+  EXPORT_FORMAT_LABELS,
+  ExportFormat,
+  exportToHtml,
+  exportToJson,
+  exportToMarkdown,
+  selectMessages,
+} from '../chat/conversationExport';
+
+/**
+ * Export conversations to a file in the vault. With one conversation, the
+ * messages to include can be picked. Markdown and HTML exports are one file per
+ * conversation; a JSON export holds them all.
+ */
+export class ExportModal extends Modal {
+  private plugin: VaultAIPlugin;
+  private conversations: Conversation[];
+  private format: ExportFormat = 'markdown';
+  private folder: string;
+  // Indices of the messages to export, with a single conversation
+  private selected: Set<number>;
+
+  constructor(app: App, plugin: VaultAIPlugin, conversations: Conversation[]) {
+    super(app);
+    this.plugin = plugin;
+    this.conversations = conversations;
+    this.folder = plugin.settings.chatExportFolder;
+    this.selected = new Set(conversations.length === 1 ? conversations[0].messages.map((_, i) => i) : []);
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass('vault-ai-export-modal');
+    contentEl.empty();
+
+    const single = this.conversations.length === 1 ? this.conversations[0] : null;
+    contentEl.createEl('h2', {
+      text: single ? 'Export Conversation' : `Export ${this.conversations.length} Conversations`,
+    });
+
+    new Setting(contentEl)
+      .setName('Format')
+      .setDesc(single ? '' : 'Markdown and HTML make one file per conversation, JSON one file for all')
+      .addDropdown((dropdown) => {
+        for (const [format, label] of Object.entries(EXPORT_FORMAT_LABELS)) {
+          dropdown.addOption(format, label);
+        }
+        dropdown.setValue(this.format).onChange((value) => {
+          this.format = value as ExportFormat;
+        });
+      });
+
+    new Setting(contentEl)
+      .setName('Folder')
+      .setDesc('Vault folder to save the export in')
+      .addText((text) =>
+        text
+          .setPlaceholder('AI Exports')
+          .setValue(this.folder)
+          .onChange((value) => {
+            this.folder = value;
+          })
+      );
+
+    if (single) {
+      this.renderMessageSelection(contentEl, single);
+    }
+
+    const buttons = contentEl.createDiv('vault-ai-modal-buttons');
+    const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const exportBtn = buttons.createEl('button', { text: 'Export', cls: 'mod-cta' });
+    exportBtn.addEventListener('click', async () => {
+      exportBtn.disabled = true;
+      try {
+        await this.export();
+        this.close();
+      } catch (error) {
+        console.error('[Vault AI] Export failed:', error);
+        new Notice(`Export failed: ${error}`);
+        exportBtn.disabled = false;
+      }
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private renderMessageSelection(container: HTMLElement, conversation: Conversation): void {
+    const details = container.createEl('details', { cls: 'vault-ai-export-messages' });
+    const summary = details.createEl('summary');
+    const updateSummary = () => {
+      summary.setText(`Messages: ${this.selected.size} of ${conversation.messages.length}`);
+    };
+    updateSummary();
+
+    const checkboxes: HTMLInputElement[] = [];
+    const controls = details.createDiv('vault-ai-export-messages-controls');
+    const setAll = (checked: boolean) => {
+      checkboxes.forEach((checkbox, index) => {
+        checkbox.checked = checked;
+        if (checked) this.selected.add(index);
+        else this.selected.delete(index);
+      });
+      updateSummary();
+    };
+    controls.createEl('button', { text: 'All' }).addEventListener('click', () => setAll(true));
+    controls.createEl('button', { text: 'None' }).addEventListener('click', () => setAll(false));
+
+    conversation.messages.forEach((message, index) => {
+      const label = details.createEl('label', { cls: 'vault-ai-export-message' });
+      const checkbox = label.createEl('input', { type: 'checkbox' });
+      checkbox.checked = this.selected.has(index);
+      checkbox.addEventListener('change', () => {
+        if (checkbox.checked) this.selected.add(index);
+        else this.selected.delete(index);
+        updateSummary();
+      });
+      checkboxes.push(checkbox);
+
+      label.createSpan({ text: message.role === 'user' ? 'You' : 'AI', cls: 'vault-ai-export-message-role' });
+      label.createSpan({ text: message.content.replace(/\s+/g, ' ').slice(0, 80), cls: 'vault-ai-export-message-text' });
+    });
+  }
+
+  private async export(): Promise<void> {
+    const folder = normalizeFolderPath(this.folder) || this.plugin.settings.chatExportFolder;
+    if (folder !== this.plugin.settings.chatExportFolder) {
+      this.plugin.settings.chatExportFolder = folder;
+      await this.plugin.saveSettings();
+    }
+
+    let conversations = this.conversations;
+    if (conversations.length === 1) {
+      if (this.selected.size === 0) {
+        throw new Error('no messages selected');
+      }
+      const [conversation] = conversations;
+      if (this.selected.size < conversation.messages.length) {
+        conversations = [selectMessages(conversation, Array.from(this.selected).sort((a, b) => a - b))];
+      }
+    }
+
+    const extension = EXPORT_EXTENSIONS[this.format];
+    const files: TFile[] = [];
+    if (this.format === 'json') {
+      const name = conversations.length === 1
+        ? getConversationFileName(conversations[0].title)
+        : `Vault AI conversations ${new Date().toISOString().slice(0, 10)}`;
+      files.push(await this.writeFile(folder, name, extension, exportToJson(conversations)));
+    } else {
+      for (const conversation of conversations) {
+        const content = this.format === 'markdown'
+          ? exportToMarkdown(conversation)
+          : await exportToHtml(conversation, (markdown) => this.renderHtml(markdown));
+        files.push(await this.writeFile(folder, getConversationFileName(conversation.title), extension, content));
+      }
+    }
+
+    new Notice(files.length === 1 ? `Exported to ${files[0].path}` : `Exported ${files.length} files to ${folder}`);
+    if (files.length === 1 && this.format === 'markdown') {
+      await this.app.workspace.getLeaf('tab').openFile(files[0]);
+    }
+  }
+
+  private async writeFile(folder: string, name: string, extension: string, content: string): Promise<TFile> {
+    await ensureFolder(this.app, folder);
+    let path = normalizePath(`${folder}/${name}.${extension}`);
+    for (let n = 2; this.app.vault.getAbstractFileByPath(path); n++) {
+      path = normalizePath(`${folder}/${name} ${n}.${extension}`);
+    }
+    return this.app.vault.create(path, content);
+  }
+
+  /**
+   * Message markdown as HTML for a page outside Obsidian: internal links become
+   * plain text and buttons Obsidian adds are dropped
+   */
+  private async renderHtml(markdown: string): Promise<string> {
+    const component = new Component();
+    component.load();
+    try {
+      const el = createDiv();
+      await MarkdownRenderer.render(this.app, markdown, el, '', component);
+      el.querySelectorAll('a.internal-link').forEach((link) => {
+        link.replaceWith(createSpan({ text: link.textContent || '', cls: 'internal-link' }));
+      });
+      el.querySelectorAll('button').forEach((button) => button.remove());
+      return el.innerHTML;
+    } finally {
+      component.unload();
+    }
+  }
+}
@@ -3,7 +3,8 @@ import type VaultAIPlugin from '../main';
 import type { VaultAIView } from './SidebarView';
 import { FormatSuggestion, FormatAnalysisResult, LLMMessage } from '../types';
 import { DiffModal } from './DiffModal';
-import { FORMAT_SYSTEM_PROMPT, buildFormatPrompt } from '../prompts/format';
+import { FORMAT_OUTPUT_SHARE, FORMAT_SYSTEM_PROMPT, buildFittedFormatPrompt } from '../prompts/format';
+import { ContextBudget } from '../llm/ContextBudget';
 
 export class FormatTab {
   private plugin: VaultAIPlugin;
@@ -179,14 +180,19 @@ export class FormatTab {
 
       const customInstructions = this.customInstructionsEl?.value || '';
 
+      const budget = ContextBudget.forPlugin(this.plugin, this.plugin.settings.modelContextLength * FORMAT_OUTPUT_SHARE);
       const messages: LLMMessage[] = [
         { role: 'system', content: FORMAT_SYSTEM_PROMPT },
         {
           role: 'user',
-          content: buildFormatPrompt(this.currentFileContent, customInstructions),
+          content: buildFittedFormatPrompt(budget, this.currentFileContent, customInstructions),
         },
       ];
 
+      if (budget.getBreakdown().trimmed.length > 0) {
+        new Notice('This note is too long for the model\'s context window. Only its first part will be checked.');
+      }
+
       const response = await this.plugin.llmClient?.chat(messages);
 
       if (response) {
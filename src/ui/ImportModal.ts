@@ -0,0 +1,102 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import type VaultAIPlugin from '../main';
+import { IMPORT_SOURCE_LABELS, parseConversationImport } from '../chat/conversationImport';
+
+/**
+ * Import conversations from a JSON export of Vault AI, ChatGPT, Claude or
+ * another chat tool into the chat history
+ */
+export class ImportModal extends Modal {
+  private plugin: VaultAIPlugin;
+  private file: File | null = null;
+  // Folder of the chat history list to put the imported conversations in
+  private folder = '';
+
+  constructor(app: App, plugin: VaultAIPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass('vault-ai-import-modal');
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: 'Import Conversations' });
+    contentEl.createEl('p', {
+      text: 'Choose a JSON export: one made by Vault AI, conversations.json from a ChatGPT or Claude data export (unzip it first), or a list of conversations with role and content messages. Conversations already in the chat history are skipped.',
+      cls: 'vault-ai-import-description',
+    });
+
+    const input = contentEl.createEl('input', { type: 'file', attr: { accept: '.json,application/json' } });
+    input.hide();
+
+    let importBtn: HTMLButtonElement | null = null;
+    new Setting(contentEl)
+      .setName('File')
+      .setDesc('No file chosen')
+      .addButton((button) =>
+        button.setButtonText('Choose file...').onClick(() => input.click())
+      )
+      .then((setting) => {
+        input.addEventListener('change', () => {
+          this.file = input.files?.[0] ?? null;
+          setting.setDesc(this.file ? this.file.name : 'No file chosen');
+          if (importBtn) importBtn.disabled = !this.file;
+        });
+      });
+
+    new Setting(contentEl)
+      .setName('Folder')
+      .setDesc('Folder of the chat history list to put the conversations in; leave empty for the top level')
+      .addText((text) =>
+        text
+          .setPlaceholder('Imported')
+          .onChange((value) => {
+            this.folder = value;
+          })
+      );
+
+    const buttons = contentEl.createDiv('vault-ai-modal-buttons');
+    const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    importBtn = buttons.createEl('button', { text: 'Import', cls: 'mod-cta' });
+    importBtn.disabled = true;
+    importBtn.addEventListener('click', async () => {
+      if (!importBtn) return;
+      importBtn.disabled = true;
+      try {
+        await this.import();
+        this.close();
+      } catch (error) {
+        console.error('[Vault AI] Import failed:', error);
+        new Notice(`Import failed: ${error instanceof Error ? error.message : error}`);
+        importBtn.disabled = false;
+      }
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private async import(): Promise<void> {
+    if (!this.file) return;
+
+    const { source, conversations } = parseConversationImport(await this.file.text());
+    const folder = this.folder.trim();
+    if (folder) {
+      conversations.forEach((conversation) => {
+        conversation.folder = folder;
+      });
+    }
+
+    const { added, skipped } = await this.plugin.chatHistory.importConversations(conversations);
+    const label = IMPORT_SOURCE_LABELS[source];
+    new Notice(
+      `Imported ${added} ${label} conversation${added === 1 ? '' : 's'}`
+      + (skipped > 0 ? ` (${skipped} already in the chat history)` : '')
+    );
+  }
+}
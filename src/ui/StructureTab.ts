@@ -5,10 +5,14 @@ import {
   StructureSuggestion,
   StructureAnalysisResult,
   LLMMessage,
-  UndoableOperation,
 } from '../types';
 import { FileOperations } from '../operations/FileOperations';
-import { STRUCTURE_SYSTEM_PROMPT, buildStructurePrompt } from '../prompts/structure';
+import { STRUCTURE_SYSTEM_PROMPT, buildFittedStructurePrompt } from '../prompts/structure';
+import { ContextBudget } from '../llm/ContextBudget';
+import { UndoHistoryModal } from './UndoHistoryModal';
+
+// Latest transactions shown under the suggestions; the rest are in the history browser
+const HISTORY_PREVIEW_COUNT = 10;
 
 export class StructureTab {
   private plugin: VaultAIPlugin;
@@ -87,6 +91,15 @@ export class StructureTab {
       this.undoLast();
     });
 
+    const browseBtn = historyHeader.createEl('button', {
+      text: 'Browse',
+      cls: 'vault-ai-undo-button',
+    });
+
+    browseBtn.addEventListener('click', () => {
+      new UndoHistoryModal(this.plugin.app, this.plugin, () => this.renderHistory()).open();
+    });
+
     this.historyEl = historySection.createDiv('vault-ai-history');
     this.renderHistory();
   }
@@ -224,7 +237,7 @@ export class StructureTab {
     if (!this.historyEl) return;
     this.historyEl.empty();
 
-    const history = this.plugin.undoStack.getHistory();
+    const history = this.plugin.undoJournal.getHistory().slice(-HISTORY_PREVIEW_COUNT);
 
     if (history.length === 0) {
       this.historyEl.createEl('p', {
@@ -241,6 +254,10 @@ export class StructureTab {
 
       opEl.createSpan({ text: timeStr, cls: 'vault-ai-history-time' });
       opEl.createSpan({ text: op.description });
+      if (op.state === 'undone') {
+        opEl.addClass('is-undone');
+        opEl.setAttr('title', 'Undone');
+      }
     }
   }
 
@@ -264,11 +281,16 @@ export class StructureTab {
       // Get file structure info
       const fileInfo = this.getFileStructureInfo();
 
+      const budget = ContextBudget.forPlugin(this.plugin);
       const messages: LLMMessage[] = [
         { role: 'system', content: STRUCTURE_SYSTEM_PROMPT },
-        { role: 'user', content: buildStructurePrompt(fileInfo, this.selectedFolder) },
+        { role: 'user', content: buildFittedStructurePrompt(budget, fileInfo, this.selectedFolder) },
       ];
 
+      if (budget.getBreakdown().trimmed.length > 0) {
+        new Notice('Too many notes for the model\'s context window. Only part of the list will be analyzed.');
+      }
+
       const response = await this.plugin.llmClient?.chat(messages);
 
       if (response) {
@@ -391,7 +413,7 @@ export class StructureTab {
     });
   }
 
-  private async executeSuggestion(suggestion: StructureSuggestion): Promise<void> {
+  private async executeSuggestion(suggestion: StructureSuggestion, transactionId?: string): Promise<void> {
     try {
       const undoOp = await this.fileOps.executeOperations(
         suggestion.operations,
@@ -399,7 +421,7 @@ export class StructureTab {
       );
 
       if (undoOp) {
-        this.plugin.undoStack.push(undoOp);
+        await this.plugin.undoJournal.push(undoOp, transactionId, 'Structure');
       }
 
       suggestion.executed = true;
@@ -416,21 +438,28 @@ export class StructureTab {
   private async executeAllSuggestions(): Promise<void> {
     const pending = this.suggestions.filter((s) => !s.executed);
 
-    for (const suggestion of pending) {
-      await this.executeSuggestion(suggestion);
+    // Undo reverts the whole batch at once
+    const transactionId = this.plugin.undoJournal.beginTransaction(
+      `Executed ${pending.length} structure suggestion(s)`,
+      'Structure'
+    );
+    try {
+      for (const suggestion of pending) {
+        await this.executeSuggestion(suggestion, transactionId);
+      }
+    } finally {
+      await this.plugin.undoJournal.commitTransaction(transactionId);
+      this.renderHistory();
     }
 
     new Notice(`Executed ${pending.length} suggestion(s)`);
   }
 
   private async undoLast(): Promise<void> {
-    const undone = await this.plugin.undoStack.undo(this.plugin.app);
+    const undone = await this.plugin.runUndoAction(() => this.plugin.undoJournal.undo(), 'Undone', 'Nothing to undo');
 
     if (undone) {
-      new Notice(`Undone: ${undone.description}`);
       this.renderHistory();
-    } else {
-      new Notice('Nothing to undo');
     }
   }
 }
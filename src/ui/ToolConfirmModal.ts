@@ -0,0 +1,112 @@
+import { App, Modal } from 'obsidian';
+import type { ToolConfirmRequest } from '../tools';
+import { DiffModal } from './DiffModal';
+
+/**
+ * Ask the user to approve a tool call. Edits with a preview are shown as a diff,
+ * everything else as the list of arguments. Closing the modal counts as declining.
+ */
+export function confirmToolCall(app: App, request: ToolConfirmRequest): Promise<boolean> {
+  return new Promise((resolve) => {
+    const title = `Allow ${request.tool.title.toLowerCase()}?`;
+
+    if (request.preview) {
+      new DiffModal(
+        app,
+        request.preview.before,
+        request.preview.after,
+        title,
+        () => resolve(true),
+        {
+          applyText: 'Allow',
+          onCancel: () => resolve(false),
+          renderDetails: (container) => renderToolCallDetails(container, request),
+        }
+      ).open();
+      return;
+    }
+
+    new ToolConfirmModal(app, title, request, resolve).open();
+  });
+}
+
+/**
+ * Caller, reason and the exact arguments of the call
+ */
+function renderToolCallDetails(container: HTMLElement, request: ToolConfirmRequest): void {
+  const details = container.createDiv('vault-ai-tool-confirm-details');
+
+  const summary = details.createEl('p', { cls: 'vault-ai-tool-confirm-summary' });
+  summary.createSpan({ text: `${request.caller || 'A client'} wants to run ` });
+  summary.createEl('code', { text: request.tool.name });
+  summary.createSpan({ text: `. You are asked because of ${request.reason}.` });
+
+  if (request.tool.permission === 'destructive') {
+    details.createEl('p', {
+      text: 'This action deletes content from your vault.',
+      cls: 'vault-ai-tool-confirm-warning',
+    });
+  }
+
+  const argsList = details.createDiv('vault-ai-tool-confirm-args');
+  const entries = Object.entries(request.args);
+  if (entries.length === 0) {
+    argsList.createEl('p', { text: 'No arguments', cls: 'vault-ai-tool-confirm-empty' });
+  }
+
+  for (const [name, value] of entries) {
+    const row = argsList.createDiv('vault-ai-tool-confirm-arg');
+    row.createSpan({ text: name, cls: 'vault-ai-tool-confirm-arg-name' });
+    row.createEl('pre', {
+      text: typeof value === 'string' ? value : JSON.stringify(value, null, 2),
+      cls: 'vault-ai-tool-confirm-arg-value',
+    });
+  }
+}
+
+class ToolConfirmModal extends Modal {
+  private title: string;
+  private request: ToolConfirmRequest;
+  private onDecision: (approved: boolean) => void;
+  private decided = false;
+
+  constructor(app: App, title: string, request: ToolConfirmRequest, onDecision: (approved: boolean) => void) {
+    super(app);
+    this.title = title;
+    this.request = request;
+    this.onDecision = onDecision;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass('vault-ai-tool-confirm-modal');
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: this.title });
+    renderToolCallDetails(contentEl, this.request);
+
+    const buttonRow = contentEl.createDiv('vault-ai-tool-confirm-buttons');
+
+    const denyBtn = buttonRow.createEl('button', { text: 'Deny' });
+    denyBtn.addEventListener('click', () => this.decide(false));
+
+    const allowBtn = buttonRow.createEl('button', {
+      text: 'Allow',
+      cls: this.request.tool.permission === 'destructive' ? 'mod-warning' : 'mod-cta',
+    });
+    allowBtn.addEventListener('click', () => this.decide(true));
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    // Escape or the close button
+    this.decide(false);
+  }
+
+  private decide(approved: boolean): void {
+    if (this.decided) return;
+    this.decided = true;
+    this.onDecision(approved);
+    this.close();
+  }
+}
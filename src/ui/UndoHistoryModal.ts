@@ -0,0 +1,141 @@
+import { App, Modal } from 'obsidian';
+import type VaultAIPlugin from '../main';
+import { FileOperation, UndoTransaction } from '../types';
+
+/**
+ * Browse the undo journal and undo or redo any transaction whose files have not
+ * been edited since, or whose edited notes can be merged
+ */
+export class UndoHistoryModal extends Modal {
+  private plugin: VaultAIPlugin;
+  private onChange?: () => void;
+  private listEl: HTMLElement | null = null;
+
+  constructor(app: App, plugin: VaultAIPlugin, onChange?: () => void) {
+    super(app);
+    this.plugin = plugin;
+    this.onChange = onChange;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass('vault-ai-undo-history-modal');
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: 'Undo History' });
+    contentEl.createEl('p', {
+      text: 'Changes made by the chat agent, MCP clients and structure suggestions. A change can be undone or redone while the files it touched are unchanged; notes you edited since are merged with your edits.',
+      cls: 'vault-ai-undo-history-description',
+    });
+
+    const controls = contentEl.createDiv('vault-ai-undo-history-controls');
+    const undoBtn = controls.createEl('button', { text: 'Undo last' });
+    undoBtn.addEventListener('click', () => {
+      this.run(() => this.plugin.undoJournal.undo(), 'Undone', 'Nothing to undo');
+    });
+
+    const redoBtn = controls.createEl('button', { text: 'Redo' });
+    redoBtn.disabled = !this.plugin.undoJournal.canRedo();
+    redoBtn.addEventListener('click', () => {
+      this.run(() => this.plugin.undoJournal.redo(), 'Redone', 'Nothing to redo');
+    });
+
+    this.listEl = contentEl.createDiv('vault-ai-undo-history-list');
+    this.renderList();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private renderList(): void {
+    if (!this.listEl) return;
+    this.listEl.empty();
+
+    const history = this.plugin.undoJournal.getHistory().reverse();
+    if (history.length === 0) {
+      this.listEl.createEl('p', { text: 'No changes recorded yet.', cls: 'vault-ai-empty-history' });
+      return;
+    }
+
+    for (const transaction of history) {
+      this.renderTransaction(this.listEl, transaction);
+    }
+  }
+
+  private renderTransaction(container: HTMLElement, transaction: UndoTransaction): void {
+    const itemEl = container.createDiv('vault-ai-undo-item');
+    if (transaction.state === 'undone') {
+      itemEl.addClass('is-undone');
+    }
+
+    const header = itemEl.createDiv('vault-ai-undo-item-header');
+    const info = header.createDiv('vault-ai-undo-item-info');
+    info.createDiv({ text: transaction.description, cls: 'vault-ai-undo-item-title' });
+
+    const meta = info.createDiv('vault-ai-undo-item-meta');
+    meta.createSpan({ text: new Date(transaction.timestamp).toLocaleString() });
+    if (transaction.source) {
+      meta.createSpan({ text: transaction.source });
+    }
+    meta.createSpan({
+      text: transaction.state === 'applied' ? 'Applied' : 'Undone',
+      cls: `vault-ai-undo-item-state state-${transaction.state}`,
+    });
+
+    const isApplied = transaction.state === 'applied';
+    const actionBtn = header.createEl('button', { text: isApplied ? 'Undo' : 'Redo' });
+    actionBtn.disabled = true;
+    actionBtn.addEventListener('click', () => {
+      const journal = this.plugin.undoJournal;
+      this.run(
+        async () => {
+          await (isApplied ? journal.revert(transaction.id) : journal.reapply(transaction.id));
+          return transaction;
+        },
+        isApplied ? 'Undone' : 'Redone',
+        ''
+      );
+    });
+
+    const details = itemEl.createEl('details', { cls: 'vault-ai-undo-item-details' });
+    details.createEl('summary', { text: `${transaction.operations.length} operation(s)` });
+    const opsList = details.createEl('ul');
+    for (const op of transaction.operations) {
+      opsList.createEl('li', { text: describeOperation(op) });
+    }
+
+    // Only enable the action once we know edits since can be kept
+    const conflictEl = itemEl.createDiv('vault-ai-undo-item-conflict');
+    this.plugin.undoJournal.findConflicts(transaction).then((conflicts) => {
+      const blocking = conflicts.filter((c) => !c.mergeable).map((c) => c.path);
+      const mergeable = conflicts.filter((c) => c.mergeable).map((c) => c.path);
+
+      if (blocking.length > 0) {
+        conflictEl.setText(`Changed since: ${blocking.join(', ')}`);
+        actionBtn.setAttr('title', 'These files changed afterwards in a way that cannot be merged, so reverting would lose changes');
+        return;
+      }
+
+      actionBtn.disabled = false;
+      if (mergeable.length > 0) {
+        conflictEl.setText(`Edited since, you will be asked to merge: ${mergeable.join(', ')}`);
+      }
+    });
+  }
+
+  private async run(
+    action: () => Promise<UndoTransaction | null>,
+    doneLabel: string,
+    emptyMessage: string
+  ): Promise<void> {
+    await this.plugin.runUndoAction(action, doneLabel, emptyMessage);
+    this.onChange?.();
+    // Re-render controls too, since redo availability may have changed
+    this.onOpen();
+  }
+}
+
+function describeOperation(op: FileOperation): string {
+  return op.targetPath ? `${op.type}: ${op.sourcePath} → ${op.targetPath}` : `${op.type}: ${op.sourcePath}`;
+}
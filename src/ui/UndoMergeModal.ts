@@ -0,0 +1,172 @@
+import { App, Modal } from 'obsidian';
+import { UndoMergeRequest } from '../types';
+import { MergeConflict, MergeResult, joinMergeHunks, mergeThreeWay } from '../operations/merge';
+import { DiffModal } from './DiffModal';
+
+type ConflictChoice = 'ours' | 'theirs' | 'both';
+
+/**
+ * Merge the user's edits into an undo/redo of a note edited since. Non-overlapping
+ * changes are merged automatically; overlapping ones are resolved by the user. The
+ * result is reviewed as a diff against the current note before it is written.
+ * Resolves to the merged content, or null if the user cancels.
+ */
+export function resolveUndoMerge(app: App, request: UndoMergeRequest): Promise<string | null> {
+  return new Promise((resolve) => {
+    const result = mergeThreeWay(request.base, request.current, request.target);
+
+    if (result.conflicts === 0) {
+      openMergeReview(app, request, joinMergeHunks(result.hunks, () => []), resolve, () => resolve(null));
+      return;
+    }
+
+    new UndoMergeModal(app, request, result, resolve).open();
+  });
+}
+
+function actionLabel(request: UndoMergeRequest): string {
+  return request.action === 'undo' ? 'Undo' : 'Redo';
+}
+
+function openMergeReview(
+  app: App,
+  request: UndoMergeRequest,
+  merged: string,
+  onApply: (merged: string) => void,
+  onCancel: () => void
+): void {
+  new DiffModal(
+    app,
+    request.current,
+    merged,
+    `${actionLabel(request)} with your edits: ${request.path}`,
+    () => onApply(merged),
+    {
+      applyText: `${actionLabel(request)} and keep my edits`,
+      onCancel,
+      renderDetails: (container) => {
+        container.createEl('p', {
+          text: `${request.path} was edited after "${request.transaction.description}". Left is the note now, right is the note after the ${request.action} with your edits kept.`,
+          cls: 'vault-ai-undo-merge-summary',
+        });
+      },
+    }
+  ).open();
+}
+
+class UndoMergeModal extends Modal {
+  private request: UndoMergeRequest;
+  private result: MergeResult;
+  private onResolve: (merged: string | null) => void;
+  private choices: ConflictChoice[];
+  private resolved = false;
+
+  constructor(
+    app: App,
+    request: UndoMergeRequest,
+    result: MergeResult,
+    onResolve: (merged: string | null) => void
+  ) {
+    super(app);
+    this.request = request;
+    this.result = result;
+    this.onResolve = onResolve;
+    // Keeping the user's text is the safe default
+    this.choices = new Array(result.conflicts).fill('ours');
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.addClass('vault-ai-undo-merge-modal');
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: `Merge your edits: ${this.request.path}` });
+    contentEl.createEl('p', {
+      text: `This note was edited after "${this.request.transaction.description}". Changes that do not overlap were merged automatically. Choose what to keep where your edits and the ${this.request.action} overlap.`,
+      cls: 'vault-ai-undo-merge-summary',
+    });
+
+    const hunksEl = contentEl.createDiv('vault-ai-undo-merge-hunks');
+    let conflictIndex = 0;
+    for (const hunk of this.result.hunks) {
+      if (hunk.type === 'stable') {
+        const details = hunksEl.createEl('details', { cls: 'vault-ai-undo-merge-stable' });
+        details.createEl('summary', { text: `${hunk.lines.length} merged line(s)` });
+        details.createEl('pre', { text: hunk.lines.join('\n') });
+      } else {
+        this.renderConflict(hunksEl, hunk, conflictIndex++);
+      }
+    }
+
+    const buttonRow = contentEl.createDiv('vault-ai-undo-merge-buttons');
+
+    const cancelBtn = buttonRow.createEl('button', { text: 'Cancel' });
+    cancelBtn.addEventListener('click', () => this.close());
+
+    const reviewBtn = buttonRow.createEl('button', { text: 'Review merge', cls: 'mod-cta' });
+    reviewBtn.addEventListener('click', () => {
+      const merged = joinMergeHunks(this.result.hunks, (conflict, index) => this.pick(conflict, index));
+      // Cancelling the review returns here
+      openMergeReview(this.app, this.request, merged, (content) => this.finish(content), () => {});
+    });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    // Escape or the close button
+    this.finish(null);
+  }
+
+  private renderConflict(container: HTMLElement, conflict: MergeConflict, index: number): void {
+    const conflictEl = container.createDiv('vault-ai-undo-merge-conflict');
+
+    const sides = conflictEl.createDiv('vault-ai-undo-merge-sides');
+    const oursEl = sides.createDiv('vault-ai-undo-merge-side');
+    oursEl.createDiv({ text: 'Your edits', cls: 'vault-ai-undo-merge-side-label' });
+    oursEl.createEl('pre', { text: conflict.ours.join('\n') });
+
+    const theirsEl = sides.createDiv('vault-ai-undo-merge-side');
+    theirsEl.createDiv({ text: `${actionLabel(this.request)} result`, cls: 'vault-ai-undo-merge-side-label' });
+    theirsEl.createEl('pre', { text: conflict.theirs.join('\n') });
+
+    const choiceRow = conflictEl.createDiv('vault-ai-undo-merge-choices');
+    const options: Array<[ConflictChoice, string]> = [
+      ['ours', 'Keep mine'],
+      ['theirs', `Use ${this.request.action} result`],
+      ['both', 'Keep both'],
+    ];
+    const buttons = options.map(([choice, label]) => {
+      const btn = choiceRow.createEl('button', { text: label });
+      btn.toggleClass('is-active', this.choices[index] === choice);
+      btn.addEventListener('click', () => {
+        this.choices[index] = choice;
+        buttons.forEach((b) => b.removeClass('is-active'));
+        btn.addClass('is-active');
+        oursEl.toggleClass('is-chosen', choice !== 'theirs');
+        theirsEl.toggleClass('is-chosen', choice !== 'ours');
+      });
+      return btn;
+    });
+
+    oursEl.toggleClass('is-chosen', this.choices[index] !== 'theirs');
+    theirsEl.toggleClass('is-chosen', this.choices[index] !== 'ours');
+  }
+
+  private pick(conflict: MergeConflict, index: number): string[] {
+    switch (this.choices[index]) {
+      case 'theirs':
+        return conflict.theirs;
+      case 'both':
+        return [...conflict.ours, ...conflict.theirs];
+      default:
+        return conflict.ours;
+    }
+  }
+
+  private finish(merged: string | null): void {
+    if (this.resolved) return;
+    this.resolved = true;
+    this.onResolve(merged);
+    this.close();
+  }
+}
@@ -0,0 +1,65 @@
+import { App, Keymap, MarkdownView, Notice, TFile, setTooltip } from 'obsidian';
+import { Citation } from '../types';
+
+/**
+ * Make the internal links in rendered chat markdown clickable. Links matching a
+ * citation open the note at the cited lines; other links open normally.
+ */
+export function linkCitations(app: App, containerEl: HTMLElement, citations: Citation[] = []): void {
+  containerEl.querySelectorAll<HTMLAnchorElement>('a.internal-link').forEach((linkEl) => {
+    const href = linkEl.getAttribute('data-href') || linkEl.getAttribute('href') || '';
+    const citation = citations.find((c) => c.link === href);
+
+    if (citation) {
+      linkEl.addClass('vault-ai-citation');
+      const lines = citation.startLine === citation.endLine
+        ? `line ${citation.startLine}`
+        : `lines ${citation.startLine}-${citation.endLine}`;
+      setTooltip(linkEl, `${citation.filePath}, ${lines}`);
+    }
+
+    linkEl.addEventListener('click', (e) => {
+      e.preventDefault();
+      if (citation) {
+        openCitation(app, citation, Keymap.isModEvent(e));
+      } else {
+        app.workspace.openLinkText(href, '', Keymap.isModEvent(e));
+      }
+    });
+  });
+}
+
+/**
+ * Open a cited note scrolled to the cited lines, selected in the editor
+ */
+export async function openCitation(app: App, citation: Citation, newLeaf: boolean | 'tab' | 'split' | 'window' = false): Promise<void> {
+  const file = app.vault.getAbstractFileByPath(citation.filePath);
+  if (!(file instanceof TFile)) {
+    new Notice(`Note not found: ${citation.filePath}`);
+    return;
+  }
+
+  // Blocks can be found again if the note changed since the answer
+  let { startLine, endLine } = citation;
+  const block = citation.blockId
+    ? app.metadataCache.getFileCache(file)?.blocks?.[citation.blockId.toLowerCase()]
+    : undefined;
+  if (block) {
+    startLine = block.position.start.line + 1;
+    endLine = block.position.end.line + 1;
+  }
+
+  const leaf = app.workspace.getLeaf(newLeaf);
+  await leaf.openFile(file, { active: true, eState: { line: startLine - 1 } });
+
+  const view = leaf.view;
+  if (view instanceof MarkdownView && view.getMode() === 'source') {
+    const editor = view.editor;
+    const lastLine = editor.lastLine();
+    const from = { line: Math.min(startLine - 1, lastLine), ch: 0 };
+    const toLine = Math.min(endLine - 1, lastLine);
+    const to = { line: toLine, ch: editor.getLine(toLine).length };
+    editor.setSelection(from, to);
+    editor.scrollIntoView({ from, to }, true);
+  }
+}